@@ -2,6 +2,9 @@ import { Editor, MarkdownFileInfo, MarkdownView, Menu, Notice, TFile } from 'obs
 import type AITaggerPlugin from '../main';
 import { TagUtils } from '../utils/tagUtils';
 import { TaggingMode } from '../services/prompts/types';
+import { RequestCancelledError } from '../services';
+import { DryRunReport } from '../utils/dryRunReport';
+import { DryRunReportSuggestModal } from '../ui/modals/DryRunReportSuggestModal';
 
 export function registerGenerateCommands(plugin: AITaggerPlugin) {
     // Command to generate tags for current note (with selection support)
@@ -16,8 +19,9 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
                 return;
             }
 
+            const file = view.file;
             const selectedText = editor.getSelection();
-            const content = selectedText || await plugin.app.vault.read(view.file);
+            const content = selectedText || await plugin.app.vault.read(file);
 
             if (!content.trim()) {
                 new Notice(plugin.t.messages.noContentToAnalyze);
@@ -25,34 +29,81 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
             }
 
             const existingTags = TagUtils.getAllTags(plugin.app);
-            new Notice(plugin.t.messages.analyzing);
 
             try {
-                let maxTags = plugin.settings.tagRangeGenerateMax;
-                if (plugin.settings.taggingMode === TaggingMode.PredefinedTags) {
-                    maxTags = plugin.settings.tagRangePredefinedMax;
-                } else if (plugin.settings.taggingMode === TaggingMode.Hybrid) {
-                    maxTags = plugin.settings.tagRangePredefinedMax + plugin.settings.tagRangeGenerateMax;
+                // The folder rule of the note sets the mode, limits, language and provider
+                const tagging = plugin.getTaggingSettings(file);
+                const { settings } = tagging;
+                let maxTags = settings.tagRangeGenerateMax;
+                if (settings.taggingMode === TaggingMode.PredefinedTags) {
+                    maxTags = settings.tagRangePredefinedMax;
+                } else if (settings.taggingMode === TaggingMode.Hybrid) {
+                    maxTags = settings.tagRangePredefinedMax + settings.tagRangeGenerateMax;
                 }
 
-                const analysis = await plugin.llmService.analyzeTags(
-                    content,
-                    existingTags,
-                    plugin.settings.taggingMode,
-                    maxTags,
-                    plugin.settings.language
-                );
+                const { service, source } = plugin.getFolderRuleProvider(tagging.rule);
+                if (plugin.settings.debugMode) {
+                    console.log(`[AI Tagger Debug] Folder rule for ${file.path}:`, tagging.rule ?? 'none, using global settings');
+                }
+                // Embedding matching runs without the LLM service, against the predefined tags
+                const analysis = settings.taggingMode === TaggingMode.Embedding
+                    ? await plugin.analyzeContent(content, plugin.withUsageTracking(file), service, settings)
+                    : await plugin.withPartialTagsNotice(async options => {
+                        const result = await service.analyzeTags(
+                            content,
+                            existingTags,
+                            settings.taggingMode,
+                            maxTags,
+                            settings.language,
+                            { ...plugin.withUsageTracking(file, options, source), settings }
+                        );
+                        return source ? { ...result, source } : result;
+                    });
 
-                const suggestedTags = analysis.suggestedTags;
-                const matchedTags = analysis.matchedExistingTags || [];
+                // Tags below the confidence threshold are dropped or held for review
+                const suggested = plugin.partitionByConfidence(analysis.suggestedTags, analysis.confidence);
+                const matched = plugin.partitionByConfidence(analysis.matchedExistingTags || [], analysis.confidence);
+                const lowConfidenceTags = [...matched.lowConfidence, ...suggested.lowConfidence];
+                const holdForReview = plugin.settings.lowConfidenceAction === 'review' && lowConfidenceTags.length > 0;
+                let suggestedTags = suggested.confident;
+                let matchedTags = matched.confident;
 
-                const result = await TagUtils.updateNoteTags(plugin.app, view.file, suggestedTags, matchedTags, true, plugin.settings.replaceTags, plugin.settings.tagFormat);
+                if ((plugin.settings.reviewBeforeApply && (suggestedTags.length || matchedTags.length)) || holdForReview) {
+                    const review = await plugin.reviewTagSuggestions(
+                        file,
+                        suggestedTags,
+                        matchedTags,
+                        undefined,
+                        holdForReview ? lowConfidenceTags : [],
+                        analysis.confidence
+                    );
+                    if (review.action !== 'apply') {
+                        new Notice(plugin.t.tagReview.skipped.replace('{file}', file.basename));
+                        return;
+                    }
+                    if (!review.tags.length) {
+                        new Notice(plugin.t.tagReview.noTagsSelected);
+                        return;
+                    }
+                    suggestedTags = review.tags;
+                    matchedTags = [];
+                }
 
+                const result = await plugin.fileLocks.run(file.path, () => TagUtils.updateNoteTags(
+                    plugin.app, file, suggestedTags, matchedTags, true, plugin.settings.replaceTags, settings.tagFormat,
+                    { operation: 'ai-tag', ...(analysis.source ?? plugin.getProviderInfo()) }
+                ));
+
+                if (result.success) {
+                    plugin.recordTagRationale(file, [...suggestedTags, ...matchedTags], analysis, settings.tagFormat);
+                }
                 if (selectedText && result.success) {
                     editor.replaceSelection(selectedText);
                 }
                 plugin.handleTagUpdateResult(result);
             } catch (error) {
+                // The cancel command already reported it
+                if (error instanceof RequestCancelledError) return;
                 // console.error('Error generating tags:', error);
                 new Notice(plugin.t.messages.failedToGenerateTags);
             }
@@ -64,6 +115,72 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
         id: 'generate-tags-for-current-folder',
         name: plugin.t.commands.generateTagsForCurrentFolder,
         icon: 'tag',
+        callback: () => tagCurrentFolder(plugin, false)
+    });
+
+    // Command to generate tags for vault
+    plugin.addCommand({
+        id: 'generate-tags-for-vault',
+        name: plugin.t.commands.generateTagsForVault,
+        icon: 'tag',
+        callback: () => tagVault(plugin, false)
+    });
+
+    // Commands to re-tag notes that are unchanged since they were last tagged
+    plugin.addCommand({
+        id: 'force-retag-current-folder',
+        name: plugin.t.commands.forceRetagCurrentFolder,
+        icon: 'refresh-cw',
+        callback: () => tagCurrentFolder(plugin, true)
+    });
+
+    plugin.addCommand({
+        id: 'force-retag-vault',
+        name: plugin.t.commands.forceRetagVault,
+        icon: 'refresh-cw',
+        callback: () => tagVault(plugin, true)
+    });
+
+    // Command to resume an interrupted folder/vault tagging job
+    plugin.addCommand({
+        id: 'resume-tagging-job',
+        name: plugin.t.commands.resumeTaggingJob,
+        icon: 'play',
+        callback: async () => {
+            await plugin.runTaggingJob();
+        }
+    });
+
+    // Command to re-queue only the files that failed in the last job
+    plugin.addCommand({
+        id: 'retry-failed-files',
+        name: plugin.t.commands.retryFailedFiles,
+        icon: 'rotate-ccw',
+        callback: async () => {
+            const count = plugin.taggingQueue.retryFailed();
+            if (count === 0) {
+                new Notice(plugin.t.taggingQueue.noFailed);
+                return;
+            }
+
+            new Notice(plugin.t.taggingQueue.requeued.replace('{count}', String(count)));
+            await plugin.runTaggingJob();
+        }
+    });
+
+    // Command to stop the running analysis and abort its requests
+    plugin.addCommand({
+        id: 'cancel-current-analysis',
+        name: plugin.t.commands.cancelAnalysis,
+        icon: 'square',
+        callback: () => plugin.cancelAnalysis()
+    });
+
+    // Command to preview tags for current folder without writing
+    plugin.addCommand({
+        id: 'dry-run-tags-for-current-folder',
+        name: plugin.t.commands.dryRunForCurrentFolder,
+        icon: 'file-search',
         callback: async () => {
             const activeFile = plugin.app.workspace.getActiveFile();
             if (!activeFile) {
@@ -78,30 +195,28 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
             }
 
             const filesInFolder = plugin.getNonExcludedMarkdownFilesFromFolder(parentFolder);
-
             if (filesInFolder.length === 0) {
                 new Notice(plugin.t.messages.noMdFiles);
                 return;
             }
 
             const confirmed = await plugin.showConfirmationDialog(
-                `${plugin.t.messages.generateTagsForFolderConfirm.replace('{count}', String(filesInFolder.length))}`
+                plugin.t.dryRun.confirm.replace('{count}', String(filesInFolder.length))
             );
-
             if (!confirmed) {
                 new Notice(plugin.t.messages.operationCancelled);
                 return;
             }
 
-            await plugin.analyzeAndTagFiles(filesInFolder);
+            await plugin.dryRunTagFiles(filesInFolder, parentFolder.path || '/');
         }
     });
 
-    // Command to generate tags for vault
+    // Command to preview tags for vault without writing
     plugin.addCommand({
-        id: 'generate-tags-for-vault',
-        name: plugin.t.commands.generateTagsForVault,
-        icon: 'tag',
+        id: 'dry-run-tags-for-vault',
+        name: plugin.t.commands.dryRunForVault,
+        icon: 'file-search',
         callback: async () => {
             const files = plugin.getNonExcludedMarkdownFiles();
             if (files.length === 0) {
@@ -110,15 +225,38 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
             }
 
             const confirmed = await plugin.showConfirmationDialog(
-                `${plugin.t.messages.generateTagsForVaultConfirm.replace('{count}', String(files.length))}`
+                plugin.t.dryRun.confirm.replace('{count}', String(files.length))
             );
-
             if (!confirmed) {
                 new Notice(plugin.t.messages.operationCancelled);
                 return;
             }
 
-            await plugin.analyzeAndTagFiles(files);
+            await plugin.dryRunTagFiles(files, 'vault');
+        }
+    });
+
+    // Command to apply a dry-run report (the open one, or one picked from the list)
+    plugin.addCommand({
+        id: 'apply-dry-run-report',
+        name: plugin.t.commands.applyDryRunReport,
+        icon: 'file-check',
+        callback: () => {
+            const activeFile = plugin.app.workspace.getActiveFile();
+            if (activeFile && DryRunReport.isReport(plugin.app, activeFile)) {
+                plugin.applyDryRunReport(activeFile);
+                return;
+            }
+
+            const reports = DryRunReport.getReports(plugin.app);
+            if (reports.length === 0) {
+                new Notice(plugin.t.dryRun.noReports);
+                return;
+            }
+
+            new DryRunReportSuggestModal(plugin.app, plugin.t, reports, (file) => {
+                plugin.applyDryRunReport(file);
+            }).open();
         }
     });
 
@@ -154,9 +292,68 @@ export function registerGenerateCommands(plugin: AITaggerPlugin) {
                     item
                         .setTitle(plugin.t.commands.aiTagThisNote)
                         .setIcon('tag')
-                        .onClick(() => plugin.analyzeAndTagFiles([file]));
+                        .onClick(() => plugin.analyzeAndTagFile(file));
                 });
             }
         })
     );
 }
+
+/**
+ * Tags the Markdown files in the active note's folder after confirmation
+ * @param force Re-tag notes even if they are unchanged since they were last tagged
+ */
+async function tagCurrentFolder(plugin: AITaggerPlugin, force: boolean): Promise<void> {
+    const activeFile = plugin.app.workspace.getActiveFile();
+    if (!activeFile) {
+        new Notice(plugin.t.messages.openNote);
+        return;
+    }
+
+    const parentFolder = activeFile.parent;
+    if (!parentFolder) {
+        new Notice(plugin.t.messages.noParentFolder);
+        return;
+    }
+
+    const filesInFolder = plugin.getNonExcludedMarkdownFilesFromFolder(parentFolder);
+
+    if (filesInFolder.length === 0) {
+        new Notice(plugin.t.messages.noMdFiles);
+        return;
+    }
+
+    const confirmed = await plugin.showConfirmationDialog(
+        `${plugin.t.messages.generateTagsForFolderConfirm.replace('{count}', String(filesInFolder.length))}`
+    );
+
+    if (!confirmed) {
+        new Notice(plugin.t.messages.operationCancelled);
+        return;
+    }
+
+    await plugin.analyzeAndTagFiles(filesInFolder, `AI tagging: ${parentFolder.path || '/'}`, force);
+}
+
+/**
+ * Tags all non-excluded Markdown files in the vault after confirmation
+ * @param force Re-tag notes even if they are unchanged since they were last tagged
+ */
+async function tagVault(plugin: AITaggerPlugin, force: boolean): Promise<void> {
+    const files = plugin.getNonExcludedMarkdownFiles();
+    if (files.length === 0) {
+        new Notice(plugin.t.messages.noMdFiles);
+        return;
+    }
+
+    const confirmed = await plugin.showConfirmationDialog(
+        `${plugin.t.messages.generateTagsForVaultConfirm.replace('{count}', String(files.length))}`
+    );
+
+    if (!confirmed) {
+        new Notice(plugin.t.messages.operationCancelled);
+        return;
+    }
+
+    await plugin.analyzeAndTagFiles(files, 'AI tagging: vault', force);
+}
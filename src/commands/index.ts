@@ -1,10 +1,14 @@
 import { registerGenerateCommands } from './generateCommands';
 import { registerClearCommands } from './clearCommands';
 import { registerUtilityCommands } from './utilityCommands';
+import { registerJournalCommands } from './journalCommands';
+import { registerProfileCommands } from './profileCommands';
 import AITaggerPlugin from '../main';
 
 export function registerCommands(plugin: AITaggerPlugin) {
     registerGenerateCommands(plugin);
     registerClearCommands(plugin);
     registerUtilityCommands(plugin);
+    registerJournalCommands(plugin);
+    registerProfileCommands(plugin);
 }
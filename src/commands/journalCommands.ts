@@ -0,0 +1,90 @@
+import { Notice } from 'obsidian';
+import type AITaggerPlugin from '../main';
+import { TagBatchRevertModal } from '../ui/modals/TagBatchRevertModal';
+import { TagHistoryModal, getOperationLabel, showRevertResult } from '../ui/modals/TagHistoryModal';
+import { TagRationaleModal } from '../ui/modals/TagRationaleModal';
+import { TagUtils } from '../utils/tagUtils';
+
+export function registerJournalCommands(plugin: AITaggerPlugin) {
+    // Command to undo the most recent tag operation (single note or whole batch)
+    plugin.addCommand({
+        id: 'undo-last-tag-operation',
+        name: plugin.t.commands.undoLastTagOperation,
+        icon: 'undo',
+        callback: async () => {
+            const batch = plugin.tagJournal.getLastOperation();
+            if (!batch) {
+                new Notice(plugin.t.tagJournal.nothingToUndo);
+                return;
+            }
+
+            const label = batch.label ?? getOperationLabel(plugin.t, batch.entries[0].operation);
+            const result = await plugin.tagJournal.revertEntries(batch.entries, `Undo ${label}`);
+            showRevertResult(plugin.t, result);
+        }
+    });
+
+    // Command to roll back a whole folder or vault run
+    plugin.addCommand({
+        id: 'revert-batch-run',
+        name: plugin.t.commands.revertBatchRun,
+        icon: 'history',
+        callback: () => {
+            const batches = plugin.tagJournal.getRevertableBatches();
+            if (batches.length === 0) {
+                new Notice(plugin.t.tagJournal.noBatches);
+                return;
+            }
+
+            new TagBatchRevertModal(plugin.app, plugin.t, batches, async (batch) => {
+                const pending = batch.entries.filter(entry => !entry.reverted);
+                const confirmed = await plugin.showConfirmationDialog(
+                    plugin.t.tagJournal.revertBatchConfirm
+                        .replace('{count}', String(pending.length))
+                        .replace('{label}', batch.label ?? batch.id)
+                );
+                if (!confirmed) {
+                    new Notice(plugin.t.messages.operationCancelled);
+                    return;
+                }
+
+                const result = await plugin.tagJournal.revertEntries(batch.entries, `Revert ${batch.label ?? batch.id}`);
+                showRevertResult(plugin.t, result);
+            }).open();
+        }
+    });
+
+    // Command to show the tag history of the current note
+    plugin.addCommand({
+        id: 'show-tag-history',
+        name: plugin.t.commands.showTagHistory,
+        icon: 'history',
+        callback: () => {
+            const activeFile = plugin.app.workspace.getActiveFile();
+            if (!activeFile) {
+                new Notice(plugin.t.messages.openNote);
+                return;
+            }
+
+            new TagHistoryModal(plugin.app, plugin.t, plugin.tagJournal, activeFile).open();
+        }
+    });
+
+    // Command to show why each tag of the current note was chosen
+    plugin.addCommand({
+        id: 'explain-tags-for-current-note',
+        name: plugin.t.commands.explainTags,
+        icon: 'help-circle',
+        callback: () => {
+            const activeFile = plugin.app.workspace.getActiveFile();
+            if (!activeFile) {
+                new Notice(plugin.t.messages.openNote);
+                return;
+            }
+
+            const frontmatter = plugin.app.metadataCache.getFileCache(activeFile)?.frontmatter ?? null;
+            const tags = TagUtils.getExistingTags(frontmatter);
+            new TagRationaleModal(plugin.app, plugin.t, activeFile, tags, plugin.tagRationale.getForFile(activeFile.path)).open();
+        }
+    });
+}
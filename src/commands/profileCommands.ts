@@ -0,0 +1,67 @@
+import { Notice } from 'obsidian';
+import type AITaggerPlugin from '../main';
+import { ProviderProfileSuggestModal } from '../ui/modals/ProviderProfileSuggestModal';
+
+// Ids of the per-profile switch commands that are currently registered
+const switchCommandIds = new Set<string>();
+
+export function registerProfileCommands(plugin: AITaggerPlugin) {
+    // Command to tag the current note with a profile, without switching to it
+    plugin.addCommand({
+        id: 'generate-tags-with-profile',
+        name: plugin.t.commands.generateTagsWithProfile,
+        icon: 'tag',
+        callback: () => {
+            const file = plugin.app.workspace.getActiveFile();
+            if (!file || file.extension !== 'md') {
+                new Notice(plugin.t.messages.openNote);
+                return;
+            }
+
+            if (plugin.settings.profiles.length === 0) {
+                new Notice(plugin.t.profiles.noProfilesNotice);
+                return;
+            }
+
+            new ProviderProfileSuggestModal(plugin.app, plugin.t, plugin.settings.profiles, (profile) => {
+                plugin.analyzeAndTagFile(file, profile);
+            }).open();
+        }
+    });
+
+    syncProfileCommands(plugin);
+}
+
+/**
+ * Registers a switch command for every profile and removes the commands of deleted profiles
+ */
+export function syncProfileCommands(plugin: AITaggerPlugin) {
+    const ids = new Set(plugin.settings.profiles.map(profile => `switch-ai-profile-${profile.id}`));
+
+    // removeCommand needs Obsidian 1.7.2; on older versions the commands of deleted profiles remain until reload
+    if (typeof plugin.removeCommand === 'function') {
+        switchCommandIds.forEach(id => {
+            if (!ids.has(id)) plugin.removeCommand(id);
+        });
+    }
+    switchCommandIds.clear();
+
+    for (const profile of plugin.settings.profiles) {
+        const id = `switch-ai-profile-${profile.id}`;
+        plugin.addCommand({
+            id,
+            name: plugin.t.commands.switchProfile.replace('{name}', profile.name),
+            icon: 'repeat',
+            callback: async () => {
+                // Look the profile up again so later edits apply
+                const current = plugin.settings.profiles.find(p => p.id === profile.id);
+                if (!current) {
+                    new Notice(plugin.t.profiles.notFound);
+                    return;
+                }
+                await plugin.switchProfile(current);
+            }
+        });
+        switchCommandIds.add(id);
+    }
+}
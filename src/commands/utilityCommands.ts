@@ -1,6 +1,6 @@
 import { MarkdownView, Notice, TFile } from 'obsidian';
 import AITaggerPlugin from '../main';
-import { TagUtils } from '../utils/tagUtils';
+import { TagUtils, createTagBatch } from '../utils/tagUtils';
 import { TagRenameModal } from '../ui/modals/TagRenameModal';
 import { TagImportModal } from '../ui/modals/TagImportModal';
 import { TagImportExport } from '../utils/tagImportExport';
@@ -38,6 +38,36 @@ export function registerUtilityCommands(plugin: AITaggerPlugin) {
         }
     });
 
+    // Command to show recorded token usage and costs
+    plugin.addCommand({
+        id: 'show-token-usage',
+        name: plugin.t.commands.showTokenUsage,
+        icon: 'coins',
+        callback: async () => {
+            await plugin.showUsageLedger();
+        }
+    });
+
+    // Command to show the log of requests sent to providers
+    plugin.addCommand({
+        id: 'show-audit-log',
+        name: plugin.t.commands.showAuditLog,
+        icon: 'scroll-text',
+        callback: async () => {
+            await plugin.showAuditLog();
+        }
+    });
+
+    // Command to clear the cached LLM responses
+    plugin.addCommand({
+        id: 'clear-response-cache',
+        name: plugin.t.commands.clearResponseCache,
+        icon: 'trash-2',
+        callback: async () => {
+            await plugin.clearResponseCache();
+        }
+    });
+
     // Command to bulk rename tag
     plugin.addCommand({
         id: 'bulk-rename-tag',
@@ -231,6 +261,7 @@ async function flattenTagsInFiles(plugin: AITaggerPlugin, files: TFile[]): Promi
     let successCount = 0;
     let hasHierarchical = 0;
 
+    const batch = createTagBatch(`Flatten tags (${files.length} notes)`);
     for (const file of files) {
         const cache = plugin.app.metadataCache.getFileCache(file);
         const tags = cache?.frontmatter ? TagUtils.getExistingTags(cache.frontmatter) : [];
@@ -241,7 +272,8 @@ async function flattenTagsInFiles(plugin: AITaggerPlugin, files: TFile[]): Promi
             const result = await TagUtils.flattenHierarchicalTags(
                 plugin.app,
                 file,
-                plugin.settings.tagFormat
+                plugin.settings.tagFormat,
+                batch
             );
             if (result.success) {
                 successCount++;
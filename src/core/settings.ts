@@ -1,8 +1,15 @@
 import { TaggingMode } from '../services/prompts/types';
-import { LanguageCode } from '../services/types';
-import { AdapterType } from '../services/adapters';
+import { LanguageCode, LongNoteStrategy } from '../services/types';
+import { AdapterType, CustomProviderDefinition } from '../services/adapters';
+import { RateLimits } from '../services/rateLimiter';
 import { SupportedLanguage, DEFAULT_LANGUAGE } from '../i18n';
 
+/** What happens to tags scored below the confidence threshold */
+export type LowConfidenceAction = 'drop' | 'review';
+
+/** API of a local server: OpenAI-compatible endpoints, or Ollama's native API */
+export type LocalServiceType = 'ollama' | 'lm_studio' | 'localai' | 'openai_compatible';
+
 export type TagFormat = 'kebab-case' | 'camelCase' | 'PascalCase' | 'snake_case' | 'original';
 
 export interface TagTemplate {
@@ -11,11 +18,60 @@ export interface TagTemplate {
     tags: string[];
 }
 
+/** A provider tried when the ones before it in the fallback chain fail */
+export interface FallbackProvider {
+    id: string;
+    serviceType: 'local' | 'cloud';
+    cloudServiceType: AdapterType;       // Ignored for local providers
+    endpoint: string;
+    apiKey: string;
+    model: string;
+    localServiceType?: LocalServiceType; // Only 'ollama' changes how local providers are called
+}
+
+/** A named provider configuration, switchable from the command palette */
+export interface ProviderProfile extends FallbackProvider {
+    name: string;
+    llmTemperatureOverride: number | null;
+    requestTimeout: number;              // Seconds
+}
+
+/** Settings for the notes in a folder and its subfolders; fields left unset keep the global setting */
+export interface FolderRule {
+    id: string;
+    folder: string;                      // Vault path, without leading or trailing slashes
+    taggingMode?: TaggingMode;
+    predefinedTagsPath?: string;         // Also takes the predefined tags from this file
+    customPrompt?: string;
+    profileId?: string;                  // Provider profile used instead of the active provider
+    language?: LanguageCode;
+    tagFormat?: TagFormat;
+    tagRangeGenerateMax?: number;
+    tagRangePredefinedMax?: number;
+}
+
+/** Context window of a model, or of the models whose name starts with `model` */
+export interface ModelContextWindow {
+    model: string;
+    contextWindow: number;               // Tokens
+}
+
+/** Price of a model in USD per million tokens */
+export interface ModelPrice {
+    model: string;
+    inputPrice: number;
+    outputPrice: number;
+}
+
 export interface AITaggerSettings {
     serviceType: 'local' | 'cloud';
     localEndpoint: string;
     localModel: string;
-    localServiceType?: 'ollama' | 'lm_studio' | 'localai' | 'openai_compatible';
+    localServiceType?: LocalServiceType;
+    // Model options for Ollama's native API; 0 or empty leaves Ollama's default
+    ollamaNumCtx: number;                // 0 uses the model's full context length
+    ollamaNumPredict: number;
+    ollamaKeepAlive: string;
     cloudEndpoint: string;
     cloudApiKey: string;
     cloudModel: string;
@@ -44,12 +100,69 @@ export interface AITaggerSettings {
     tagTemplates: TagTemplate[];         // User-defined tag templates
     // Request timeout in seconds
     requestTimeout: number;
+    // Stream responses and show tags as they arrive
+    streamResponses: boolean;
+    // Use the provider's structured-output feature for tag responses
+    structuredOutput: boolean;
+    // How notes longer than the request limit are analyzed
+    longNoteStrategy: LongNoteStrategy;
+    // Most sections of a long note tagged section by section; longer notes have sections skipped
+    maxChunks: number;
+    // Most note tokens sent in one request; 0 fills the model's context window
+    maxContentTokens: number;
+    // Context windows used to size requests, matched by model name or name prefix
+    modelContextWindows: ModelContextWindow[];
+    // Parallel requests during batch tagging, keyed by provider
+    providerConcurrency: Record<string, number>;
+    // Requests and tokens per minute sent to each provider; 0 leaves a limit off
+    providerRateLimits: Record<string, RateLimits>;
+    // Providers tried in order when the main provider is unreachable or overloaded
+    fallbackProviders: FallbackProvider[];
+    // Named provider configurations to switch between
+    profiles: ProviderProfile[];
+    // Providers defined by request template, selectable as `custom:<id>`
+    customProviders: CustomProviderDefinition[];
+    // Overrides for notes in specific folders; the most specific folder applies
+    folderRules: FolderRule[];
+    // Prices used to compute the cost of recorded token usage
+    modelPrices: ModelPrice[];
+    // Answer prompts sent to the same model before from a cache in the plugin folder
+    responseCacheEnabled: boolean;
+    responseCacheMaxSize: number;        // Megabytes
+    responseCacheTtl: number;            // Days
+    // Log every request sent to a provider, without the prompt text
+    auditLogEnabled: boolean;
+    auditLogPath: string;                // Vault path; empty logs to the plugin folder
+    // Embeddings endpoint and minimum similarity for embedding matching
+    embeddingEndpoint: string;
+    embeddingApiKey: string;
+    embeddingModel: string;
+    embeddingThreshold: number;          // 0-1
+    // Show suggestions in a review modal before writing them
+    reviewBeforeApply: boolean;
+    // Skip notes unchanged since they were last tagged in folder/vault runs
+    skipUnchangedNotes: boolean;
+    // Minimum confidence (0-1) for a tag to be written; 0 disables scoring
+    confidenceThreshold: number;
+    lowConfidenceAction: LowConfidenceAction;
+    // Ask the model for a one-line reason per tag
+    captureRationale: boolean;
+    // Folder where dry-run reports are written
+    dryRunReportFolder: string;
+    // Auto Tagging Settings
+    autoTagEnabled: boolean;             // Tag new notes automatically
+    autoTagOnEdit: boolean;              // Also re-tag notes after they are edited
+    autoTagQuietPeriod: number;          // Seconds without changes before tagging
+    autoTagMinLength: number;            // Minimum body length in characters
 }
 
 export const DEFAULT_SETTINGS: AITaggerSettings = {
     serviceType: 'cloud',
     localEndpoint: 'http://localhost:11434/v1/chat/completions',
     localModel: 'mistral',
+    ollamaNumCtx: 8192,
+    ollamaNumPredict: 0,
+    ollamaKeepAlive: '',
     cloudEndpoint: 'https://api.openai.com/v1/chat/completions',
     cloudApiKey: '',
     cloudModel: 'gpt-4',
@@ -80,4 +193,82 @@ Prefer technical terms and domain-specific vocabulary when appropriate.`,
     tagFormat: 'kebab-case',
     tagTemplates: [],
     requestTimeout: 60,
+    streamResponses: false,
+    structuredOutput: true,
+    longNoteStrategy: 'truncate',
+    maxChunks: 8,
+    maxContentTokens: 4000,
+    // Published limits of the models the adapters are most used with; users keep them current in the settings tab
+    modelContextWindows: [
+        { model: 'gpt-5', contextWindow: 400000 },
+        { model: 'gpt-4.1', contextWindow: 1047576 },
+        { model: 'gpt-4o', contextWindow: 128000 },
+        { model: 'gpt-4-turbo', contextWindow: 128000 },
+        { model: 'gpt-4', contextWindow: 8192 },
+        { model: 'gpt-3.5-turbo', contextWindow: 16385 },
+        { model: 'o1', contextWindow: 200000 },
+        { model: 'o3', contextWindow: 200000 },
+        { model: 'o4-mini', contextWindow: 200000 },
+        { model: 'claude-', contextWindow: 200000 },
+        { model: 'anthropic.claude', contextWindow: 200000 },
+        { model: 'gemini-1.5-pro', contextWindow: 2097152 },
+        { model: 'gemini-', contextWindow: 1048576 },
+        { model: 'deepseek', contextWindow: 128000 },
+        { model: 'mistral', contextWindow: 32768 },
+        { model: 'mistral-large', contextWindow: 131072 },
+        { model: 'command-r', contextWindow: 128000 },
+        { model: 'command-a', contextWindow: 256000 },
+        { model: 'llama-3.1', contextWindow: 131072 },
+        { model: 'llama-3.3', contextWindow: 131072 },
+        { model: 'llama3', contextWindow: 8192 },
+        { model: 'mixtral-8x7b', contextWindow: 32768 },
+        { model: 'grok-', contextWindow: 131072 },
+        { model: 'grok-4', contextWindow: 256000 },
+        { model: 'qwen', contextWindow: 32768 },
+        { model: 'qwen-plus', contextWindow: 131072 },
+        { model: 'qwen-turbo', contextWindow: 1000000 },
+        { model: 'glm-4', contextWindow: 128000 },
+        { model: 'minimax', contextWindow: 1000000 },
+        { model: 'mimo', contextWindow: 32768 },
+        { model: 'text-embedding-3', contextWindow: 8191 },
+        { model: 'text-embedding-ada-002', contextWindow: 8191 },
+        { model: 'nomic-embed-text', contextWindow: 8192 },
+        { model: 'mxbai-embed-large', contextWindow: 512 },
+        { model: 'mistral-embed', contextWindow: 8192 },
+        { model: 'bge-m3', contextWindow: 8192 },
+        { model: 'all-minilm', contextWindow: 256 }
+    ],
+    providerConcurrency: {},
+    providerRateLimits: {},
+    fallbackProviders: [],
+    profiles: [],
+    customProviders: [],
+    folderRules: [],
+    // List prices at the time of writing; users keep them current in the settings tab
+    modelPrices: [
+        { model: 'gpt-4o', inputPrice: 2.5, outputPrice: 10 },
+        { model: 'gpt-4o-mini', inputPrice: 0.15, outputPrice: 0.6 },
+        { model: 'claude-sonnet-4-5-20250929', inputPrice: 3, outputPrice: 15 },
+        { model: 'gemini-2.0-flash', inputPrice: 0.1, outputPrice: 0.4 },
+        { model: 'deepseek-chat', inputPrice: 0.27, outputPrice: 1.1 }
+    ],
+    responseCacheEnabled: false,
+    responseCacheMaxSize: 20,
+    responseCacheTtl: 30,
+    auditLogEnabled: false,
+    auditLogPath: '',
+    embeddingEndpoint: 'http://localhost:11434/v1/embeddings',
+    embeddingApiKey: '',
+    embeddingModel: 'nomic-embed-text',
+    embeddingThreshold: 0.5,
+    reviewBeforeApply: false,
+    skipUnchangedNotes: true,
+    confidenceThreshold: 0,
+    lowConfidenceAction: 'drop',
+    captureRationale: false,
+    dryRunReportFolder: 'AI Tagger Reports',
+    autoTagEnabled: false,
+    autoTagOnEdit: false,
+    autoTagQuietPeriod: 30,
+    autoTagMinLength: 200,
 };
@@ -0,0 +1,34 @@
+import type { TagJournalEntry } from '../utils/tagJournal';
+import type { TaggingJob } from '../utils/taggingQueue';
+import type { NoteFingerprint } from '../utils/noteFingerprints';
+import type { TagRationaleEntry } from '../utils/tagRationale';
+import type { UsageEntry } from '../utils/usageLedger';
+import type { ModelCatalogEntry } from '../utils/modelCatalog';
+
+/**
+ * Runtime data persisted in files of the plugin folder, one per property (see StateFiles).
+ * Unlike settings, this is written by the plugin itself and never edited in the settings tab.
+ */
+export interface PluginState {
+    // History of tag writes, oldest first
+    tagJournal: TagJournalEntry[];
+    // Folder/vault tagging run that can be resumed after a restart
+    taggingJob: TaggingJob | null;
+    // Content and settings hashes of tagged notes, keyed by path
+    noteFingerprints: Record<string, NoteFingerprint>;
+    // Model explanations for AI-written tags, keyed by path and then by tag
+    tagRationale: Record<string, Record<string, TagRationaleEntry>>;
+    // Token counts of LLM requests, oldest first
+    usageLedger: UsageEntry[];
+    // Model lists fetched from cloud providers, keyed by provider and endpoint
+    modelCatalog: Record<string, ModelCatalogEntry>;
+}
+
+export const DEFAULT_STATE: PluginState = {
+    tagJournal: [],
+    taggingJob: null,
+    noteFingerprints: {},
+    tagRationale: {},
+    usageLedger: [],
+    modelCatalog: {},
+};
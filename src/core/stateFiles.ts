@@ -0,0 +1,86 @@
+import { DataAdapter, debounce } from 'obsidian';
+import type { PluginState } from './state';
+
+/** File of each part of the plugin state, in the plugin folder */
+const STATE_FILES: Record<keyof PluginState, string> = {
+    tagJournal: 'tag-journal.json',
+    taggingJob: 'tagging-job.json',
+    noteFingerprints: 'note-fingerprints.json',
+    tagRationale: 'tag-rationale.json',
+    usageLedger: 'usage-ledger.json',
+    modelCatalog: 'model-catalog.json',
+};
+
+/**
+ * Stores each part of the plugin state in its own JSON file in the plugin folder, rather than in the
+ * plugin data, so saving one part does not rewrite the settings and every other part with it.
+ * Changes are batched for a short delay that later changes do not extend, so busy runs still save.
+ */
+export class StateFiles {
+    private dirty = new Set<keyof PluginState>();
+    // Writes are chained so an older write never lands after a newer one
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        private adapter: DataAdapter,
+        private folder: string,
+        private getState: () => PluginState
+    ) {}
+
+    /**
+     * Reads the stored parts of the state; parts without a readable file are left out
+     */
+    async load(): Promise<Partial<PluginState>> {
+        const state: Partial<Record<keyof PluginState, unknown>> = {};
+        for (const key of Object.keys(STATE_FILES) as (keyof PluginState)[]) {
+            const path = this.getPath(key);
+            if (!(await this.adapter.exists(path))) continue;
+            try {
+                state[key] = JSON.parse(await this.adapter.read(path));
+            } catch (error) {
+                console.error(`Failed to read ${path}:`, error);
+            }
+        }
+        return state as Partial<PluginState>;
+    }
+
+    /**
+     * Marks a part of the state as changed and saves it after a short delay
+     */
+    requestSave(key: keyof PluginState): void {
+        this.dirty.add(key);
+        this.saveLater();
+    }
+
+    /**
+     * Writes every changed part to disk
+     */
+    async flush(): Promise<void> {
+        this.saveLater.cancel();
+        const keys = [...this.dirty];
+        this.dirty.clear();
+        if (keys.length === 0) {
+            return this.writing;
+        }
+
+        this.writing = this.writing
+            .then(() => this.write(keys))
+            .catch(error => console.error('Failed to save the plugin state:', error));
+        return this.writing;
+    }
+
+    private saveLater = debounce(() => {
+        this.flush();
+    }, 2000, false);
+
+    private async write(keys: (keyof PluginState)[]): Promise<void> {
+        const state = this.getState();
+        for (const key of keys) {
+            await this.adapter.write(this.getPath(key), JSON.stringify(state[key]));
+        }
+    }
+
+    private getPath(key: keyof PluginState): string {
+        return `${this.folder}/${STATE_FILES[key]}`;
+    }
+}
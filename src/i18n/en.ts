@@ -11,8 +11,22 @@ export const en: Translations = {
             cloudProviderDesc: "Choose your preferred cloud service provider",
             localEndpoint: "Local Endpoint",
             localEndpointDesc: "Configure the local LLM service endpoint URL",
+            localApi: "Local API",
+            localApiDesc: "OpenAI-compatible works with most local servers. Ollama native uses Ollama's own API, which supports its model options and reads the model's context length to size long notes.",
+            localApiOpenAI: "OpenAI-compatible (/v1/chat/completions)",
+            localApiOllama: "Ollama native (/api/chat)",
+            ollamaNumCtx: "Context Window (num_ctx)",
+            ollamaNumCtxDesc: "Tokens of context Ollama loads the model with. Notes are cut to fit. Set to 0 to use the model's full context length, which needs more memory.",
+            ollamaNumPredict: "Max Response Tokens (num_predict)",
+            ollamaNumPredictDesc: "Most tokens the model may generate. 0 leaves Ollama's default.",
+            ollamaKeepAlive: "Keep Alive",
+            ollamaKeepAliveDesc: "How long Ollama keeps the model loaded after a request, such as 5m, 1h or -1 for always. Leave empty for Ollama's default.",
             modelName: "Model Name",
             modelNameDesc: "Enter the model name you want to use",
+            refreshModels: "Refresh the model list from the provider",
+            pickModel: "Choose a listed model",
+            modelListUpdated: "{count} models listed, updated {date}",
+            contextWindow: "{size} context",
             temperature: "Temperature (Override)",
             temperatureDesc: "Leave empty for Auto (use provider default). Set to 0 for more deterministic output.",
             temperaturePlaceholder: "Auto",
@@ -43,12 +57,23 @@ export const en: Translations = {
             modeGenerate: "Generate new tags",
             modeHybrid: "Hybrid mode (Generate + Predefined)",
             modeCustom: "Use custom prompt",
+            modeEmbedding: "Match predefined tags by embeddings",
             tagSource: "Tag Source",
             tagSourceDesc: "Choose where to get the predefined tags from",
             sourceFile: "From predefined tags file",
             sourceVault: "From all existing tags in vault",
             predefinedTagsFile: "Predefined tags file",
-            predefinedTagsFileDesc: "Path to a file containing predefined tags (one tag per line)",
+            predefinedTagsFileDesc: "Path to a file containing predefined tags (one tag per line). In embedding mode, a line can be written as \"tag: description\" to describe the tag.",
+            embeddingEndpoint: "Embeddings endpoint",
+            embeddingEndpointDesc: "OpenAI-compatible /v1/embeddings endpoint, or Ollama's /api/embed",
+            embeddingApiKey: "Embeddings API key",
+            embeddingApiKeyDesc: "Leave empty for local servers",
+            embeddingModel: "Embedding model",
+            embeddingModelDesc: "Model used to embed notes and tags, e.g. nomic-embed-text or text-embedding-3-small",
+            embeddingThreshold: "Similarity threshold",
+            embeddingThresholdDesc: "Lowest similarity a tag needs to be applied (0-1). Up to the maximum predefined tags are applied, most similar first.",
+            embeddingClearVectors: "Rebuild tag vectors",
+            embeddingClearVectorsDesc: "{count} tags have a stored vector. Tags are embedded again on next use; do this after switching to a server that returns different vectors for the same model.",
             fileExclusion: "File Exclusion",
             excludedFiles: "Excluded files and folders",
             excludedFilesDesc: "Files matching these patterns will be hidden in Search, Graph View, and Unlinked Mentions, less noticeable in Quick Switcher and link suggestions.",
@@ -84,6 +109,47 @@ export const en: Translations = {
             preserveExistingTagsDesc: "When enabled, AI-generated tags will be merged with existing tags in the note. When disabled, existing tags will be completely replaced by AI-generated tags.",
             requestTimeout: "Request Timeout (seconds)",
             requestTimeoutDesc: "Maximum time to wait for LLM response. Increase for slower models or large documents.",
+            streamResponses: "Stream Responses",
+            streamResponsesDesc: "Receive responses as they are generated and show tags as they arrive. Supported for OpenAI, Claude, Gemini, OpenAI-compatible and local services; others use regular requests.",
+            structuredOutput: "Structured Output",
+            structuredOutputDesc: "Ask OpenAI, Gemini, Claude and local services to answer in a fixed JSON format instead of parsing free text. Models without support fall back to text parsing automatically.",
+            confidenceThreshold: "Confidence Threshold",
+            confidenceThresholdDesc: "Ask the model for a confidence score per tag and hold back tags scored below this value. Set to 0 to turn scoring off.",
+            lowConfidenceAction: "Low-Confidence Tags",
+            lowConfidenceActionDesc: "What to do with tags below the confidence threshold",
+            lowConfidenceDrop: "Drop them",
+            lowConfidenceReview: "Hold them for review",
+            captureRationale: "Capture Tag Rationale",
+            captureRationaleDesc: "Ask the model for a one-line reason per tag. Reasons are stored in the plugin data, not in the note, and can be viewed with the \"Explain tags for current note\" command.",
+            longNoteStrategy: "Long Note Strategy",
+            longNoteStrategyDesc: "How to analyze notes longer than the content budget. Section by section tags the parts of the note and then merges the results, which uses one extra request per section.",
+            longNoteTruncate: "Opening only (truncate)",
+            longNoteChunk: "Section by section",
+            maxChunks: "Sections Per Long Note",
+            maxChunksDesc: "Most sections tagged when a long note is analyzed section by section. Notes with more sections are tagged from this many, spread over the note, and the rest is skipped.",
+            maxContentTokens: "Content Budget (tokens)",
+            maxContentTokensDesc: "Most tokens of a note sent in one request, counted approximately. The model's context window, less the prompt and its tag list, can lower it further. 0 fills the context window.",
+            concurrency: "Concurrent Requests ({provider})",
+            concurrencyDesc: "Number of notes analyzed at the same time when tagging folders or the vault. Saved separately for each provider. Notes are processed one at a time while review before applying is enabled.",
+            rateLimits: "Rate Limits ({provider})",
+            rateLimitsDesc: "Requests and tokens sent to this provider per minute during any tagging. Requests wait their turn instead of failing, and when the provider reports its limit is reached, every request pauses until it resets. Leave empty for no limit.",
+            requestsPerMinute: "Requests/min",
+            tokensPerMinute: "Tokens/min",
+            reviewBeforeApply: "Review Before Applying",
+            reviewBeforeApplyDesc: "Show AI suggestions in a review dialog before writing them. You can untick, edit or add tags. Folder and vault runs step through notes one by one.",
+            skipUnchangedNotes: "Skip Unchanged Notes",
+            skipUnchangedNotesDesc: "In folder and vault runs, skip notes whose content and tagging settings have not changed since they were last tagged. The force re-tag commands always analyze every note.",
+            dryRunReportFolder: "Dry Run Report Folder",
+            dryRunReportFolderDesc: "Folder where dry-run reports are saved. Reports list the proposed tags for each note without changing any note.",
+            autoTagSettings: "Auto Tagging",
+            autoTagEnabled: "Tag New Notes Automatically",
+            autoTagEnabledDesc: "Generate tags for newly created notes once they are long enough and have not changed for the quiet period. Excluded folders are skipped.",
+            autoTagOnEdit: "Also Tag Edited Notes",
+            autoTagOnEditDesc: "Re-run tagging on existing notes after they are edited and then left alone for the quiet period.",
+            autoTagQuietPeriod: "Quiet Period (seconds)",
+            autoTagQuietPeriodDesc: "How long a note must stay unchanged before it is tagged.",
+            autoTagMinLength: "Minimum Note Length",
+            autoTagMinLengthDesc: "Notes with fewer characters than this (excluding frontmatter) are not tagged automatically.",
         },
         support: {
             title: "Support",
@@ -123,7 +189,24 @@ export const en: Translations = {
         exportTagsJSON: "Export tags to JSON",
         importTags: "Import tags from file",
         applyTagTemplate: "Apply tag template",
-        deduplicateTags: "Find and merge similar tags"
+        deduplicateTags: "Find and merge similar tags",
+        undoLastTagOperation: "Undo last tag operation",
+        revertBatchRun: "Revert batch run",
+        showTagHistory: "Show tag history for current note",
+        explainTags: "Explain tags for current note",
+        dryRunForCurrentFolder: "Dry run: preview tags for current folder",
+        dryRunForVault: "Dry run: preview tags for vault",
+        applyDryRunReport: "Apply dry-run report",
+        resumeTaggingJob: "Resume tagging job",
+        retryFailedFiles: "Retry failed files",
+        forceRetagCurrentFolder: "Force re-tag current folder",
+        forceRetagVault: "Force re-tag vault",
+        cancelAnalysis: "Cancel current analysis",
+        switchProfile: "Switch AI profile: {name}",
+        generateTagsWithProfile: "Generate tags with profile...",
+        showTokenUsage: "Show token usage and costs",
+        showAuditLog: "Show request audit log",
+        clearResponseCache: "Clear AI response cache"
     },
 
     // Messages and notifications
@@ -133,6 +216,11 @@ export const en: Translations = {
         analyzing: "Analyzing...",
         failedToGenerate: "Failed to generate",
         operationCancelled: "Operation cancelled",
+        partialTags: "Analyzing... {tags}",
+        analysisCancelled: "Analysis cancelled",
+        noAnalysisRunning: "No analysis is running",
+        failover: "{from} is unavailable, using {to}",
+        rateLimitPause: "{provider} rate limit reached, pausing requests for {seconds}s",
         noMdFiles: "No Markdown files found",
         noParentFolder: "No parent folder found",
         buildingTagNetwork: "Building tag network...",
@@ -191,7 +279,11 @@ export const en: Translations = {
         flattenTagsForVaultConfirm: "Flatten hierarchical tags for all files in your vault? This may take a while.",
         flatteningTags: "Flattening tags...",
         tagsFlattenedSuccessfully: "Flattened tags in {count} files",
-        noHierarchicalTags: "No hierarchical tags found"
+        noHierarchicalTags: "No hierarchical tags found",
+        embeddingTags: "Embedding {count} predefined tags...",
+        embeddingVectorsCleared: "Tag vectors cleared",
+        modelsFetched: "Fetched {count} models",
+        modelsFetchFailed: "Failed to fetch models"
     },
 
     // Modal dialogs
@@ -337,6 +429,218 @@ export const en: Translations = {
     },
 
     // Tag Templates
+    usage: {
+        title: "Token Usage & Costs",
+        description: "Tokens sent and received by every LLM request. Costs are calculated from the price table in the settings.",
+        refresh: "Refresh",
+        requests: "Requests",
+        promptTokens: "Prompt tokens",
+        completionTokens: "Completion tokens",
+        totalCost: "Total cost",
+        cost: "Cost",
+        groupBy: "Group by",
+        groupDay: "Day",
+        groupRun: "Batch run",
+        groupFolder: "Folder",
+        singleNotes: "Single notes",
+        noUsage: "No requests recorded yet",
+        estimatedNote: "{count} of {total} requests have estimated token counts because the provider did not report them.",
+        unpricedNote: "* Leaves out {count} requests for models without a price. Add the models to the price table to include them.",
+        openFailed: "Failed to open the usage view",
+        settingsTitle: "Usage & Costs",
+        openView: "Open usage view",
+        openViewDesc: "Token usage and costs per day, batch run and folder",
+        clearData: "Clear usage data",
+        clearConfirm: "Delete all recorded token usage?",
+        cleared: "Usage data cleared",
+        cacheTitle: "Response Cache",
+        cacheEnabled: "Cache responses",
+        cacheEnabledDesc: "Answer a prompt sent to the same provider and model before from a cache instead of a new request, so re-running a note or reverting a setting costs nothing. Cached responses are stored in the plugin folder.",
+        cacheMaxSize: "Cache size (MB)",
+        cacheMaxSizeDesc: "The oldest responses are dropped when the cache grows beyond this size.",
+        cacheTtl: "Keep responses (days)",
+        cacheTtlDesc: "Responses older than this are requested again.",
+        clearCache: "Clear AI response cache",
+        clearCacheDesc: "Remove every cached response.",
+        cacheCleared: "{count} cached responses cleared",
+        pricesTitle: "Model Prices",
+        pricesDesc: "Prices in USD per million input and output tokens, matched by model name. Local models cost nothing unless they are listed.",
+        inputPrice: "Input",
+        outputPrice: "Output",
+        modelPlaceholder: "Model name",
+        addPrice: "Add model",
+        removePrice: "Remove",
+        duplicateModel: "This model already has a price",
+        invalidPrice: "Prices must be zero or more"
+    },
+
+    // Request Audit Log
+    auditLog: {
+        title: "Request Audit Log",
+        description: "Every request sent to an AI provider while the audit log is on. Prompts are recorded by length and SHA-256 hash only, and API keys are removed.",
+        refresh: "Refresh",
+        exportCsv: "Export CSV",
+        exported: "{count} entries exported",
+        searchPlaceholder: "Filter by note, model or tag",
+        allProviders: "All providers",
+        allStatuses: "All statuses",
+        statusSuccess: "Success",
+        statusError: "Error",
+        statusCancelled: "Cancelled",
+        time: "Time",
+        note: "Note",
+        provider: "Provider / model",
+        promptLength: "Prompt length",
+        status: "Status",
+        tags: "Tags",
+        noEntries: "No requests logged yet",
+        noMatches: "No requests match the filters",
+        truncated: "Showing the latest {count} of {total} matching requests. Export to CSV to see them all.",
+        openFailed: "Failed to open the audit log",
+        enabled: "Log requests",
+        enabledDesc: "Record the time, note, provider, endpoint, model, prompt length and hash, status and resulting tags of every request sent to an AI provider. Answers from the response cache are not requests and are not logged.",
+        path: "Log file",
+        pathDesc: "Vault path of the log file, one JSON entry per line. Leave empty to keep it in the plugin folder.",
+        view: "Audit log",
+        viewDesc: "Browse, filter and export the logged requests, or delete the log file.",
+        open: "Open audit log",
+        clear: "Clear audit log",
+        clearConfirm: "Delete every logged request?",
+        cleared: "{count} logged requests deleted"
+    },
+
+    profiles: {
+        title: "AI Profiles",
+        description: "Named sets of provider, endpoint, API key, model, temperature and timeout. Switch between them from the command palette.",
+        addProfile: "Add Profile",
+        editProfile: "Edit",
+        deleteProfile: "Delete",
+        switchProfile: "Switch",
+        profileName: "Profile Name",
+        profileNamePlaceholder: "e.g., Bulk runs",
+        save: "Save",
+        cancel: "Cancel",
+        noProfiles: "No profiles defined. New profiles start from the settings above.",
+        noProfilesNotice: "No AI profiles defined. Add one in the LLM settings.",
+        selectProfile: "Select a profile to generate tags with",
+        switched: "Switched to AI profile '{name}'",
+        notFound: "This AI profile no longer exists",
+        deleteConfirm: "Delete AI profile '{name}'?",
+        duplicateName: "A profile with this name already exists",
+        emptyName: "Profile name cannot be empty"
+    },
+
+    fallbackProviders: {
+        title: "Fallback Providers",
+        description: "Providers tried in order when the one before them cannot be reached, times out, is rate limited or returns a server error.",
+        addProvider: "Add Provider",
+        editProvider: "Edit",
+        deleteProvider: "Delete",
+        moveUp: "Up",
+        moveDown: "Down",
+        endpointDesc: "Required for local services. Cloud providers use their default endpoint when empty.",
+        defaultEndpoint: "Default endpoint",
+        save: "Save",
+        cancel: "Cancel",
+        noProviders: "No fallback providers. Requests only go to the provider configured above.",
+        deleteConfirm: "Remove fallback provider '{name}'?",
+        emptyModel: "Model name cannot be empty",
+        emptyEndpoint: "Local services need an endpoint"
+    },
+
+    customProviders: {
+        title: "Custom Providers",
+        description: "Define providers by their request and response format. They appear in the cloud provider lists next to the built-in ones.",
+        addProvider: "Add Provider",
+        editProvider: "Edit",
+        deleteProvider: "Delete",
+        import: "Import JSON",
+        importTitle: "Import Custom Providers",
+        importDesc: "Paste one provider definition or an array of them, as copied with \"Copy JSON\". Providers with the id of an existing one replace it.",
+        copyJson: "Copy JSON",
+        copied: "Provider definition copied",
+        name: "Name",
+        endpointDesc: "URL requests are sent to; {{model}} is replaced with the model name",
+        authHeader: "Auth header",
+        authHeaderDesc: "Header carrying the API key, and the text before the key. Leave the header empty to send no key.",
+        headers: "Extra headers",
+        headersDesc: "JSON object of headers sent with every request",
+        body: "Body template",
+        bodyDesc: "JSON request body. Strings may contain {{model}}, {{prompt}} and {{system}}; \"{{messages}}\" becomes the chat messages and \"{{temperature}}\" the temperature override.",
+        responsePath: "Response path",
+        responsePathDesc: "Dot-separated path to the completion text in the response",
+        errorPath: "Error path",
+        errorPathDesc: "Dot-separated path to the error message in an error response",
+        noProviders: "No custom providers defined",
+        deleteConfirm: "Delete custom provider '{name}'? Settings that use it stop working until another provider is chosen.",
+        invalidJson: "Invalid JSON: {error}"
+    },
+
+    // Model Context Windows
+    contextWindows: {
+        title: "Model Context Windows",
+        description: "Context windows in tokens, used to size the note content of each request so that prompts always fit. An entry applies to the model with its name, or to every model whose name starts with it; the longest match wins. Models that are not listed use the size from the provider's model list, or 8192.",
+        modelPlaceholder: "Model name or prefix",
+        tokens: "Tokens",
+        add: "Add model",
+        remove: "Remove",
+        duplicateModel: "This model already has a context window",
+        invalidTokens: "Context windows must be a whole number above zero"
+    },
+
+    diagnostics: {
+        title: "Connection Diagnostics",
+        description: "Check the provider step by step: URL, host, endpoint, credentials, model and a real tagging request",
+        run: "Run Diagnostics",
+        runAgain: "Run Again",
+        copyReport: "Copy Report",
+        copied: "Diagnostics report copied",
+        excerpts: "Request and response",
+        request: "Request",
+        response: "Response",
+        steps: {
+            url: "URL is valid",
+            host: "Host is reachable (DNS and TCP)",
+            endpoint: "Endpoint path responds",
+            auth: "Credentials are accepted",
+            model: "Model exists",
+            tagging: "Tagging prompt returns tags"
+        },
+        fixes: {
+            config: "Complete the provider settings above, such as the API key and model.",
+            invalidUrl: "Enter the full endpoint URL, starting with http:// or https://.",
+            dns: "The host name could not be resolved. Check the endpoint for typos and your internet connection.",
+            refused: "Nothing is listening at this address. Start the server, or check the host and port.",
+            tls: "The secure connection failed. Check the certificate, or use http:// for a local server without TLS.",
+            timeout: "The server did not answer in time. Check your network, proxy or firewall, or whether the server is overloaded.",
+            unreachable: "The server could not be reached. Check the endpoint, your network and any proxy or firewall.",
+            pathNotFound: "The server has no such path. Check the endpoint path, such as /v1/chat/completions.",
+            authRejected: "The server rejected the credentials. Check the API key and that it has access to this model.",
+            modelMissing: "The server does not know this model. Check the model name, or pick one from the model list.",
+            serverError: "The server answered with an error. See the response for details.",
+            noTags: "The model answered, but no tags could be read from it. Try another model, or turn on structured output."
+        }
+    },
+
+    folderRules: {
+        title: "Folder Rules",
+        description: "Tag notes in specific folders with their own settings. Notes use the rule of the most specific folder that contains them; settings left empty follow the global settings.",
+        addRule: "Add Rule",
+        editRule: "Edit Rule",
+        deleteRule: "Delete",
+        deleteConfirm: "Delete the rule for '{folder}'?",
+        noRules: "No folder rules. All notes use the global settings.",
+        noOverrides: "No overrides",
+        folder: "Folder",
+        folderDesc: "Vault path of the folder; the rule also applies to its subfolders",
+        useGlobal: "Use global setting",
+        predefinedTagsFileDesc: "Tags file for notes in this folder; empty uses the global tag source",
+        profile: "AI profile",
+        profileDesc: "Provider used for notes in this folder",
+        activeProvider: "Active provider",
+        emptyFolder: "Enter a folder for the rule"
+    },
+
     tagTemplates: {
         title: "Tag Templates",
         description: "Define reusable tag sets for quick application to notes.",
@@ -360,6 +664,83 @@ export const en: Translations = {
         emptyTags: "Please add at least one tag"
     },
 
+    // Tag Review
+    tagReview: {
+        title: "Review Tag Suggestions",
+        currentTags: "Current tags",
+        noCurrentTags: "This note has no tags yet",
+        matchedTags: "Matched existing tags",
+        suggestedTags: "New suggestions",
+        noSuggestions: "No suggestions",
+        addTag: "Add",
+        addTagPlaceholder: "Add a tag...",
+        apply: "Apply",
+        skip: "Skip",
+        stop: "Stop",
+        skipped: "Skipped {file}",
+        stopped: "Review stopped. Tagged {count} notes.",
+        noTagsSelected: "No tags selected",
+        lowConfidenceTags: "Low confidence (held back)"
+    },
+
+    // Tagging Queue
+    taggingQueue: {
+        resumePrompt: "The tagging job \"{label}\" was interrupted with {count} of {total} notes left. Resume now?",
+        replaceUnfinished: "The tagging job \"{label}\" still has {count} notes left. Starting a new run discards it. Continue?",
+        alreadyRunning: "A tagging job is already running",
+        noJob: "No unfinished tagging job to resume",
+        noFailed: "The last tagging job has no failed files",
+        requeued: "Re-queued {count} failed files",
+        finished: "Tagged {done} of {total} notes. {failed} failed, {skipped} skipped.",
+        failedFiles: "Failed notes:\n{files}",
+        skippedUnchanged: "Skipped {count} notes unchanged since they were last tagged. Use a force re-tag command to analyze them again.",
+        cancelled: "Tagging cancelled. Tagged {count} notes; the rest can be resumed later.",
+        failovers: "Switched to a fallback provider {count} times:\n{routes}"
+    },
+
+    // Dry Run
+    dryRun: {
+        confirm: "Analyze {count} notes without changing them? The proposed tags will be saved to a report note.",
+        analyzing: "Dry run: analyzing {count} notes...",
+        reportCreated: "Dry run finished: {count} notes would change. Report saved to {path}",
+        failed: "Dry run failed",
+        noReports: "No dry-run reports found",
+        selectReport: "Select a dry-run report to apply...",
+        nothingToApply: "This report has no changes to apply",
+        applyConfirm: "Write the proposed tags to {count} notes?",
+        applied: "Applied {applied} notes. Skipped {stale} notes changed since the report. {failed} failed."
+    },
+
+    // Tag Journal
+    tagJournal: {
+        historyTitle: "Tag History",
+        noHistory: "No recorded tag changes for this note",
+        revert: "Revert",
+        revertedBadge: "Reverted",
+        nothingToUndo: "Nothing to undo",
+        noBatches: "No batch runs to revert",
+        selectBatch: "Select a batch run to revert...",
+        notesCount: "{count} notes",
+        revertBatchConfirm: "Revert {count} tag changes from \"{label}\"?",
+        reverted: "Reverted tags in {count} notes.",
+        revertConflicts: "{count} notes were changed afterwards and were left as is.",
+        operationAiTag: "AI tagging",
+        operationUpdate: "Tag update",
+        operationWrite: "Tag write",
+        operationClear: "Clear tags",
+        operationRename: "Rename tag",
+        operationFlatten: "Flatten tags",
+        operationImport: "Import tags",
+        operationRevert: "Revert"
+    },
+
+    // Tag Rationale
+    tagRationale: {
+        title: "Why These Tags?",
+        noTags: "This note has no tags",
+        noRationale: "No rationale recorded"
+    },
+
     // Tag Deduplication
     tagDeduplication: {
         title: "Smart Tag Deduplication",
@@ -9,8 +9,22 @@ export interface Translations {
             cloudProviderDesc: string;
             localEndpoint: string;
             localEndpointDesc: string;
+            localApi: string;
+            localApiDesc: string;
+            localApiOpenAI: string;
+            localApiOllama: string;
+            ollamaNumCtx: string;
+            ollamaNumCtxDesc: string;
+            ollamaNumPredict: string;
+            ollamaNumPredictDesc: string;
+            ollamaKeepAlive: string;
+            ollamaKeepAliveDesc: string;
             modelName: string;
             modelNameDesc: string;
+            refreshModels: string;
+            pickModel: string;
+            modelListUpdated: string;
+            contextWindow: string;
             temperature: string;
             temperatureDesc: string;
             temperaturePlaceholder: string;
@@ -41,12 +55,23 @@ export interface Translations {
             modeGenerate: string;
             modeHybrid: string;
             modeCustom: string;
+            modeEmbedding: string;
             tagSource: string;
             tagSourceDesc: string;
             sourceFile: string;
             sourceVault: string;
             predefinedTagsFile: string;
             predefinedTagsFileDesc: string;
+            embeddingEndpoint: string;
+            embeddingEndpointDesc: string;
+            embeddingApiKey: string;
+            embeddingApiKeyDesc: string;
+            embeddingModel: string;
+            embeddingModelDesc: string;
+            embeddingThreshold: string;
+            embeddingThresholdDesc: string;
+            embeddingClearVectors: string;
+            embeddingClearVectorsDesc: string;
             fileExclusion: string;
             excludedFiles: string;
             excludedFilesDesc: string;
@@ -82,6 +107,47 @@ export interface Translations {
             preserveExistingTagsDesc: string;
             requestTimeout: string;
             requestTimeoutDesc: string;
+            streamResponses: string;
+            streamResponsesDesc: string;
+            structuredOutput: string;
+            structuredOutputDesc: string;
+            confidenceThreshold: string;
+            confidenceThresholdDesc: string;
+            lowConfidenceAction: string;
+            lowConfidenceActionDesc: string;
+            lowConfidenceDrop: string;
+            lowConfidenceReview: string;
+            captureRationale: string;
+            captureRationaleDesc: string;
+            longNoteStrategy: string;
+            longNoteStrategyDesc: string;
+            longNoteTruncate: string;
+            longNoteChunk: string;
+            maxChunks: string;
+            maxChunksDesc: string;
+            maxContentTokens: string;
+            maxContentTokensDesc: string;
+            concurrency: string;
+            concurrencyDesc: string;
+            rateLimits: string;
+            rateLimitsDesc: string;
+            requestsPerMinute: string;
+            tokensPerMinute: string;
+            reviewBeforeApply: string;
+            reviewBeforeApplyDesc: string;
+            skipUnchangedNotes: string;
+            skipUnchangedNotesDesc: string;
+            dryRunReportFolder: string;
+            dryRunReportFolderDesc: string;
+            autoTagSettings: string;
+            autoTagEnabled: string;
+            autoTagEnabledDesc: string;
+            autoTagOnEdit: string;
+            autoTagOnEditDesc: string;
+            autoTagQuietPeriod: string;
+            autoTagQuietPeriodDesc: string;
+            autoTagMinLength: string;
+            autoTagMinLengthDesc: string;
         };
         support: {
             title: string;
@@ -122,6 +188,23 @@ export interface Translations {
         importTags: string;
         applyTagTemplate: string;
         deduplicateTags: string;
+        undoLastTagOperation: string;
+        revertBatchRun: string;
+        showTagHistory: string;
+        explainTags: string;
+        dryRunForCurrentFolder: string;
+        dryRunForVault: string;
+        applyDryRunReport: string;
+        resumeTaggingJob: string;
+        retryFailedFiles: string;
+        forceRetagCurrentFolder: string;
+        forceRetagVault: string;
+        cancelAnalysis: string;
+        switchProfile: string;
+        generateTagsWithProfile: string;
+        showTokenUsage: string;
+        showAuditLog: string;
+        clearResponseCache: string;
     };
 
     // Messages and notifications
@@ -131,6 +214,11 @@ export interface Translations {
         analyzing: string;
         failedToGenerate: string;
         operationCancelled: string;
+        partialTags: string;
+        analysisCancelled: string;
+        noAnalysisRunning: string;
+        failover: string;
+        rateLimitPause: string;
         noMdFiles: string;
         noParentFolder: string;
         buildingTagNetwork: string;
@@ -190,6 +278,10 @@ export interface Translations {
         flatteningTags: string;
         tagsFlattenedSuccessfully: string;
         noHierarchicalTags: string;
+        embeddingTags: string;
+        embeddingVectorsCleared: string;
+        modelsFetched: string;
+        modelsFetchFailed: string;
     };
 
     // Modal dialogs
@@ -298,6 +390,218 @@ export interface Translations {
     };
 
     // Tag Templates
+    usage: {
+        title: string;
+        description: string;
+        refresh: string;
+        requests: string;
+        promptTokens: string;
+        completionTokens: string;
+        totalCost: string;
+        cost: string;
+        groupBy: string;
+        groupDay: string;
+        groupRun: string;
+        groupFolder: string;
+        singleNotes: string;
+        noUsage: string;
+        estimatedNote: string;
+        unpricedNote: string;
+        openFailed: string;
+        settingsTitle: string;
+        openView: string;
+        openViewDesc: string;
+        clearData: string;
+        clearConfirm: string;
+        cleared: string;
+        cacheTitle: string;
+        cacheEnabled: string;
+        cacheEnabledDesc: string;
+        cacheMaxSize: string;
+        cacheMaxSizeDesc: string;
+        cacheTtl: string;
+        cacheTtlDesc: string;
+        clearCache: string;
+        clearCacheDesc: string;
+        cacheCleared: string;
+        pricesTitle: string;
+        pricesDesc: string;
+        inputPrice: string;
+        outputPrice: string;
+        modelPlaceholder: string;
+        addPrice: string;
+        removePrice: string;
+        duplicateModel: string;
+        invalidPrice: string;
+    };
+
+    // Request Audit Log
+    auditLog: {
+        title: string;
+        description: string;
+        refresh: string;
+        exportCsv: string;
+        exported: string;
+        searchPlaceholder: string;
+        allProviders: string;
+        allStatuses: string;
+        statusSuccess: string;
+        statusError: string;
+        statusCancelled: string;
+        time: string;
+        note: string;
+        provider: string;
+        promptLength: string;
+        status: string;
+        tags: string;
+        noEntries: string;
+        noMatches: string;
+        truncated: string;
+        openFailed: string;
+        enabled: string;
+        enabledDesc: string;
+        path: string;
+        pathDesc: string;
+        view: string;
+        viewDesc: string;
+        open: string;
+        clear: string;
+        clearConfirm: string;
+        cleared: string;
+    };
+
+    profiles: {
+        title: string;
+        description: string;
+        addProfile: string;
+        editProfile: string;
+        deleteProfile: string;
+        switchProfile: string;
+        profileName: string;
+        profileNamePlaceholder: string;
+        save: string;
+        cancel: string;
+        noProfiles: string;
+        noProfilesNotice: string;
+        selectProfile: string;
+        switched: string;
+        notFound: string;
+        deleteConfirm: string;
+        duplicateName: string;
+        emptyName: string;
+    };
+
+    fallbackProviders: {
+        title: string;
+        description: string;
+        addProvider: string;
+        editProvider: string;
+        deleteProvider: string;
+        moveUp: string;
+        moveDown: string;
+        endpointDesc: string;
+        defaultEndpoint: string;
+        save: string;
+        cancel: string;
+        noProviders: string;
+        deleteConfirm: string;
+        emptyModel: string;
+        emptyEndpoint: string;
+    };
+
+    customProviders: {
+        title: string;
+        description: string;
+        addProvider: string;
+        editProvider: string;
+        deleteProvider: string;
+        import: string;
+        importTitle: string;
+        importDesc: string;
+        copyJson: string;
+        copied: string;
+        name: string;
+        endpointDesc: string;
+        authHeader: string;
+        authHeaderDesc: string;
+        headers: string;
+        headersDesc: string;
+        body: string;
+        bodyDesc: string;
+        responsePath: string;
+        responsePathDesc: string;
+        errorPath: string;
+        errorPathDesc: string;
+        noProviders: string;
+        deleteConfirm: string;
+        invalidJson: string;
+    };
+
+    // Model Context Windows
+    contextWindows: {
+        title: string;
+        description: string;
+        modelPlaceholder: string;
+        tokens: string;
+        add: string;
+        remove: string;
+        duplicateModel: string;
+        invalidTokens: string;
+    };
+
+    diagnostics: {
+        title: string;
+        description: string;
+        run: string;
+        runAgain: string;
+        copyReport: string;
+        copied: string;
+        excerpts: string;
+        request: string;
+        response: string;
+        steps: {
+            url: string;
+            host: string;
+            endpoint: string;
+            auth: string;
+            model: string;
+            tagging: string;
+        };
+        fixes: {
+            config: string;
+            invalidUrl: string;
+            dns: string;
+            refused: string;
+            tls: string;
+            timeout: string;
+            unreachable: string;
+            pathNotFound: string;
+            authRejected: string;
+            modelMissing: string;
+            serverError: string;
+            noTags: string;
+        };
+    };
+
+    folderRules: {
+        title: string;
+        description: string;
+        addRule: string;
+        editRule: string;
+        deleteRule: string;
+        deleteConfirm: string;
+        noRules: string;
+        noOverrides: string;
+        folder: string;
+        folderDesc: string;
+        useGlobal: string;
+        predefinedTagsFileDesc: string;
+        profile: string;
+        profileDesc: string;
+        activeProvider: string;
+        emptyFolder: string;
+    };
+
     tagTemplates: {
         title: string;
         description: string;
@@ -321,6 +625,83 @@ export interface Translations {
         emptyTags: string;
     };
 
+    // Tag Review
+    tagReview: {
+        title: string;
+        currentTags: string;
+        noCurrentTags: string;
+        matchedTags: string;
+        suggestedTags: string;
+        noSuggestions: string;
+        addTag: string;
+        addTagPlaceholder: string;
+        apply: string;
+        skip: string;
+        stop: string;
+        skipped: string;
+        stopped: string;
+        noTagsSelected: string;
+        lowConfidenceTags: string;
+    };
+
+    // Tagging Queue
+    taggingQueue: {
+        resumePrompt: string;
+        replaceUnfinished: string;
+        alreadyRunning: string;
+        noJob: string;
+        noFailed: string;
+        requeued: string;
+        finished: string;
+        failedFiles: string;
+        skippedUnchanged: string;
+        cancelled: string;
+        failovers: string;
+    };
+
+    // Dry Run
+    dryRun: {
+        confirm: string;
+        analyzing: string;
+        reportCreated: string;
+        failed: string;
+        noReports: string;
+        selectReport: string;
+        nothingToApply: string;
+        applyConfirm: string;
+        applied: string;
+    };
+
+    // Tag Journal
+    tagJournal: {
+        historyTitle: string;
+        noHistory: string;
+        revert: string;
+        revertedBadge: string;
+        nothingToUndo: string;
+        noBatches: string;
+        selectBatch: string;
+        notesCount: string;
+        revertBatchConfirm: string;
+        reverted: string;
+        revertConflicts: string;
+        operationAiTag: string;
+        operationUpdate: string;
+        operationWrite: string;
+        operationClear: string;
+        operationRename: string;
+        operationFlatten: string;
+        operationImport: string;
+        operationRevert: string;
+    };
+
+    // Tag Rationale
+    tagRationale: {
+        title: string;
+        noTags: string;
+        noRationale: string;
+    };
+
     // Tag Deduplication
     tagDeduplication: {
         title: string;
@@ -11,8 +11,22 @@ export const zhCN: Translations = {
             cloudProviderDesc: "选择您偏好的云服务提供商",
             localEndpoint: "本地端点",
             localEndpointDesc: "配置本地 LLM 服务的端点 URL",
+            localApi: "本地 API",
+            localApiDesc: "OpenAI 兼容模式适用于大多数本地服务。Ollama 原生模式使用 Ollama 自己的 API，支持其模型选项，并读取模型的上下文长度来决定长笔记的截取长度。",
+            localApiOpenAI: "OpenAI 兼容（/v1/chat/completions）",
+            localApiOllama: "Ollama 原生（/api/chat）",
+            ollamaNumCtx: "上下文窗口（num_ctx）",
+            ollamaNumCtxDesc: "Ollama 加载模型时使用的上下文 token 数。笔记会被截取以适应该长度。设为 0 使用模型的完整上下文长度，但需要更多内存。",
+            ollamaNumPredict: "最大回复 token 数（num_predict）",
+            ollamaNumPredictDesc: "模型最多生成的 token 数。0 表示使用 Ollama 默认值。",
+            ollamaKeepAlive: "保持加载",
+            ollamaKeepAliveDesc: "请求后 Ollama 保持模型加载的时长，例如 5m、1h，或 -1 表示一直保持。留空使用 Ollama 默认值。",
             modelName: "模型名称",
             modelNameDesc: "输入您要使用的模型名称",
+            refreshModels: "从提供商刷新模型列表",
+            pickModel: "选择列出的模型",
+            modelListUpdated: "已列出 {count} 个模型，更新于 {date}",
+            contextWindow: "{size} 上下文",
             temperature: "温度（覆盖）",
             temperatureDesc: "留空为自动（使用各 Provider 默认值）。设置为 0 可尽量获得更可重复的输出。",
             temperaturePlaceholder: "自动",
@@ -43,12 +57,23 @@ export const zhCN: Translations = {
             modeGenerate: "生成新标签",
             modeHybrid: "混合模式（生成 + 预定义）",
             modeCustom: "使用自定义提示",
+            modeEmbedding: "通过向量嵌入匹配预定义标签",
             tagSource: "标签来源",
             tagSourceDesc: "选择从哪里获取预定义标签",
             sourceFile: "从预定义标签文件",
             sourceVault: "从库中所有现有标签",
             predefinedTagsFile: "预定义标签文件",
-            predefinedTagsFileDesc: "包含预定义标签的文件路径（每行一个标签）",
+            predefinedTagsFileDesc: "包含预定义标签的文件路径（每行一个标签）。在嵌入模式下，可以写成\"标签: 描述\"来描述标签。",
+            embeddingEndpoint: "嵌入端点",
+            embeddingEndpointDesc: "兼容 OpenAI 的 /v1/embeddings 端点，或 Ollama 的 /api/embed",
+            embeddingApiKey: "嵌入 API 密钥",
+            embeddingApiKeyDesc: "本地服务器可留空",
+            embeddingModel: "嵌入模型",
+            embeddingModelDesc: "用于嵌入笔记和标签的模型，例如 nomic-embed-text 或 text-embedding-3-small",
+            embeddingThreshold: "相似度阈值",
+            embeddingThresholdDesc: "应用标签所需的最低相似度（0-1）。按相似度从高到低最多应用最大预定义标签数个标签。",
+            embeddingClearVectors: "重建标签向量",
+            embeddingClearVectorsDesc: "{count} 个标签已存储向量。下次使用时会重新嵌入标签；切换到对同一模型返回不同向量的服务器后请执行此操作。",
             fileExclusion: "文件排除",
             excludedFiles: "排除的文件和文件夹",
             excludedFilesDesc: "匹配这些模式的文件将在搜索、关系图谱和未链接提及中隐藏，在快速切换器和链接建议中不那么显眼。",
@@ -84,6 +109,47 @@ export const zhCN: Translations = {
             preserveExistingTagsDesc: "启用时，AI 生成的标签将与笔记中的现有标签合并。禁用时，现有标签将被 AI 生成的标签完全替换。",
             requestTimeout: "请求超时（秒）",
             requestTimeoutDesc: "等待 LLM 响应的最大时间。对于较慢的模型或大型文档，可增加此值。",
+            streamResponses: "流式响应",
+            streamResponsesDesc: "在生成时接收响应，并在标签到达时显示。支持 OpenAI、Claude、Gemini、OpenAI 兼容服务和本地服务；其他服务使用普通请求。",
+            structuredOutput: "结构化输出",
+            structuredOutputDesc: "要求 OpenAI、Gemini、Claude 和本地服务以固定的 JSON 格式回复，而不是解析自由文本。不支持的模型会自动回退到文本解析。",
+            confidenceThreshold: "置信度阈值",
+            confidenceThresholdDesc: "要求模型为每个标签给出置信度，并保留低于此值的标签不写入。设为 0 则关闭评分。",
+            lowConfidenceAction: "低置信度标签",
+            lowConfidenceActionDesc: "如何处理低于置信度阈值的标签",
+            lowConfidenceDrop: "丢弃",
+            lowConfidenceReview: "保留以供审阅",
+            captureRationale: "记录标签理由",
+            captureRationaleDesc: "要求模型为每个标签给出一句理由。理由保存在插件数据中而不是笔记里，可通过“解释当前笔记的标签”命令查看。",
+            longNoteStrategy: "长笔记策略",
+            longNoteStrategyDesc: "如何分析超出内容预算的笔记。逐段分析会为笔记的各个部分生成标签，然后合并结果，每个部分需要额外一次请求。",
+            longNoteTruncate: "仅开头（截断）",
+            longNoteChunk: "逐段分析",
+            maxChunks: "长笔记分析段数",
+            maxChunksDesc: "逐段分析长笔记时最多分析的段数。段数更多的笔记只分析均匀分布在笔记中的这些段，其余部分会被跳过。",
+            maxContentTokens: "内容预算（Token）",
+            maxContentTokensDesc: "单次请求中发送的笔记内容的最大 Token 数（近似计算）。模型的上下文窗口减去提示词及其标签列表后，可能会进一步降低该值。0 表示填满上下文窗口。",
+            concurrency: "并发请求数（{provider}）",
+            concurrencyDesc: "为文件夹或整个库添加标签时同时分析的笔记数量。每个服务商单独保存。启用应用前审阅时，笔记将逐个处理。",
+            rateLimits: "速率限制（{provider}）",
+            rateLimitsDesc: "每分钟发送给此服务商的请求数和 token 数。请求会排队等待而不是失败；当服务商报告已达到限制时，所有请求都会暂停直到限制重置。留空表示不限制。",
+            requestsPerMinute: "请求数/分钟",
+            tokensPerMinute: "Token 数/分钟",
+            reviewBeforeApply: "应用前审阅",
+            reviewBeforeApplyDesc: "写入前在审阅对话框中显示 AI 建议的标签，可取消勾选、编辑或添加标签。文件夹和整个库的批量处理将逐个笔记审阅。",
+            skipUnchangedNotes: "跳过未更改的笔记",
+            skipUnchangedNotesDesc: "在文件夹和整个库的批量处理中，跳过自上次添加标签后内容和标签设置都未更改的笔记。强制重新添加标签命令始终分析所有笔记。",
+            dryRunReportFolder: "试运行报告文件夹",
+            dryRunReportFolderDesc: "保存试运行报告的文件夹。报告列出每个笔记的建议标签，不会修改任何笔记。",
+            autoTagSettings: "自动标签",
+            autoTagEnabled: "自动为新笔记添加标签",
+            autoTagEnabledDesc: "新建笔记内容足够长且在静默期内未再修改后，自动生成标签。排除的文件夹将被跳过。",
+            autoTagOnEdit: "同时为编辑过的笔记添加标签",
+            autoTagOnEditDesc: "现有笔记被编辑并在静默期内未再修改后，重新生成标签。",
+            autoTagQuietPeriod: "静默期（秒）",
+            autoTagQuietPeriodDesc: "笔记需要保持多久未修改才会添加标签。",
+            autoTagMinLength: "最小笔记长度",
+            autoTagMinLengthDesc: "字符数（不含 frontmatter）少于此值的笔记不会自动添加标签。",
         },
         support: {
             title: "支持",
@@ -123,7 +189,24 @@ export const zhCN: Translations = {
         exportTagsJSON: "导出标签为 JSON",
         importTags: "从文件导入标签",
         applyTagTemplate: "应用标签模板",
-        deduplicateTags: "查找并合并相似标签"
+        deduplicateTags: "查找并合并相似标签",
+        undoLastTagOperation: "撤销上一次标签操作",
+        revertBatchRun: "回滚批量操作",
+        showTagHistory: "显示当前笔记的标签历史",
+        explainTags: "解释当前笔记的标签",
+        dryRunForCurrentFolder: "试运行：预览当前文件夹的标签",
+        dryRunForVault: "试运行：预览整个库的标签",
+        applyDryRunReport: "应用试运行报告",
+        resumeTaggingJob: "继续标签任务",
+        retryFailedFiles: "重试失败的文件",
+        forceRetagCurrentFolder: "强制为当前文件夹重新添加标签",
+        forceRetagVault: "强制为整个库重新添加标签",
+        cancelAnalysis: "取消当前分析",
+        switchProfile: "切换 AI 配置：{name}",
+        generateTagsWithProfile: "使用配置生成标签...",
+        showTokenUsage: "显示 Token 用量和费用",
+        showAuditLog: "显示请求审计日志",
+        clearResponseCache: "清除 AI 响应缓存"
     },
 
     // 消息和通知
@@ -133,6 +216,11 @@ export const zhCN: Translations = {
         analyzing: "分析中...",
         failedToGenerate: "生成失败",
         operationCancelled: "操作已取消",
+        partialTags: "分析中... {tags}",
+        analysisCancelled: "分析已取消",
+        noAnalysisRunning: "当前没有正在进行的分析",
+        failover: "{from} 不可用，改用 {to}",
+        rateLimitPause: "{provider} 已达到速率限制，暂停请求 {seconds} 秒",
         noMdFiles: "没有找到 Markdown 文件",
         noParentFolder: "找不到父文件夹",
         buildingTagNetwork: "构建标签网络...",
@@ -191,7 +279,11 @@ export const zhCN: Translations = {
         flattenTagsForVaultConfirm: "要展开整个库中所有文件的层级标签吗？这可能需要一些时间。",
         flatteningTags: "正在展开标签...",
         tagsFlattenedSuccessfully: "已展开 {count} 个文件中的标签",
-        noHierarchicalTags: "未找到层级标签"
+        noHierarchicalTags: "未找到层级标签",
+        embeddingTags: "正在嵌入 {count} 个预定义标签...",
+        embeddingVectorsCleared: "标签向量已清除",
+        modelsFetched: "已获取 {count} 个模型",
+        modelsFetchFailed: "获取模型失败"
     },
 
     // 模态对话框
@@ -337,6 +429,218 @@ export const zhCN: Translations = {
     },
 
     // 标签模板
+    usage: {
+        title: "Token 用量和费用",
+        description: "每个 LLM 请求发送和接收的 Token 数。费用根据设置中的价格表计算。",
+        refresh: "刷新",
+        requests: "请求数",
+        promptTokens: "输入 Token",
+        completionTokens: "输出 Token",
+        totalCost: "总费用",
+        cost: "费用",
+        groupBy: "分组方式",
+        groupDay: "日期",
+        groupRun: "批量任务",
+        groupFolder: "文件夹",
+        singleNotes: "单个笔记",
+        noUsage: "尚无请求记录",
+        estimatedNote: "{total} 个请求中有 {count} 个的 Token 数为估算值，因为服务商未返回用量。",
+        unpricedNote: "* 未包含 {count} 个没有价格的模型请求。将这些模型添加到价格表即可计入。",
+        openFailed: "无法打开用量视图",
+        settingsTitle: "用量和费用",
+        openView: "打开用量视图",
+        openViewDesc: "按日期、批量任务和文件夹统计的 Token 用量和费用",
+        clearData: "清除用量数据",
+        clearConfirm: "删除所有已记录的 Token 用量？",
+        cleared: "用量数据已清除",
+        cacheTitle: "响应缓存",
+        cacheEnabled: "缓存响应",
+        cacheEnabledDesc: "曾经发送给同一服务商和模型的提示词将直接从缓存返回结果，不再发送新请求，因此重新分析笔记或恢复设置不会产生费用。缓存保存在插件文件夹中。",
+        cacheMaxSize: "缓存大小（MB）",
+        cacheMaxSizeDesc: "缓存超过此大小时，将删除最早的响应。",
+        cacheTtl: "保留响应（天）",
+        cacheTtlDesc: "超过此时间的响应将重新请求。",
+        clearCache: "清除 AI 响应缓存",
+        clearCacheDesc: "删除所有缓存的响应。",
+        cacheCleared: "已清除 {count} 条缓存响应",
+        pricesTitle: "模型价格",
+        pricesDesc: "每百万输入和输出 Token 的价格（美元），按模型名称匹配。本地模型除非列出，否则不计费用。",
+        inputPrice: "输入",
+        outputPrice: "输出",
+        modelPlaceholder: "模型名称",
+        addPrice: "添加模型",
+        removePrice: "删除",
+        duplicateModel: "此模型已有价格",
+        invalidPrice: "价格不能为负数"
+    },
+
+    // Request Audit Log
+    auditLog: {
+        title: "请求审计日志",
+        description: "审计日志开启期间发送给 AI 服务商的每个请求。提示词只记录长度和 SHA-256 哈希，API 密钥已被移除。",
+        refresh: "刷新",
+        exportCsv: "导出 CSV",
+        exported: "已导出 {count} 条记录",
+        searchPlaceholder: "按笔记、模型或标签筛选",
+        allProviders: "所有服务商",
+        allStatuses: "所有状态",
+        statusSuccess: "成功",
+        statusError: "错误",
+        statusCancelled: "已取消",
+        time: "时间",
+        note: "笔记",
+        provider: "服务商 / 模型",
+        promptLength: "提示词长度",
+        status: "状态",
+        tags: "标签",
+        noEntries: "尚未记录任何请求",
+        noMatches: "没有符合筛选条件的请求",
+        truncated: "显示 {total} 个匹配请求中最新的 {count} 个。导出为 CSV 可查看全部。",
+        openFailed: "无法打开审计日志",
+        enabled: "记录请求",
+        enabledDesc: "记录发送给 AI 服务商的每个请求的时间、笔记、服务商、端点、模型、提示词长度和哈希、状态以及得到的标签。来自响应缓存的答复不是请求，不会被记录。",
+        path: "日志文件",
+        pathDesc: "日志文件在仓库中的路径，每行一条 JSON 记录。留空则保存在插件文件夹中。",
+        view: "审计日志",
+        viewDesc: "浏览、筛选和导出已记录的请求，或删除日志文件。",
+        open: "打开审计日志",
+        clear: "清除审计日志",
+        clearConfirm: "删除所有已记录的请求？",
+        cleared: "已删除 {count} 条请求记录"
+    },
+
+    profiles: {
+        title: "AI 配置",
+        description: "命名的服务商、端点、API 密钥、模型、温度和超时组合。可从命令面板切换。",
+        addProfile: "添加配置",
+        editProfile: "编辑",
+        deleteProfile: "删除",
+        switchProfile: "切换",
+        profileName: "配置名称",
+        profileNamePlaceholder: "例如：批量处理",
+        save: "保存",
+        cancel: "取消",
+        noProfiles: "尚未定义配置。新配置以上面的设置为起点。",
+        noProfilesNotice: "尚未定义 AI 配置。请在 LLM 设置中添加。",
+        selectProfile: "选择用于生成标签的配置",
+        switched: "已切换到 AI 配置“{name}”",
+        notFound: "此 AI 配置已不存在",
+        deleteConfirm: "删除 AI 配置“{name}”？",
+        duplicateName: "已存在同名配置",
+        emptyName: "配置名称不能为空"
+    },
+
+    fallbackProviders: {
+        title: "备用服务商",
+        description: "当前一个服务商无法连接、超时、触发速率限制或返回服务器错误时，按顺序尝试这些服务商。",
+        addProvider: "添加服务商",
+        editProvider: "编辑",
+        deleteProvider: "删除",
+        moveUp: "上移",
+        moveDown: "下移",
+        endpointDesc: "本地服务必填。云服务商留空时使用其默认端点。",
+        defaultEndpoint: "默认端点",
+        save: "保存",
+        cancel: "取消",
+        noProviders: "没有备用服务商。请求只会发送到上面配置的服务商。",
+        deleteConfirm: "删除备用服务商“{name}”？",
+        emptyModel: "模型名称不能为空",
+        emptyEndpoint: "本地服务需要填写端点"
+    },
+
+    customProviders: {
+        title: "自定义提供商",
+        description: "通过请求和响应格式定义提供商。它们会与内置提供商一起出现在云服务提供商列表中。",
+        addProvider: "添加提供商",
+        editProvider: "编辑",
+        deleteProvider: "删除",
+        import: "导入 JSON",
+        importTitle: "导入自定义提供商",
+        importDesc: "粘贴一个提供商定义或定义数组（可通过\"复制 JSON\"获得）。与现有提供商 id 相同的定义会替换它。",
+        copyJson: "复制 JSON",
+        copied: "已复制提供商定义",
+        name: "名称",
+        endpointDesc: "请求发送的 URL；{{model}} 会替换为模型名称",
+        authHeader: "认证请求头",
+        authHeaderDesc: "携带 API 密钥的请求头，以及密钥前的文本。请求头留空则不发送密钥。",
+        headers: "额外请求头",
+        headersDesc: "每个请求都会发送的请求头（JSON 对象）",
+        body: "请求体模板",
+        bodyDesc: "JSON 请求体。字符串中可使用 {{model}}、{{prompt}} 和 {{system}}；\"{{messages}}\" 会替换为对话消息，\"{{temperature}}\" 会替换为温度覆盖值。",
+        responsePath: "响应路径",
+        responsePathDesc: "响应中补全文本的路径，以点分隔",
+        errorPath: "错误路径",
+        errorPathDesc: "错误响应中错误消息的路径，以点分隔",
+        noProviders: "尚未定义自定义提供商",
+        deleteConfirm: "删除自定义提供商“{name}”？使用它的设置在选择其他提供商之前将无法工作。",
+        invalidJson: "无效的 JSON：{error}"
+    },
+
+    // Model Context Windows
+    contextWindows: {
+        title: "模型上下文窗口",
+        description: "以 Token 计的上下文窗口，用于确定每次请求中笔记内容的大小，确保提示词始终放得下。条目适用于同名模型，或名称以其开头的所有模型；最长的匹配优先。未列出的模型使用服务商模型列表中的大小，否则为 8192。",
+        modelPlaceholder: "模型名称或前缀",
+        tokens: "Token 数",
+        add: "添加模型",
+        remove: "移除",
+        duplicateModel: "该模型已有上下文窗口",
+        invalidTokens: "上下文窗口必须是大于零的整数"
+    },
+
+    diagnostics: {
+        title: "连接诊断",
+        description: "逐步检查提供商：URL、主机、端点、凭据、模型和一次真实的标签请求",
+        run: "运行诊断",
+        runAgain: "重新运行",
+        copyReport: "复制报告",
+        copied: "诊断报告已复制",
+        excerpts: "请求和响应",
+        request: "请求",
+        response: "响应",
+        steps: {
+            url: "URL 有效",
+            host: "主机可访问（DNS 和 TCP）",
+            endpoint: "端点路径有响应",
+            auth: "凭据被接受",
+            model: "模型存在",
+            tagging: "标签提示返回标签"
+        },
+        fixes: {
+            config: "请完善上方的提供商设置，例如 API 密钥和模型。",
+            invalidUrl: "请输入以 http:// 或 https:// 开头的完整端点 URL。",
+            dns: "无法解析主机名。请检查端点是否拼写错误以及网络连接。",
+            refused: "该地址上没有服务在监听。请启动服务器，或检查主机和端口。",
+            tls: "安全连接失败。请检查证书，或对不使用 TLS 的本地服务器使用 http://。",
+            timeout: "服务器未及时响应。请检查网络、代理或防火墙，或服务器是否过载。",
+            unreachable: "无法访问服务器。请检查端点、网络以及代理或防火墙。",
+            pathNotFound: "服务器上不存在该路径。请检查端点路径，例如 /v1/chat/completions。",
+            authRejected: "服务器拒绝了凭据。请检查 API 密钥及其是否有权访问此模型。",
+            modelMissing: "服务器不认识此模型。请检查模型名称，或从模型列表中选择。",
+            serverError: "服务器返回了错误。详情请查看响应。",
+            noTags: "模型已响应，但无法从中读取标签。请尝试其他模型，或开启结构化输出。"
+        }
+    },
+
+    folderRules: {
+        title: "文件夹规则",
+        description: "为特定文件夹中的笔记使用单独的设置。笔记使用包含它的最具体文件夹的规则；留空的设置沿用全局设置。",
+        addRule: "添加规则",
+        editRule: "编辑规则",
+        deleteRule: "删除",
+        deleteConfirm: "删除“{folder}”的规则？",
+        noRules: "没有文件夹规则。所有笔记使用全局设置。",
+        noOverrides: "无覆盖设置",
+        folder: "文件夹",
+        folderDesc: "文件夹在仓库中的路径；规则同样适用于其子文件夹",
+        useGlobal: "使用全局设置",
+        predefinedTagsFileDesc: "此文件夹中笔记使用的标签文件；留空则使用全局标签来源",
+        profile: "AI 配置",
+        profileDesc: "此文件夹中笔记使用的提供商",
+        activeProvider: "当前提供商",
+        emptyFolder: "请输入规则的文件夹"
+    },
+
     tagTemplates: {
         title: "标签模板",
         description: "定义可重用的标签集，快速应用到笔记。",
@@ -360,6 +664,83 @@ export const zhCN: Translations = {
         emptyTags: "请至少添加一个标签"
     },
 
+    // 标签审阅
+    tagReview: {
+        title: "审阅标签建议",
+        currentTags: "当前标签",
+        noCurrentTags: "此笔记暂无标签",
+        matchedTags: "匹配的现有标签",
+        suggestedTags: "新建议标签",
+        noSuggestions: "无建议",
+        addTag: "添加",
+        addTagPlaceholder: "添加标签...",
+        apply: "应用",
+        skip: "跳过",
+        stop: "停止",
+        skipped: "已跳过 {file}",
+        stopped: "审阅已停止，已为 {count} 个笔记添加标签。",
+        noTagsSelected: "未选择任何标签",
+        lowConfidenceTags: "低置信度（已保留）"
+    },
+
+    // 标签任务队列
+    taggingQueue: {
+        resumePrompt: "标签任务“{label}”被中断，{total} 个笔记中还剩 {count} 个。现在继续吗？",
+        replaceUnfinished: "标签任务“{label}”还剩 {count} 个笔记。开始新任务将放弃它。继续吗？",
+        alreadyRunning: "已有标签任务正在运行",
+        noJob: "没有可继续的未完成标签任务",
+        noFailed: "上一个标签任务没有失败的文件",
+        requeued: "已重新排队 {count} 个失败的文件",
+        finished: "已为 {total} 个笔记中的 {done} 个添加标签。{failed} 个失败，{skipped} 个跳过。",
+        failedFiles: "失败的笔记：\n{files}",
+        skippedUnchanged: "已跳过 {count} 个自上次添加标签后未更改的笔记。使用强制重新添加标签命令可重新分析它们。",
+        cancelled: "已取消添加标签。已为 {count} 个笔记添加标签，其余笔记可稍后继续。",
+        failovers: "已切换到备用服务商 {count} 次：\n{routes}"
+    },
+
+    // 试运行
+    dryRun: {
+        confirm: "分析 {count} 个笔记但不做任何修改？建议的标签将保存到报告笔记中。",
+        analyzing: "试运行：正在分析 {count} 个笔记...",
+        reportCreated: "试运行完成：{count} 个笔记将被修改。报告已保存到 {path}",
+        failed: "试运行失败",
+        noReports: "未找到试运行报告",
+        selectReport: "选择要应用的试运行报告...",
+        nothingToApply: "此报告没有需要应用的更改",
+        applyConfirm: "将建议的标签写入 {count} 个笔记？",
+        applied: "已应用 {applied} 个笔记。跳过 {stale} 个在报告后被修改的笔记。{failed} 个失败。"
+    },
+
+    // 标签历史
+    tagJournal: {
+        historyTitle: "标签历史",
+        noHistory: "此笔记没有标签变更记录",
+        revert: "回滚",
+        revertedBadge: "已回滚",
+        nothingToUndo: "没有可撤销的操作",
+        noBatches: "没有可回滚的批量操作",
+        selectBatch: "选择要回滚的批量操作...",
+        notesCount: "{count} 个笔记",
+        revertBatchConfirm: "回滚“{label}”中的 {count} 个标签变更？",
+        reverted: "已回滚 {count} 个笔记的标签。",
+        revertConflicts: "{count} 个笔记在此之后已被修改，未作更改。",
+        operationAiTag: "AI 标签",
+        operationUpdate: "标签更新",
+        operationWrite: "标签写入",
+        operationClear: "清除标签",
+        operationRename: "重命名标签",
+        operationFlatten: "扁平化标签",
+        operationImport: "导入标签",
+        operationRevert: "回滚"
+    },
+
+    // 标签理由
+    tagRationale: {
+        title: "为什么是这些标签？",
+        noTags: "此笔记没有标签",
+        noRationale: "没有记录理由"
+    },
+
     // 标签去重
     tagDeduplication: {
         title: "智能标签去重",
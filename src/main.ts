@@ -1,32 +1,94 @@
-import { App, MarkdownView, Modal, Notice, Plugin, TFile, TFolder, WorkspaceLeaf } from 'obsidian';
+import { App, MarkdownView, Modal, Notice, Plugin, TAbstractFile, TFile, TFolder, WorkspaceLeaf, normalizePath } from 'obsidian';
 import {
     ConnectionTestError,
     ConnectionTestResult,
     LLMService,
     LocalLLMService,
     CloudLLMService,
-    LLMResponse
+    OllamaLLMService,
+    LLMResponse,
+    AnalyzeOptions,
+    RequestCancelledError,
+    LLMRequestError,
+    FallbackLLMService,
+    FailoverEvent,
+    ProviderInfo,
+    EmbeddingService,
+    RateLimiter,
+    RateLimits,
+    getRateLimiter
 } from './services';
 import { setSettings } from './services/prompts/tagPrompts';
 import { ConfirmationModal } from './ui/modals/ConfirmationModal';
-import { TagUtils, TagOperationResult, setGlobalDebugMode } from './utils/tagUtils';
+import { TagReviewModal, TagReviewAction, TagReviewProgress, TagReviewResult } from './ui/modals/TagReviewModal';
+import { TagUtils, TagOperationResult, TagChangeContext, setGlobalDebugMode, setTagChangeListener, createTagBatch } from './utils/tagUtils';
+import { TagJournal } from './utils/tagJournal';
+import { TaggingQueue, TaggingJobFile } from './utils/taggingQueue';
+import { NoteFingerprints, hashString } from './utils/noteFingerprints';
+import { TagRationaleStore } from './utils/tagRationale';
+import { UsageLedger } from './utils/usageLedger';
+import { ResponseCache } from './utils/responseCache';
+import { TagEmbeddingStore, TagDescription, rankTagsBySimilarity } from './utils/tagEmbeddings';
+import { ModelCatalog } from './utils/modelCatalog';
+import { findContextWindow } from './utils/contextWindows';
+import { AuditLog } from './utils/auditLog';
+import { estimateTokens, truncateToTokens } from './services/usage';
+import { DiagnosticStep, runConnectionDiagnostics } from './services/diagnostics';
+import { runWithConcurrency, KeyedLock, KeyedSemaphore } from './utils/concurrency';
+import { MAX_CONCURRENT_REQUESTS, CONCURRENCY_RANGE, LLM_SERVICE_CONFIG } from './utils/constants';
+import { DryRunReport, DryRunEntry } from './utils/dryRunReport';
 import { TaggingMode } from './services/prompts/types';
 import { registerCommands } from './commands/index';
-import { AITaggerSettings, DEFAULT_SETTINGS } from './core/settings';
+import { AITaggerSettings, DEFAULT_SETTINGS, FallbackProvider, FolderRule, ProviderProfile, TagFormat } from './core/settings';
+import { FolderTaggingSettings, findFolderRule, applyFolderRule } from './utils/folderRules';
+import { PluginState, DEFAULT_STATE } from './core/state';
+import { StateFiles } from './core/stateFiles';
 import { AITaggerSettingTab } from './ui/settings/AITaggerSettingTab';
 import { EventHandlers } from './utils/eventHandlers';
+import { AutoTagger } from './utils/autoTagger';
 import { TagNetworkManager } from './utils/tagNetworkUtils';
 import { TagNetworkView, TAG_NETWORK_VIEW_TYPE } from './ui/views/TagNetworkView';
 import { TagAnalyticsManager } from './utils/tagAnalyticsUtils';
 import { TagAnalyticsView, TAG_ANALYTICS_VIEW_TYPE } from './ui/views/TagAnalyticsView';
+import { UsageLedgerView, USAGE_LEDGER_VIEW_TYPE } from './ui/views/UsageLedgerView';
+import { AuditLogView, AUDIT_LOG_VIEW_TYPE } from './ui/views/AuditLogView';
 import { TagOperations } from './utils/tagOperations';
 import { BatchProcessResult } from './utils/batchProcessor';
 import { getTranslations, SupportedLanguage } from './i18n';
 
+export interface NoteTaggingResult extends TagOperationResult {
+    /** Set when the suggestions went through the review modal */
+    reviewAction?: TagReviewAction;
+}
+
 export default class AITaggerPlugin extends Plugin {
     public settings = {...DEFAULT_SETTINGS};
+    public state: PluginState = structuredClone(DEFAULT_STATE);
     public llmService: LLMService;
+    public tagJournal: TagJournal;
+    public taggingQueue: TaggingQueue;
+    public noteFingerprints: NoteFingerprints;
+    public tagRationale: TagRationaleStore;
+    public usageLedger: UsageLedger;
+    public tagEmbeddings: TagEmbeddingStore;
+    public modelCatalog: ModelCatalog;
+    public auditLog: AuditLog;
+    private responseCache: ResponseCache;
+    private stateFiles: StateFiles;
+    private isTaggingJobRunning = false;
+    private analysisCancelled = false;
+    // Failovers collected during a batch run; null outside of one
+    private runFailovers: FailoverEvent[] | null = null;
+    // Services created for one-off analyses with a profile, so they can be cancelled
+    private profileServices = new Set<LLMService>();
+    // Services of the profiles folder rules use, created when first needed
+    private folderRuleServices = new Map<string, LLMService>();
+    // Batch run that recorded token usage is attributed to
+    private usageRun: { id: string; label: string } | null = null;
+    // Serializes frontmatter writes to the same note across concurrent runs
+    public fileLocks = new KeyedLock();
     private eventHandlers: EventHandlers;
+    private autoTagger: AutoTagger;
     private tagNetworkManager: TagNetworkManager;
     private tagAnalyticsManager: TagAnalyticsManager;
     private tagOperations: TagOperations;
@@ -42,9 +104,27 @@ export default class AITaggerPlugin extends Plugin {
             requestTimeout: DEFAULT_SETTINGS.requestTimeout
         }, app);
         this.eventHandlers = new EventHandlers(app);
+        this.autoTagger = new AutoTagger(this);
         this.tagNetworkManager = new TagNetworkManager(app);
         this.tagAnalyticsManager = new TagAnalyticsManager(app);
         this.tagOperations = new TagOperations(app);
+        this.stateFiles = new StateFiles(app.vault.adapter, manifest.dir, () => this.state);
+        this.tagJournal = new TagJournal(app, this.state.tagJournal, () => this.stateFiles.requestSave('tagJournal'));
+        this.taggingQueue = new TaggingQueue(this.state, () => this.stateFiles.requestSave('taggingJob'));
+        this.noteFingerprints = new NoteFingerprints(this.state, () => this.stateFiles.requestSave('noteFingerprints'));
+        this.tagRationale = new TagRationaleStore(this.state, () => this.stateFiles.requestSave('tagRationale'));
+        this.usageLedger = new UsageLedger(this.state, () => this.stateFiles.requestSave('usageLedger'));
+        this.modelCatalog = new ModelCatalog(this.state, () => this.stateFiles.requestSave('modelCatalog'));
+        this.tagEmbeddings = new TagEmbeddingStore(app.vault.adapter, `${manifest.dir}/tag-embeddings.json`);
+        this.responseCache = new ResponseCache(app.vault.adapter, `${manifest.dir}/response-cache.json`, () => ({
+            maxBytes: this.settings.responseCacheMaxSize * 1024 * 1024,
+            ttlMs: this.settings.responseCacheTtl * 24 * 60 * 60 * 1000
+        }));
+        this.auditLog = new AuditLog(
+            app.vault.adapter,
+            () => normalizePath(this.settings.auditLogPath.trim() || `${manifest.dir}/audit-log.jsonl`),
+            () => this.getCredentials()
+        );
     }
 
     public async loadSettings(): Promise<void> {
@@ -59,6 +139,23 @@ export default class AITaggerPlugin extends Plugin {
         }
 
         this.settings = Object.assign({}, DEFAULT_SETTINGS, oldSettings);
+        this.settings.providerConcurrency = { ...this.settings.providerConcurrency };
+        this.settings.providerRateLimits = Object.fromEntries(
+            Object.entries(this.settings.providerRateLimits).map(([provider, limits]) => [provider, { ...limits }])
+        );
+        this.settings.fallbackProviders = this.settings.fallbackProviders.map(provider => ({ ...provider }));
+        this.settings.profiles = this.settings.profiles.map(profile => ({ ...profile }));
+        this.settings.customProviders = this.settings.customProviders.map(provider => structuredClone(provider));
+        this.settings.folderRules = this.settings.folderRules.map(rule => ({ ...rule }));
+        this.settings.modelPrices = this.settings.modelPrices.map(price => ({ ...price }));
+        this.settings.modelContextWindows = this.settings.modelContextWindows.map(entry => ({ ...entry }));
+        this.state = Object.assign(structuredClone(DEFAULT_STATE), await this.stateFiles.load());
+        this.tagJournal = new TagJournal(this.app, this.state.tagJournal, () => this.stateFiles.requestSave('tagJournal'));
+        this.taggingQueue = new TaggingQueue(this.state, () => this.stateFiles.requestSave('taggingJob'));
+        this.noteFingerprints = new NoteFingerprints(this.state, () => this.stateFiles.requestSave('noteFingerprints'));
+        this.tagRationale = new TagRationaleStore(this.state, () => this.stateFiles.requestSave('tagRationale'));
+        this.usageLedger = new UsageLedger(this.state, () => this.stateFiles.requestSave('usageLedger'));
+        this.modelCatalog = new ModelCatalog(this.state, () => this.stateFiles.requestSave('modelCatalog'));
 
         // Migrate empty customPrompt to default template
         if (!this.settings.customPrompt || this.settings.customPrompt.trim() === '') {
@@ -77,32 +174,408 @@ export default class AITaggerPlugin extends Plugin {
         this.t = getTranslations(this.settings.interfaceLanguage);
     }
 
+    /**
+     * Describes the active LLM provider for the tag journal
+     */
+    public getProviderInfo(): ProviderInfo {
+        return this.settings.serviceType === 'local'
+            ? { provider: this.settings.localServiceType ?? 'local', model: this.settings.localModel }
+            : { provider: this.settings.cloudServiceType, model: this.settings.cloudModel };
+    }
+
+    /**
+     * Hashes the settings that shape the prompt and the written tags.
+     * Notes tagged under a different fingerprint are re-tagged even if their content is unchanged.
+     */
+    public getTaggingFingerprint(file: TFile): string {
+        const { settings, rule } = this.getTaggingSettings(file);
+        const { provider, model } = this.getFolderRuleProvider(rule).source ?? this.getProviderInfo();
+        return hashString(JSON.stringify([
+            provider,
+            model,
+            settings.taggingMode,
+            settings.language,
+            settings.customPrompt,
+            settings.tagRangeGenerateMax,
+            settings.tagRangePredefinedMax,
+            settings.tagSourceType,
+            settings.predefinedTagsPath,
+            settings.enableNestedTags,
+            settings.nestedTagsMaxDepth,
+            settings.tagFormat,
+            settings.replaceTags,
+            settings.longNoteStrategy,
+            settings.confidenceThreshold,
+            settings.lowConfidenceAction,
+            settings.captureRationale,
+            settings.embeddingModel,
+            settings.embeddingThreshold
+        ]));
+    }
+
+    /**
+     * Stores the model's rationale for the tags that were written to a note
+     * @param file Tagged note
+     * @param tags Tags that were written, before formatting
+     * @param analysis Analysis result the tags came from
+     * @param format Tag format the tags were written in, which a folder rule may set
+     */
+    public recordTagRationale(file: TFile, tags: string[], analysis: LLMResponse, format: TagFormat): void {
+        if (!analysis.rationale) return;
+
+        // Key by the tag as written to the note
+        const written = new Set(tags.map(tag => TagUtils.formatTag(tag, format)));
+        const rationale: Record<string, string> = {};
+        for (const [tag, reason] of Object.entries(analysis.rationale)) {
+            const formatted = TagUtils.formatTag(tag, format);
+            if (written.has(formatted)) {
+                rationale[formatted] = reason;
+            }
+        }
+        this.tagRationale.record(file.path, rationale, analysis.source ?? this.getProviderInfo());
+    }
+
+    /**
+     * Gets the number of parallel requests allowed for a provider
+     * @param provider Provider key, the active provider by default
+     */
+    public getRequestConcurrency(provider = this.getProviderInfo().provider): number {
+        const value = this.settings.providerConcurrency[provider] ?? MAX_CONCURRENT_REQUESTS;
+        return Math.min(CONCURRENCY_RANGE.MAX, Math.max(CONCURRENCY_RANGE.MIN, value));
+    }
+
+    /**
+     * Gets the requests and tokens per minute allowed for a provider
+     * @param provider Provider key, the active provider by default
+     */
+    public getRateLimits(provider = this.getProviderInfo().provider): RateLimits {
+        return this.settings.providerRateLimits[provider] ?? { requestsPerMinute: 0, tokensPerMinute: 0 };
+    }
+
+    /**
+     * Gets the provider configured in the LLM settings
+     */
+    public getPrimaryProvider(): FallbackProvider {
+        const local = this.settings.serviceType === 'local';
+        return {
+            id: 'primary',
+            serviceType: this.settings.serviceType,
+            cloudServiceType: this.settings.cloudServiceType,
+            endpoint: local ? this.settings.localEndpoint : this.settings.cloudEndpoint,
+            apiKey: this.settings.cloudApiKey,
+            model: local ? this.settings.localModel : this.settings.cloudModel,
+            localServiceType: this.settings.localServiceType
+        };
+    }
+
+    /**
+     * Describes a fallback provider or profile for the tag journal
+     */
+    private getProviderInfoFor(provider: FallbackProvider): ProviderInfo {
+        return {
+            provider: provider.serviceType === 'local' ? provider.localServiceType ?? 'local' : provider.cloudServiceType,
+            model: provider.model
+        };
+    }
+
     private async initializeLLMService(): Promise<void> {
         await this.llmService?.dispose();
+        // Folder rule services are created again with the new settings when next needed
+        await Promise.all([...this.folderRuleServices.values()].map(service => service.dispose()));
+        this.folderRuleServices.clear();
 
-        this.llmService = this.settings.serviceType === 'local'
-            ? new LocalLLMService({
-                endpoint: this.settings.localEndpoint,
-                modelName: this.settings.localModel,
-                language: this.settings.language,
-                llmTemperatureOverride: this.settings.llmTemperatureOverride,
-                requestTimeout: this.settings.requestTimeout
-            }, this.app)
-            : new CloudLLMService({
-                endpoint: this.settings.cloudEndpoint,
-                apiKey: this.settings.cloudApiKey,
-                modelName: this.settings.cloudModel,
-                type: this.settings.cloudServiceType,
-                language: this.settings.language,
-                llmTemperatureOverride: this.settings.llmTemperatureOverride,
-                requestTimeout: this.settings.requestTimeout
-            }, this.app);
+        // The main provider is tried first, then the fallback providers in order
+        this.llmService = new FallbackLLMService([
+            { ...this.getProviderInfo(), service: this.createLLMService(this.getPrimaryProvider()) },
+            ...this.settings.fallbackProviders.map(provider => ({
+                ...this.getProviderInfoFor(provider),
+                service: this.createLLMService(provider)
+            }))
+        ], event => this.handleFailover(event));
 
         // Set debug mode on the LLM service and globally
         this.llmService.setDebugMode(this.settings.debugMode);
         setGlobalDebugMode(this.settings.debugMode);
     }
 
+    /**
+     * Creates the service for one provider of the fallback chain, or for a profile
+     * with its own temperature and timeout
+     * @param useResponseCache - Whether answers may come from the response cache, if it is enabled
+     */
+    private createLLMService(provider: FallbackProvider | ProviderProfile, useResponseCache = true): LLMService {
+        const profile = 'name' in provider ? provider : null;
+        const config = {
+            endpoint: provider.endpoint,
+            modelName: provider.model,
+            language: this.settings.language,
+            llmTemperatureOverride: profile ? profile.llmTemperatureOverride : this.settings.llmTemperatureOverride,
+            requestTimeout: profile ? profile.requestTimeout : this.settings.requestTimeout,
+            longNoteStrategy: this.settings.longNoteStrategy,
+            maxChunks: this.settings.maxChunks,
+            contextWindow: this.getContextWindow(provider) ?? undefined,
+            maxContentTokens: this.settings.maxContentTokens,
+            stream: this.settings.streamResponses,
+            structuredOutput: this.settings.structuredOutput,
+            rateLimiter: this.getRateLimiter(this.getProviderInfoFor(provider).provider),
+            responseCache: this.settings.responseCacheEnabled && useResponseCache ? this.responseCache : undefined,
+            ollama: {
+                numCtx: this.settings.ollamaNumCtx,
+                numPredict: this.settings.ollamaNumPredict,
+                keepAlive: this.settings.ollamaKeepAlive
+            }
+        };
+
+        if (provider.serviceType === 'cloud') {
+            return new CloudLLMService({
+                ...config,
+                apiKey: provider.apiKey,
+                type: provider.cloudServiceType,
+                customProvider: this.settings.customProviders.find(custom => `custom:${custom.id}` === provider.cloudServiceType)
+            }, this.app);
+        }
+        return provider.localServiceType === 'ollama'
+            ? new OllamaLLMService(config, this.app)
+            : new LocalLLMService(config, this.app);
+    }
+
+    /**
+     * Gets the context window of a provider's model: from the registry in the settings, or else
+     * from the provider's fetched model list
+     * @returns Context window in tokens, or null if neither knows the model
+     */
+    private getContextWindow(provider: FallbackProvider): number | null {
+        const registered = findContextWindow(this.settings.modelContextWindows, provider.model);
+        if (registered !== null || provider.serviceType !== 'cloud') {
+            return registered;
+        }
+        const listed = this.modelCatalog.get(provider.cloudServiceType, provider.endpoint)?.models
+            .find(model => model.id === provider.model.trim());
+        return listed?.contextWindow ?? null;
+    }
+
+    /**
+     * Gets the limiter shared by every service of a provider, with the provider's configured limits
+     */
+    private getRateLimiter(provider: string): RateLimiter {
+        const limiter = getRateLimiter(provider, this.getRateLimits(provider));
+        limiter.onPause = delayMs => {
+            if (this.settings.debugMode) {
+                console.log(`[AI Tagger Debug] Rate limit reached for ${provider}, pausing requests for ${delayMs}ms`);
+            }
+            // Short pauses from pacing headers are routine; only tell the user about noticeable ones
+            if (delayMs >= 5000) {
+                new Notice(
+                    this.t.messages.rateLimitPause
+                        .replace('{provider}', provider)
+                        .replace('{seconds}', String(Math.ceil(delayMs / 1000))),
+                    4000
+                );
+            }
+        };
+        return limiter;
+    }
+
+    /**
+     * Collects failovers during a batch run, or reports them right away otherwise
+     */
+    private handleFailover(event: FailoverEvent): void {
+        if (this.settings.debugMode) {
+            console.log(`[AI Tagger Debug] Failing over from ${event.from.provider} to ${event.to.provider}:`, event.reason);
+        }
+
+        if (this.runFailovers) {
+            this.runFailovers.push(event);
+            return;
+        }
+        new Notice(
+            this.t.messages.failover
+                .replace('{from}', this.describeProvider(event.from))
+                .replace('{to}', this.describeProvider(event.to)),
+            4000
+        );
+    }
+
+    /**
+     * Shows how often each provider was failed over during a batch run
+     */
+    private showFailoverSummary(failovers: FailoverEvent[]): void {
+        if (failovers.length === 0) return;
+
+        const counts = new Map<string, number>();
+        for (const { from, to } of failovers) {
+            const route = `${this.describeProvider(from)} → ${this.describeProvider(to)}`;
+            counts.set(route, (counts.get(route) ?? 0) + 1);
+        }
+        const lines = [...counts].map(([route, count]) => `${route}: ${count}`);
+        new Notice(
+            this.t.taggingQueue.failovers
+                .replace('{count}', String(failovers.length))
+                .replace('{routes}', lines.join('\n')),
+            8000
+        );
+    }
+
+    private describeProvider({ provider, model }: ProviderInfo): string {
+        return `${provider} (${model})`;
+    }
+
+    /**
+     * Makes a profile's provider, model, temperature and timeout the active LLM settings
+     */
+    public async switchProfile(profile: ProviderProfile): Promise<void> {
+        this.settings.serviceType = profile.serviceType;
+        if (profile.serviceType === 'local') {
+            this.settings.localEndpoint = profile.endpoint;
+            this.settings.localModel = profile.model;
+            this.settings.localServiceType = profile.localServiceType;
+        } else {
+            this.settings.cloudServiceType = profile.cloudServiceType;
+            this.settings.cloudEndpoint = profile.endpoint;
+            this.settings.cloudApiKey = profile.apiKey;
+            this.settings.cloudModel = profile.model;
+        }
+        this.settings.llmTemperatureOverride = profile.llmTemperatureOverride;
+        this.settings.requestTimeout = profile.requestTimeout;
+
+        await this.saveSettings();
+        new Notice(this.t.profiles.switched.replace('{name}', profile.name), 3000);
+    }
+
+    /**
+     * Analyzes a note with a profile's provider, leaving the active provider unchanged
+     * @param file Note being analyzed
+     * @param content Content to analyze
+     * @param profile Profile to analyze with
+     * @returns Analysis result, with the profile's provider as its source
+     */
+    public async analyzeWithProfile(file: TFile, content: string, profile: ProviderProfile): Promise<LLMResponse> {
+        const service = this.createLLMService(profile);
+        service.setDebugMode(this.settings.debugMode);
+        this.profileServices.add(service);
+
+        const source = this.getProviderInfoFor(profile);
+        try {
+            const analysis = await this.withPartialTagsNotice(options => this.analyzeContent(
+                content,
+                this.withUsageTracking(file, options, source),
+                service,
+                this.getTaggingSettings(file).settings
+            ));
+            return { ...analysis, source };
+        } finally {
+            this.profileServices.delete(service);
+            await service.dispose();
+        }
+    }
+
+    /**
+     * Gets the settings to tag a note with: the global settings with the overrides
+     * of the most specific folder rule containing the note
+     * @param file Note to tag
+     * @returns Settings for the note, and the rule they came from
+     */
+    public getTaggingSettings(file: TFile): FolderTaggingSettings {
+        const rule = findFolderRule(this.settings.folderRules, file.path);
+        return { settings: applyFolderRule(this.settings, rule), rule };
+    }
+
+    /**
+     * Describes the provider that analyzes a note: the profile of its folder rule, or the active provider
+     */
+    public getNoteProviderInfo(file: TFile): ProviderInfo {
+        const { rule } = this.getTaggingSettings(file);
+        const profile = rule?.profileId ? this.settings.profiles.find(p => p.id === rule.profileId) : undefined;
+        return profile ? this.getProviderInfoFor(profile) : this.getProviderInfo();
+    }
+
+    /**
+     * Gets the service a folder rule analyzes with: the service of its profile, kept until
+     * the settings change, or the active provider's
+     * @param rule Folder rule, or null
+     * @returns Service, and the profile's provider as the source if the rule has a profile
+     */
+    public getFolderRuleProvider(rule: FolderRule | null): { service: LLMService; source?: ProviderInfo } {
+        const profile = rule?.profileId ? this.settings.profiles.find(p => p.id === rule.profileId) : undefined;
+        if (!profile) {
+            return { service: this.llmService };
+        }
+
+        let service = this.folderRuleServices.get(profile.id);
+        if (!service) {
+            service = this.createLLMService(profile);
+            service.setDebugMode(this.settings.debugMode);
+            this.folderRuleServices.set(profile.id, service);
+        }
+        return { service, source: this.getProviderInfoFor(profile) };
+    }
+
+    /**
+     * Analyzes a note with the settings and provider of its folder rule
+     * @param file Note being analyzed
+     * @param content Content to analyze
+     * @param tagging Settings for the note, from getTaggingSettings
+     * @param showProgress Show the tags received so far in a notice while the note is analyzed
+     * @returns Analysis result
+     */
+    public async analyzeNote(file: TFile, content: string, tagging: FolderTaggingSettings, showProgress = false): Promise<LLMResponse> {
+        const { service, source } = this.getFolderRuleProvider(tagging.rule);
+        if (this.settings.debugMode) {
+            console.log(`[AI Tagger Debug] Folder rule for ${file.path}:`, tagging.rule ?? 'none, using global settings');
+        }
+
+        const analyze = (options?: AnalyzeOptions) => this.analyzeContent(
+            content,
+            this.withUsageTracking(file, options, source),
+            service,
+            tagging.settings
+        );
+        const analysis = showProgress ? await this.withPartialTagsNotice(analyze) : await analyze();
+        return source ? { ...analysis, source } : analysis;
+    }
+
+    /**
+     * Adds token usage recording for a note to analysis options, and request logging when the audit log is on
+     * @param file Note being analyzed
+     * @param options Other analysis options
+     * @param source Provider to record when the service does not report one
+     * @returns Options that record every request in the usage ledger
+     */
+    public withUsageTracking(file: TFile, options: AnalyzeOptions = {}, source?: ProviderInfo): AnalyzeOptions {
+        const run = this.usageRun;
+        return {
+            ...options,
+            onUsage: (usage, usageSource) => this.usageLedger.record({
+                ...(usageSource ?? source ?? this.getProviderInfo()),
+                ...usage,
+                path: file.path,
+                runId: run?.id,
+                runLabel: run?.label
+            }),
+            onRequest: this.settings.auditLogEnabled
+                ? (request, requestSource) => this.auditLog.record(
+                    request,
+                    file.path,
+                    (requestSource ?? source ?? this.getProviderInfo()).provider
+                )
+                : undefined
+        };
+    }
+
+    /**
+     * Gets every configured credential, so the audit log can remove them from what it records
+     */
+    private getCredentials(): string[] {
+        return [
+            this.settings.cloudApiKey,
+            this.settings.embeddingApiKey,
+            ...this.settings.fallbackProviders.map(provider => provider.apiKey),
+            ...this.settings.profiles.map(profile => profile.apiKey),
+            // Custom providers can carry tokens in headers of their own
+            ...this.settings.customProviders.flatMap(provider => Object.values(provider.headers))
+        ].filter(key => key.trim()).map(key => key.trim());
+    }
+
     public async onload(): Promise<void> {
         await this.loadSettings();
         await this.initializeLLMService();
@@ -112,6 +585,31 @@ export default class AITaggerPlugin extends Plugin {
 
         // Register event handlers
         this.eventHandlers.registerEventHandlers();
+
+        // Record every tag write in the journal
+        setTagChangeListener(this.tagJournal);
+        this.registerEvent(
+            this.app.vault.on('rename', (file: TAbstractFile, oldPath: string) => {
+                if (file instanceof TFile) {
+                    this.tagJournal.handleRename(file, oldPath);
+                    this.taggingQueue.handleRename(file, oldPath);
+                    this.noteFingerprints.handleRename(file, oldPath);
+                    this.tagRationale.handleRename(file, oldPath);
+                }
+            })
+        );
+        this.registerEvent(
+            this.app.vault.on('delete', (file: TAbstractFile) => {
+                this.noteFingerprints.handleDelete(file.path);
+                this.tagRationale.handleDelete(file.path);
+            })
+        );
+
+        // Auto-tagging only reacts to files created after startup
+        this.app.workspace.onLayoutReady(() => {
+            this.eventHandlers.registerAutoTagHandlers(this.autoTagger);
+            this.offerToResumeTaggingJob();
+        });
         
         // Add settings tab
         this.addSettingTab(new AITaggerSettingTab(this.app, this));
@@ -131,6 +629,18 @@ export default class AITaggerPlugin extends Plugin {
             (leaf) => new TagAnalyticsView(leaf, this.app, this.t, this.tagAnalyticsManager)
         );
 
+        // Register view type for token usage and costs
+        this.registerView(
+            USAGE_LEDGER_VIEW_TYPE,
+            (leaf) => new UsageLedgerView(leaf, this.t, this.usageLedger, () => this.settings.modelPrices)
+        );
+
+        // Register view type for the request audit log
+        this.registerView(
+            AUDIT_LOG_VIEW_TYPE,
+            (leaf) => new AuditLogView(leaf, this.t, this.auditLog)
+        );
+
         // Add ribbon icons with descriptive tooltips
         this.addRibbonIcon(
             'tags',
@@ -152,11 +662,19 @@ export default class AITaggerPlugin extends Plugin {
     public async onunload(): Promise<void> {
         // Clean up resources
         await this.llmService?.dispose();
+        await Promise.all([...this.folderRuleServices.values()].map(service => service.dispose()));
         this.eventHandlers.cleanup();
+        this.autoTagger.cleanup();
+        setTagChangeListener(null);
+        await this.stateFiles.flush();
+        await this.tagEmbeddings.flush();
+        await this.responseCache.flush();
         
         // Unregister views
         this.app.workspace.detachLeavesOfType(TAG_NETWORK_VIEW_TYPE);
         this.app.workspace.detachLeavesOfType(TAG_ANALYTICS_VIEW_TYPE);
+        this.app.workspace.detachLeavesOfType(USAGE_LEDGER_VIEW_TYPE);
+        this.app.workspace.detachLeavesOfType(AUDIT_LOG_VIEW_TYPE);
         
         // Trigger layout refresh
         this.app.workspace.trigger('layout-change');
@@ -238,6 +756,70 @@ export default class AITaggerPlugin extends Plugin {
         }
     }
 
+    public async showUsageLedger(): Promise<void> {
+        try {
+            let leaf = this.app.workspace.getLeavesOfType(USAGE_LEDGER_VIEW_TYPE)[0];
+
+            if (!leaf) {
+                const newLeaf = this.app.workspace.getLeaf(true);
+                await newLeaf.setViewState({
+                    type: USAGE_LEDGER_VIEW_TYPE,
+                    active: true
+                });
+
+                leaf = this.app.workspace.getLeavesOfType(USAGE_LEDGER_VIEW_TYPE)[0];
+                if (!leaf) {
+                    throw new Error('Failed to initialize usage view');
+                }
+            }
+
+            this.app.workspace.revealLeaf(leaf);
+        } catch (error) {
+            new Notice(this.t.usage.openFailed, 4000);
+        }
+    }
+
+    public async showAuditLog(): Promise<void> {
+        try {
+            let leaf = this.app.workspace.getLeavesOfType(AUDIT_LOG_VIEW_TYPE)[0];
+
+            if (!leaf) {
+                const newLeaf = this.app.workspace.getLeaf(true);
+                await newLeaf.setViewState({
+                    type: AUDIT_LOG_VIEW_TYPE,
+                    active: true
+                });
+
+                leaf = this.app.workspace.getLeavesOfType(AUDIT_LOG_VIEW_TYPE)[0];
+                if (!leaf) {
+                    throw new Error('Failed to initialize audit log view');
+                }
+            }
+
+            this.app.workspace.revealLeaf(leaf);
+        } catch (error) {
+            new Notice(this.t.auditLog.openFailed, 4000);
+        }
+    }
+
+    /**
+     * Deletes the request audit log, after confirmation
+     */
+    public async clearAuditLog(): Promise<void> {
+        if (!(await this.showConfirmationDialog(this.t.auditLog.clearConfirm))) return;
+
+        const count = await this.auditLog.clear();
+        new Notice(this.t.auditLog.cleared.replace('{count}', String(count)));
+    }
+
+    /**
+     * Removes every cached LLM response
+     */
+    public async clearResponseCache(): Promise<void> {
+        const count = await this.responseCache.clear();
+        new Notice(this.t.usage.cacheCleared.replace('{count}', String(count)));
+    }
+
     /**
      * Test connection to the configured LLM service
      */
@@ -245,6 +827,21 @@ export default class AITaggerPlugin extends Plugin {
         return await this.llmService.testConnection();
     }
 
+    /**
+     * Checks the configured provider step by step, with a service of its own
+     * so the tagging step is never answered from the response cache
+     * @param onStep - Called as each step finishes
+     */
+    public async runConnectionDiagnostics(onStep?: (step: DiagnosticStep) => void): Promise<DiagnosticStep[]> {
+        const service = this.createLLMService(this.getPrimaryProvider(), false);
+        service.setDebugMode(this.settings.debugMode);
+        try {
+            return await runConnectionDiagnostics(service, this.settings.language, onStep);
+        } finally {
+            await service.dispose();
+        }
+    }
+
     public async showConfirmationDialog(message: string): Promise<boolean> {
         return new Promise((resolve) => {
             const modal = new ConfirmationModal(
@@ -259,6 +856,35 @@ export default class AITaggerPlugin extends Plugin {
         });
     }
 
+    /**
+     * Shows the review modal for a note and resolves with the user's decision
+     * @param file Note being tagged
+     * @param suggestedTags Newly generated tags
+     * @param matchedTags Tags matched from the existing tag set
+     * @param progress Position of the note in a batch run, if any
+     */
+    public async reviewTagSuggestions(
+        file: TFile,
+        suggestedTags: string[],
+        matchedTags: string[],
+        progress?: TagReviewProgress,
+        lowConfidenceTags: string[] = [],
+        confidence?: Record<string, number>
+    ): Promise<TagReviewResult> {
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+        const currentTags = TagUtils.getExistingTags(frontmatter);
+
+        return new Promise((resolve) => {
+            new TagReviewModal(
+                this.app,
+                this.t,
+                { file, currentTags, suggestedTags, matchedTags, lowConfidenceTags, confidence },
+                resolve,
+                progress
+            ).open();
+        });
+    }
+
     /**
      * Get all markdown files in the vault, excluding those that match exclusion patterns
      */
@@ -329,50 +955,419 @@ export default class AITaggerPlugin extends Plugin {
         }
     }
 
-    public async analyzeAndTagFiles(files: TFile[]): Promise<void> {
+    /**
+     * Tags the files through a persistent job so the run can be resumed after a restart
+     * @param files Files to tag
+     * @param label Description of the run, shown when resuming and in the tag journal
+     * @param force Re-tag notes even if they are unchanged since they were last tagged
+     */
+    public async analyzeAndTagFiles(files: TFile[], label = `AI tagging (${files.length} notes)`, force = false): Promise<void> {
         if (!files?.length) return;
 
-        const statusNotice = new Notice(`Analyzing ${files.length} files...`, 0);
+        if (this.isTaggingJobRunning) {
+            new Notice(this.t.taggingQueue.alreadyRunning, 3000);
+            return;
+        }
+
+        const existingJob = this.taggingQueue.getJob();
+        if (existingJob && this.taggingQueue.hasUnfinishedJob()) {
+            const confirmed = await this.showConfirmationDialog(
+                this.t.taggingQueue.replaceUnfinished
+                    .replace('{label}', existingJob.label)
+                    .replace('{count}', String(this.taggingQueue.getCount('pending')))
+            );
+            if (!confirmed) {
+                new Notice(this.t.messages.operationCancelled);
+                return;
+            }
+        }
+
+        this.taggingQueue.start(files, label, force);
+        await this.runTaggingJob();
+    }
+
+    /**
+     * Tags a single file and reports the result
+     * @param file File to tag
+     * @param profile Profile to analyze with instead of the active provider
+     */
+    public async analyzeAndTagFile(file: TFile, profile?: ProviderProfile): Promise<void> {
+        const content = await this.app.vault.read(file);
+        if (!content.trim()) {
+            new Notice('Cannot analyze empty note', 3000);
+            return;
+        }
+
+        try {
+            // Use the unified method to analyze and tag
+            const result = profile
+                ? await this.analyzeAndTagNote(file, await this.analyzeWithProfile(file, content, profile))
+                : await this.analyzeAndTagNote(file, content, undefined, true);
+
+            // Skipping in the review modal is not a failure
+            if (result.reviewAction && !result.success) {
+                new Notice(result.message, 3000);
+                return;
+            }
+            
+            // Process the result
+            this.handleTagUpdateResult(result);
+        } catch (error) {
+            // The cancel command already reported it
+            if (error instanceof RequestCancelledError) return;
+            // console.error('Failed to analyze note:', error);
+            new Notice('Failed to analyze note. Please check console for details.', 4000);
+        }
+    }
+
+    /**
+     * Cancels the running analysis: stops the tagging job after the notes in progress
+     * and aborts the requests that are waiting for the LLM
+     */
+    public cancelAnalysis(): void {
+        let cancelledRequests = this.llmService.cancelActiveRequests();
+        this.profileServices.forEach(service => cancelledRequests += service.cancelActiveRequests());
+        this.folderRuleServices.forEach(service => cancelledRequests += service.cancelActiveRequests());
+        if (!this.isTaggingJobRunning && cancelledRequests === 0) {
+            new Notice(this.t.messages.noAnalysisRunning, 3000);
+            return;
+        }
+
+        if (this.isTaggingJobRunning) {
+            this.analysisCancelled = true;
+        }
+        new Notice(this.t.messages.analysisCancelled, 3000);
+    }
+
+    /**
+     * Runs an analysis while a notice shows the tags received so far
+     * @param analyze Analysis to run with the options that update the notice
+     * @returns Result of the analysis
+     */
+    public async withPartialTagsNotice<T>(analyze: (options: AnalyzeOptions) => Promise<T>): Promise<T> {
+        const notice = new Notice(this.t.messages.analyzing, 0);
+        try {
+            return await analyze({
+                onPartialTags: tags => {
+                    if (tags.length > 0) {
+                        notice.setMessage(this.t.messages.partialTags.replace('{tags}', tags.map(tag => `#${tag}`).join(' ')));
+                    }
+                }
+            });
+        } finally {
+            notice.hide();
+        }
+    }
+
+    /**
+     * Processes the pending files of the stored tagging job
+     */
+    public async runTaggingJob(): Promise<void> {
+        const job = this.taggingQueue.getJob();
+        if (!job || !this.taggingQueue.hasUnfinishedJob()) {
+            new Notice(this.t.taggingQueue.noJob, 3000);
+            return;
+        }
+        if (this.isTaggingJobRunning) {
+            new Notice(this.t.taggingQueue.alreadyRunning, 3000);
+            return;
+        }
+
+        this.isTaggingJobRunning = true;
+        this.analysisCancelled = false;
+        this.runFailovers = [];
+        this.usageRun = { id: job.id, label: job.label };
+        const pending = job.files.filter(entry => entry.status === 'pending');
+        const statusNotice = new Notice(`Analyzing ${pending.length} files...`, 0);
         
         try {
             let processed = 0, successful = 0;
             let lastNotice = Date.now();
 
-            for (const file of files) {
+            // Notes count against the limit of the provider that analyzes them, which folder rules can change
+            const entryProviders = new Map(pending.map(entry => {
+                const file = this.app.vault.getAbstractFileByPath(entry.path);
+                return [entry, (file instanceof TFile ? this.getNoteProviderInfo(file) : this.getProviderInfo()).provider];
+            }));
+            const providerSlots = new KeyedSemaphore(provider => this.getRequestConcurrency(provider));
+
+            // Enough workers to fill every provider's limit; reviewing happens one note at a time
+            const concurrency = this.mayReviewTags() ? 1 : [...new Set(entryProviders.values())]
+                .reduce((total, provider) => total + this.getRequestConcurrency(provider), 0);
+            let stopped = false;
+            let unchanged = 0;
+            const skipUnchanged = this.settings.skipUnchangedNotes && !job.force;
+            const batch = createTagBatch(job.label);
+
+            const processEntry = async (entry: TaggingJobFile): Promise<void> => {
                 try {
+                    const file = this.app.vault.getAbstractFileByPath(entry.path);
+                    if (!(file instanceof TFile)) {
+                        this.taggingQueue.setStatus(entry, 'skipped', 'File not found');
+                        return;
+                    }
+                    if (DryRunReport.isReport(this.app, file)) {
+                        this.taggingQueue.setStatus(entry, 'skipped');
+                        return;
+                    }
+
                     const content = await this.app.vault.read(file);
-                    if (!content.trim()) continue;
+                    if (!content.trim()) {
+                        this.taggingQueue.setStatus(entry, 'skipped', 'Empty note');
+                        return;
+                    }
+                    if (skipUnchanged && this.noteFingerprints.isUnchanged(file.path, content, this.getTaggingFingerprint(file))) {
+                        this.taggingQueue.setStatus(entry, 'skipped', 'Unchanged since last tagged');
+                        unchanged++;
+                        return;
+                    }
                     
                     // Use the unified method to analyze and tag
-                    const result = await this.analyzeAndTagNote(file, content);
-                    
-                    result.success && successful++;
+                    const result = await providerSlots.run(entryProviders.get(entry) ?? this.getProviderInfo().provider, () =>
+                        this.analyzeAndTagNote(file, content, {
+                            current: job.files.indexOf(entry) + 1,
+                            total: job.files.length
+                        }, false, batch)
+                    );
+
+                    // Stopping the review leaves the remaining files pending
+                    if (result.reviewAction === 'cancel') {
+                        stopped = true;
+                        return;
+                    }
+
+                    if (result.reviewAction === 'skip') {
+                        this.taggingQueue.setStatus(entry, 'skipped');
+                    } else if (result.success) {
+                        this.taggingQueue.setStatus(entry, 'done');
+                        successful++;
+                    } else {
+                        this.taggingQueue.setStatus(entry, 'failed', result.message);
+                    }
                     this.handleTagUpdateResult(result, true); // Silent mode
                     processed++;
 
                     // Update progress every 15 seconds
                     if (Date.now() - lastNotice >= 15000) {
-                        new Notice(`Progress: ${processed}/${files.length} files processed`, 3000);
+                        new Notice(`Progress: ${processed}/${pending.length} files processed`, 3000);
                         lastNotice = Date.now();
                     }
                 } catch (error) {
-                    //console.error(`Error processing ${file.path}:`, error);
-                    new Notice(`Error processing ${file.path}`, 4000);
+                    // Cancelled notes stay pending so the job can be resumed
+                    if (error instanceof RequestCancelledError) return;
+                    //console.error(`Error processing ${entry.path}:`, error);
+                    this.taggingQueue.setStatus(entry, 'failed', error instanceof Error ? error.message : 'Unknown error');
                 }
+            };
+
+            await runWithConcurrency(pending, concurrency, processEntry, () => stopped || this.analysisCancelled);
+
+            if (this.analysisCancelled) {
+                new Notice(this.t.taggingQueue.cancelled.replace('{count}', String(successful)), 4000);
+            } else if (stopped) {
+                new Notice(this.t.tagReview.stopped.replace('{count}', String(successful)), 4000);
             }
 
-            new Notice(`Successfully tagged ${successful} out of ${files.length} files`, 4000);
+            if (!stopped && !this.analysisCancelled) {
+                new Notice(
+                    this.t.taggingQueue.finished
+                        .replace('{done}', String(successful))
+                        .replace('{total}', String(pending.length))
+                        .replace('{failed}', String(this.taggingQueue.getCount('failed')))
+                        .replace('{skipped}', String(this.taggingQueue.getCount('skipped'))),
+                    5000
+                );
+                if (unchanged > 0) {
+                    new Notice(this.t.taggingQueue.skippedUnchanged.replace('{count}', String(unchanged)), 5000);
+                }
+            }
+
+            // Failures are listed in job order, however the requests finished
+            const failed = pending.filter(entry => entry.status === 'failed');
+            if (failed.length > 0) {
+                const lines = failed.slice(0, 10).map(entry => `${entry.path}: ${entry.error ?? 'Unknown error'}`);
+                if (failed.length > lines.length) {
+                    lines.push(`... (+${failed.length - lines.length})`);
+                }
+                new Notice(this.t.taggingQueue.failedFiles.replace('{files}', lines.join('\n')), 8000);
+            }
         } catch (error) {
             // console.error('Batch processing failed:', error);
             new Notice('Failed to complete batch processing', 4000);
         } finally {
+            this.showFailoverSummary(this.runFailovers);
+            this.runFailovers = null;
+            this.usageRun = null;
+            this.isTaggingJobRunning = false;
+            this.analysisCancelled = false;
+            statusNotice.hide();
+        }
+    }
+
+    /**
+     * Asks whether to resume a job left unfinished by the previous session
+     */
+    private async offerToResumeTaggingJob(): Promise<void> {
+        const job = this.taggingQueue.getJob();
+        if (!job || !this.taggingQueue.hasUnfinishedJob()) return;
+
+        const confirmed = await this.showConfirmationDialog(
+            this.t.taggingQueue.resumePrompt
+                .replace('{label}', job.label)
+                .replace('{count}', String(this.taggingQueue.getCount('pending')))
+                .replace('{total}', String(job.files.length))
+        );
+        if (confirmed) {
+            await this.runTaggingJob();
+        }
+    }
+
+    /**
+     * Runs the full analysis on the files without writing anything and saves a report note
+     * @param files Files to analyze
+     * @param scope Description of the run shown in the report
+     */
+    public async dryRunTagFiles(files: TFile[], scope: string): Promise<void> {
+        if (!files?.length) return;
+
+        const statusNotice = new Notice(this.t.dryRun.analyzing.replace('{count}', String(files.length)), 0);
+        const entries: DryRunEntry[] = [];
+        let lastNotice = Date.now();
+        const previousUsageRun = this.usageRun;
+        this.usageRun = { id: crypto.randomUUID(), label: `Dry run: ${scope}` };
+
+        try {
+            for (const [index, file] of files.entries()) {
+                if (DryRunReport.isReport(this.app, file)) continue;
+
+                const content = await this.app.vault.read(file);
+                if (!content.trim()) continue;
+
+                const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter ?? null;
+                const currentTags = TagUtils.getExistingTags(frontmatter);
+
+                try {
+                    const tagging = this.getTaggingSettings(file);
+                    const analysis = await this.analyzeNote(file, content.trim(), tagging);
+                    const { suggestedTags, matchedTags, lowConfidenceTags } = this.getTagsFromAnalysis(analysis, tagging.settings);
+                    const formatted = TagUtils.formatTags([...suggestedTags, ...matchedTags], false, tagging.settings.tagFormat);
+                    // A real run would ask about these in the review modal instead of writing them
+                    const heldTags = this.settings.lowConfidenceAction === 'review'
+                        ? TagUtils.formatTags(lowConfidenceTags, false, tagging.settings.tagFormat)
+                        : [];
+
+                    // Mirror what updateNoteTags would write; no tags means the note is left unchanged
+                    let proposedTags = currentTags;
+                    if (formatted.length > 0) {
+                        proposedTags = this.settings.replaceTags
+                            ? formatted
+                            : TagUtils.mergeTags(currentTags, formatted);
+                    }
+                    entries.push({ path: file.path, currentTags, proposedTags, heldTags });
+                } catch (error) {
+                    if (error instanceof RequestCancelledError) throw error;
+                    entries.push({
+                        path: file.path,
+                        currentTags,
+                        proposedTags: [],
+                        error: error instanceof Error ? error.message : 'Unknown error'
+                    });
+                }
+
+                if (Date.now() - lastNotice >= 15000) {
+                    new Notice(`Progress: ${index + 1}/${files.length} files processed`, 3000);
+                    lastNotice = Date.now();
+                }
+            }
+
+            const createdAt = new Date();
+            const { provider, model } = this.getProviderInfo();
+            const report = DryRunReport.build(entries, {
+                scope,
+                createdAt,
+                provider,
+                model,
+                taggingMode: this.settings.taggingMode,
+                replaceTags: this.settings.replaceTags
+            });
+            const reportFile = await DryRunReport.save(this.app, this.settings.dryRunReportFolder, report, createdAt);
+
+            const changed = entries.filter(entry => !entry.error && DryRunReport.hasChanges(entry)).length;
+            new Notice(this.t.dryRun.reportCreated.replace('{count}', String(changed)).replace('{path}', reportFile.path), 5000);
+            await this.app.workspace.getLeaf(true).openFile(reportFile);
+        } catch (error) {
+            new Notice(`${this.t.dryRun.failed}: ${error instanceof Error ? error.message : 'Unknown error'}`, 4000);
+        } finally {
+            this.usageRun = previousUsageRun;
             statusNotice.hide();
         }
     }
 
+    /**
+     * Writes the proposed tags from a dry-run report without calling the LLM.
+     * Notes whose tags changed since the report was made are skipped.
+     * @param reportFile Report note created by dryRunTagFiles
+     */
+    public async applyDryRunReport(reportFile: TFile): Promise<void> {
+        const content = await this.app.vault.read(reportFile);
+        const entries = DryRunReport.parse(content)
+            .filter(entry => entry.proposedTags.length > 0 && DryRunReport.hasChanges(entry));
+
+        if (entries.length === 0) {
+            new Notice(this.t.dryRun.nothingToApply, 3000);
+            return;
+        }
+
+        const confirmed = await this.showConfirmationDialog(
+            this.t.dryRun.applyConfirm.replace('{count}', String(entries.length))
+        );
+        if (!confirmed) {
+            new Notice(this.t.messages.operationCancelled);
+            return;
+        }
+
+        const frontmatter = this.app.metadataCache.getFileCache(reportFile)?.frontmatter;
+        const context: TagChangeContext = {
+            ...createTagBatch(`Apply dry-run report: ${reportFile.basename}`),
+            operation: 'ai-tag',
+            provider: frontmatter?.provider,
+            model: frontmatter?.model
+        };
+
+        let applied = 0, stale = 0, failed = 0;
+        for (const entry of entries) {
+            const file = this.app.vault.getAbstractFileByPath(entry.path);
+            if (!(file instanceof TFile)) {
+                failed++;
+                continue;
+            }
+
+            const cache = this.app.metadataCache.getFileCache(file);
+            const currentTags = TagUtils.getExistingTags(cache?.frontmatter ?? null);
+            if (DryRunReport.hasChanges({ path: entry.path, currentTags, proposedTags: entry.currentTags })) {
+                stale++;
+                continue;
+            }
+
+            // Proposed tags are already formatted and merged, write them as they are
+            const result = await TagUtils.setNoteTags(this.app, file, entry.proposedTags, context);
+            result.success ? applied++ : failed++;
+        }
+
+        this.app.workspace.trigger('layout-change');
+        new Notice(
+            this.t.dryRun.applied
+                .replace('{applied}', String(applied))
+                .replace('{stale}', String(stale))
+                .replace('{failed}', String(failed)),
+            5000
+        );
+    }
+
     private calculateMaxTags(): number {
         switch (this.settings.taggingMode) {
             case TaggingMode.PredefinedTags:
+            case TaggingMode.Embedding:
                 return this.settings.tagRangePredefinedMax;
             case TaggingMode.Hybrid:
                 return this.settings.tagRangePredefinedMax + this.settings.tagRangeGenerateMax;
@@ -393,22 +1388,7 @@ export default class AITaggerPlugin extends Plugin {
             return;
         }
 
-        const content = await this.app.vault.read(activeFile);
-        if (!content.trim()) {
-            new Notice('Cannot analyze empty note', 3000);
-            return;
-        }
-
-        try {
-            // Use the unified method to analyze and tag
-            const result = await this.analyzeAndTagNote(activeFile, content);
-            
-            // Process the result
-            this.handleTagUpdateResult(result);
-        } catch (error) {
-            // console.error('Failed to analyze note:', error);
-            new Notice('Failed to analyze note. Please check console for details.', 4000);
-        }
+        await this.analyzeAndTagFile(activeFile);
     }
 
     /**
@@ -448,16 +1428,253 @@ export default class AITaggerPlugin extends Plugin {
         return { tags: allTags };
     }
 
+    /**
+     * Runs the LLM on note content using the configured tagging mode
+     * @param content Content to analyze (must not be empty)
+     * @param options Optional progress callbacks passed to the LLM service
+     * @param service Service to analyze with; the active provider by default
+     * @param settings Settings to analyze with; the global settings by default
+     * @returns Raw analysis result
+     */
+    public async analyzeContent(
+        content: string,
+        options?: AnalyzeOptions,
+        service: LLMService = this.llmService,
+        settings: AITaggerSettings = this.settings
+    ): Promise<LLMResponse> {
+        // Prompts are built from the given settings, which may be a folder rule's
+        options = { ...options, settings };
+
+        // Analyze based on the configured tagging mode
+        switch (settings.taggingMode) {
+            case TaggingMode.GenerateNew:
+                return await service.analyzeTags(
+                    content,
+                    [], // Empty array, generate tags purely based on content
+                    TaggingMode.GenerateNew,
+                    settings.tagRangeGenerateMax,
+                    settings.language,
+                    options
+                );
+
+            case TaggingMode.PredefinedTags:
+                // Get candidate tags (from file or vault)
+                const predefinedTags = settings.tagSourceType === 'file'
+                    ? await TagUtils.getTagsFromFile(this.app, settings.predefinedTagsPath) || []
+                    : TagUtils.getAllTags(this.app);
+
+                if (!predefinedTags.length) {
+                    throw new Error('No predefined tags available');
+                }
+
+                return await service.analyzeTags(
+                    content,
+                    predefinedTags,
+                    TaggingMode.PredefinedTags,
+                    settings.tagRangePredefinedMax,
+                    undefined,
+                    options
+                );
+
+            case TaggingMode.Hybrid:
+                // Get candidate tags (from file or vault)
+                const hybridPredefinedTags = settings.tagSourceType === 'file'
+                    ? await TagUtils.getTagsFromFile(this.app, settings.predefinedTagsPath) || []
+                    : TagUtils.getAllTags(this.app);
+
+                const hybridResult = await service.analyzeTags(
+                    content,
+                    hybridPredefinedTags,
+                    TaggingMode.Hybrid,
+                    Math.max(settings.tagRangeGenerateMax, settings.tagRangePredefinedMax),
+                    settings.language,
+                    options
+                );
+
+                // Hold each part of the result to its own limit
+                return {
+                    ...hybridResult,
+                    matchedExistingTags: (hybridResult.matchedExistingTags || []).slice(0, settings.tagRangePredefinedMax),
+                    suggestedTags: hybridResult.suggestedTags.slice(0, settings.tagRangeGenerateMax)
+                };
+
+            case TaggingMode.Custom:
+                // Get candidate tags (from file or vault)
+                const customPredefinedTags = settings.tagSourceType === 'file'
+                    ? await TagUtils.getTagsFromFile(this.app, settings.predefinedTagsPath) || []
+                    : TagUtils.getAllTags(this.app);
+
+                return await service.analyzeTags(
+                    content,
+                    customPredefinedTags,
+                    TaggingMode.Custom,
+                    Math.max(settings.tagRangeGenerateMax, settings.tagRangePredefinedMax),
+                    settings.language,
+                    options
+                );
+
+            case TaggingMode.Embedding:
+                return await this.analyzeWithEmbeddings(content, options, settings);
+
+            default:
+                throw new Error(`Unsupported tagging mode: ${settings.taggingMode}`);
+        }
+    }
+
+    /**
+     * Matches predefined tags to a note by embedding similarity, without a chat-completion request.
+     * Tags are embedded once and kept in the plugin data; only the note is embedded on each run.
+     * @param content Content to analyze
+     * @param options Receives the token counts and the audit log records of the embeddings requests
+     * @param settings Settings to match with
+     * @returns Predefined tags above the similarity threshold, most similar first
+     */
+    private async analyzeWithEmbeddings(content: string, options: AnalyzeOptions | undefined, settings: AITaggerSettings): Promise<LLMResponse> {
+        const tags: TagDescription[] = settings.tagSourceType === 'file'
+            ? await TagUtils.getTagDescriptionsFromFile(this.app, settings.predefinedTagsPath) || []
+            : TagUtils.getAllTags(this.app).map(tag => ({ tag }));
+        if (!tags.length) {
+            throw new Error('No predefined tags available');
+        }
+
+        const model = this.settings.embeddingModel.trim();
+        const source: ProviderInfo = { provider: 'embeddings', model };
+        const service = new EmbeddingService({
+            endpoint: this.settings.embeddingEndpoint,
+            apiKey: this.settings.embeddingApiKey,
+            model,
+            requestTimeout: this.settings.requestTimeout
+        });
+        // Embeddings requests are audit logged like tag requests; only the note's request gives tags
+        const logRequest = (texts: string[], tags: string[], error?: unknown): void => {
+            options?.onRequest?.({
+                endpoint: this.settings.embeddingEndpoint,
+                model,
+                prompt: texts.join('\n'),
+                status: error === undefined ? 'success' : 'error',
+                httpStatus: error instanceof LLMRequestError ? error.status : undefined,
+                error: error === undefined ? undefined : error instanceof Error ? error.message : String(error),
+                tags
+            }, source);
+        };
+        const embed = async (texts: string[]): Promise<number[][]> => {
+            let result: Awaited<ReturnType<EmbeddingService['embed']>>;
+            try {
+                result = await service.embed(texts);
+            } catch (error) {
+                logRequest(texts, [], error);
+                throw error;
+            }
+            options?.onUsage?.({
+                promptTokens: result.promptTokens ?? texts.reduce((total, text) => total + estimateTokens(text), 0),
+                completionTokens: 0,
+                estimated: result.promptTokens === null
+            }, source);
+            return result.vectors;
+        };
+
+        const tagVectors = await this.tagEmbeddings.getVectors(model, tags, async texts => {
+            new Notice(this.t.messages.embeddingTags.replace('{count}', String(texts.length)), 3000);
+            const vectors = await embed(texts);
+            logRequest(texts, []);
+            return vectors;
+        });
+        const contextWindow = findContextWindow(this.settings.modelContextWindows, model) ?? LLM_SERVICE_CONFIG.DEFAULT_CONTEXT_WINDOW;
+        const noteText = truncateToTokens(
+            content,
+            this.settings.maxContentTokens > 0 ? Math.min(this.settings.maxContentTokens, contextWindow) : contextWindow
+        );
+        const [noteVector] = await embed([noteText]);
+
+        const matches = rankTagsBySimilarity(
+            noteVector,
+            tagVectors,
+            settings.embeddingThreshold,
+            settings.tagRangePredefinedMax
+        );
+        if (this.settings.debugMode) {
+            console.log('[AI Tagger Debug] Embedding matches:', matches);
+        }
+        logRequest([noteText], matches.map(match => match.tag));
+
+        return { matchedExistingTags: matches.map(match => match.tag), suggestedTags: [], source };
+    }
+
+    /**
+     * Picks the tags to use from an analysis result based on the tagging mode
+     * @param analysis LLM analysis result
+     * @param settings Settings the note was analyzed with; the global settings by default
+     * @returns New and matched tags
+     */
+    public getTagsFromAnalysis(analysis: LLMResponse, settings: AITaggerSettings = this.settings): { suggestedTags: string[]; matchedTags: string[]; lowConfidenceTags: string[] } {
+        let suggestedTags = analysis.suggestedTags || [];
+        let matchedTags = analysis.matchedExistingTags || [];
+        if (settings.taggingMode === TaggingMode.PredefinedTags || settings.taggingMode === TaggingMode.Embedding) {
+            suggestedTags = [];
+        } else if (settings.taggingMode === TaggingMode.GenerateNew) {
+            matchedTags = [];
+        }
+        // Hybrid mode combines both types of tags
+
+        const suggested = this.partitionByConfidence(suggestedTags, analysis.confidence);
+        const matched = this.partitionByConfidence(matchedTags, analysis.confidence);
+        return {
+            suggestedTags: suggested.confident,
+            matchedTags: matched.confident,
+            lowConfidenceTags: [...matched.lowConfidence, ...suggested.lowConfidence]
+        };
+    }
+
+    /**
+     * Separates tags scored below the confidence threshold; tags without a score are kept
+     * @param tags Tags to check
+     * @param confidence Confidence reported by the model, keyed by tag
+     * @returns Tags at or above the threshold, and the ones below it
+     */
+    public partitionByConfidence(tags: string[], confidence?: Record<string, number>): { confident: string[]; lowConfidence: string[] } {
+        const threshold = this.settings.confidenceThreshold;
+        const confident: string[] = [];
+        const lowConfidence: string[] = [];
+        for (const tag of tags) {
+            const score = confidence?.[tag];
+            if (threshold > 0 && score !== undefined && score < threshold) {
+                lowConfidence.push(tag);
+            } else {
+                confident.push(tag);
+            }
+        }
+        return { confident, lowConfidence };
+    }
+
+    /**
+     * Checks whether tagging a note may open the review modal
+     */
+    public mayReviewTags(): boolean {
+        return this.settings.reviewBeforeApply ||
+            (this.settings.confidenceThreshold > 0 && this.settings.lowConfidenceAction === 'review');
+    }
+
     /**
      * Analyzes note content and applies tags
      * Supports receiving direct analysis results or analyzing based on content
      * @param file Target file
      * @param contentOrAnalysis File content or existing analysis result
+     * @param reviewProgress Position of the note in a batch run, shown in the review modal
+     * @param showProgress Show the tags received so far in a notice while the note is analyzed
+     * @param batch Journal batch the write belongs to
      * @returns Tag operation result
+     * @throws RequestCancelledError if the analysis was cancelled
      */
-    public async analyzeAndTagNote(file: TFile, contentOrAnalysis: string | LLMResponse): Promise<TagOperationResult> {
+    public async analyzeAndTagNote(
+        file: TFile,
+        contentOrAnalysis: string | LLMResponse,
+        reviewProgress?: TagReviewProgress,
+        showProgress = false,
+        batch?: TagChangeContext
+    ): Promise<NoteTaggingResult> {
         try {
             let analysis: LLMResponse;
+            const tagging = this.getTaggingSettings(file);
             
             // Determine parameter type
             if (typeof contentOrAnalysis === 'string') {
@@ -469,75 +1686,7 @@ export default class AITaggerPlugin extends Plugin {
                     };
                 }
                 
-                // Analyze based on the configured tagging mode
-                switch (this.settings.taggingMode) {
-                    case TaggingMode.GenerateNew:
-                        analysis = await this.llmService.analyzeTags(
-                            content,
-                            [], // Empty array, generate tags purely based on content
-                            TaggingMode.GenerateNew,
-                            this.settings.tagRangeGenerateMax,
-                            this.settings.language
-                        );
-                        break;
-                    
-                    case TaggingMode.PredefinedTags:
-                        // Get candidate tags (from file or vault)
-                        const predefinedTags = this.settings.tagSourceType === 'file'
-                            ? await TagUtils.getTagsFromFile(this.app, this.settings.predefinedTagsPath) || []
-                            : TagUtils.getAllTags(this.app);
-                        
-                        if (!predefinedTags.length) {
-                            return {
-                                success: false,
-                                message: 'No predefined tags available'
-                            };
-                        }
-                        
-                        analysis = await this.llmService.analyzeTags(
-                            content,
-                            predefinedTags,
-                            TaggingMode.PredefinedTags,
-                            this.settings.tagRangePredefinedMax
-                        );
-                        break;
-
-                    case TaggingMode.Hybrid:
-                        // Get candidate tags (from file or vault)
-                        const hybridPredefinedTags = this.settings.tagSourceType === 'file'
-                            ? await TagUtils.getTagsFromFile(this.app, this.settings.predefinedTagsPath) || []
-                            : TagUtils.getAllTags(this.app);
-                        
-                        analysis = await this.llmService.analyzeTags(
-                            content,
-                            hybridPredefinedTags,
-                            TaggingMode.Hybrid, 
-                            Math.max(this.settings.tagRangeGenerateMax, this.settings.tagRangePredefinedMax),
-                            this.settings.language
-                        );
-                        break;
-                    
-                    case TaggingMode.Custom:
-                        // Get candidate tags (from file or vault)
-                        const customPredefinedTags = this.settings.tagSourceType === 'file'
-                            ? await TagUtils.getTagsFromFile(this.app, this.settings.predefinedTagsPath) || []
-                            : TagUtils.getAllTags(this.app);
-                        
-                        analysis = await this.llmService.analyzeTags(
-                            content,
-                            customPredefinedTags,
-                            TaggingMode.Custom, 
-                            Math.max(this.settings.tagRangeGenerateMax, this.settings.tagRangePredefinedMax),
-                            this.settings.language
-                        );
-                        break;
-                    
-                    default:
-                        return {
-                            success: false,
-                            message: `Unsupported tagging mode: ${this.settings.taggingMode}`
-                        };
-                }
+                analysis = await this.analyzeNote(file, content, tagging, showProgress);
             } else {
                 // Use the provided analysis result directly
                 analysis = contentOrAnalysis;
@@ -552,17 +1701,39 @@ export default class AITaggerPlugin extends Plugin {
             }
             
             // Process and combine tags based on tagging mode
-            let allTags: string[] = [];
+            const { suggestedTags, matchedTags, lowConfidenceTags } = this.getTagsFromAnalysis(analysis, tagging.settings);
+            let allTags = [...suggestedTags, ...matchedTags];
 
-            if (this.settings.taggingMode === TaggingMode.PredefinedTags) {
-                allTags = analysis.matchedExistingTags || [];
-            } else if (this.settings.taggingMode === TaggingMode.GenerateNew) {
-                allTags = analysis.suggestedTags || [];
-            } else {
-                // Hybrid mode, combine both types of tags
-                const suggestedTags = analysis.suggestedTags || [];
-                const matchedTags = analysis.matchedExistingTags || [];
-                allTags = [...suggestedTags, ...matchedTags];
+            if (this.settings.debugMode && lowConfidenceTags.length > 0) {
+                console.log(`[AI Tagger Debug] Tags below confidence threshold:`, lowConfidenceTags);
+            }
+            const holdForReview = this.settings.lowConfidenceAction === 'review' && lowConfidenceTags.length > 0;
+
+            // Let the user confirm or adjust the suggestions before writing
+            if ((this.settings.reviewBeforeApply && allTags.length > 0) || holdForReview) {
+                const review = await this.reviewTagSuggestions(
+                    file,
+                    suggestedTags,
+                    matchedTags,
+                    reviewProgress,
+                    holdForReview ? lowConfidenceTags : [],
+                    analysis.confidence
+                );
+                if (review.action !== 'apply') {
+                    return {
+                        success: false,
+                        message: this.t.tagReview.skipped.replace('{file}', file.basename),
+                        reviewAction: review.action
+                    };
+                }
+                if (review.tags.length === 0) {
+                    return {
+                        success: false,
+                        message: this.t.tagReview.noTagsSelected,
+                        reviewAction: review.action
+                    };
+                }
+                allTags = review.tags;
             }
 
             if (this.settings.debugMode) {
@@ -571,20 +1742,28 @@ export default class AITaggerPlugin extends Plugin {
 
             // If there are tags to add, update the note
             if (allTags.length > 0) {
-                const result = await TagUtils.updateNoteTags(
+                const result = await this.fileLocks.run(file.path, () => TagUtils.updateNoteTags(
                     this.app,
                     file,
                     allTags,
                     [], // No matched tags since we've already combined them
                     false, // Show notifications
                     this.settings.replaceTags, // Always use the setting value
-                    this.settings.tagFormat // Tag format style
-                );
+                    tagging.settings.tagFormat, // Tag format style
+                    { ...batch, operation: 'ai-tag', ...(analysis.source ?? this.getProviderInfo()) }
+                ));
 
                 if (this.settings.debugMode) {
                     console.log(`[AI Tagger Debug] Result from updateNoteTags:`, result);
                 }
 
+                if (result.success) {
+                    this.recordTagRationale(file, allTags, analysis, tagging.settings.tagFormat);
+                }
+                if (result.success && typeof contentOrAnalysis === 'string') {
+                    this.noteFingerprints.record(file.path, contentOrAnalysis, this.getTaggingFingerprint(file));
+                }
+
                 return result;
             }
             
@@ -594,6 +1773,7 @@ export default class AITaggerPlugin extends Plugin {
                 message: 'No valid tags were found or generated'
             };
         } catch (error) {
+            if (error instanceof RequestCancelledError) throw error;
             // console.error('Error tagging note:', error);
             return {
                 success: false,
@@ -1,7 +1,10 @@
 import { BaseLLMService } from "../baseService";
-import { AdapterConfig, LLMServiceProvider } from "./types";
+import { AdapterConfig, LLMServiceProvider, ModelInfo } from "./types";
 import { SYSTEM_PROMPT } from "../../utils/constants";
 import { TaggingMode } from "../prompts/types";
+import { StreamFormat } from "../streaming";
+import { TagResponseSchema } from "../types";
+import { ReportedUsage, parseUsage } from "../usage";
 
 export abstract class BaseAdapter extends BaseLLMService {
     protected config: AdapterConfig;
@@ -190,6 +193,24 @@ export abstract class BaseAdapter extends BaseLLMService {
         throw new Error('BaseAdapter.makeRequest should not be called directly. Use CloudLLMService instead.');
     }
 
+    /**
+     * Gets the server-sent event format of streamed responses
+     * @returns Stream format, or null if streaming is not supported for this provider
+     */
+    getStreamFormat(): StreamFormat | null {
+        return null;
+    }
+
+    /**
+     * Adds the provider's structured-output options to a request body
+     * @param body - Request body from formatRequest, changed in place
+     * @param schema - Schema the response should follow
+     * @returns Whether the provider supports structured output
+     */
+    applyResponseSchema(body: Record<string, any>, schema: TagResponseSchema): boolean {
+        return false;
+    }
+
     getEndpoint(): string {
         return this.config.endpoint ?? "";
     }
@@ -200,6 +221,40 @@ export abstract class BaseAdapter extends BaseLLMService {
         };
     }
 
+    /**
+     * Gets the endpoint that lists the provider's models.
+     * OpenAI-style providers list them at `/models` next to `/chat/completions`.
+     * @returns URL, or null if the provider has no model list
+     */
+    getModelsEndpoint(): string | null {
+        const endpoint = this.getEndpoint().replace(/\/+$/, '');
+        return /\/chat\/completions$/.test(endpoint)
+            ? endpoint.replace(/\/chat\/completions$/, '/models')
+            : null;
+    }
+
+    getModelsHeaders(): Record<string, string> {
+        return this.getHeaders();
+    }
+
+    /**
+     * Reads the models from a model list response in the OpenAI format,
+     * with the context window fields of OpenRouter, Groq and Mistral
+     * @param response The parsed response body
+     * @returns Listed models
+     */
+    public parseModelList(response: any): ModelInfo[] {
+        const models: any[] = Array.isArray(response?.data) ? response.data : [];
+        return models
+            .filter(model => typeof model?.id === 'string')
+            .map(model => ({
+                id: model.id,
+                name: typeof model.display_name === 'string' ? model.display_name :
+                    typeof model.name === 'string' ? model.name : undefined,
+                contextWindow: toContextWindow(model.context_length ?? model.context_window ?? model.max_context_length)
+            }));
+    }
+
     protected extractJsonFromContent(content: string): any {
         try {
             const jsonMatch = content.match(/```(?:json)?\s*(\{[\s\S]*?\})\s*```/);
@@ -245,6 +300,35 @@ export abstract class BaseAdapter extends BaseLLMService {
         }
     }
 
+    /**
+     * Extracts the error message from a cloud provider error response
+     * @param response The parsed error body
+     * @returns The message, or null if the body has none
+     */
+    public parseErrorMessage(response: any): string | null {
+        let message: unknown = response;
+        if (this.provider?.responseFormat?.errorPath?.length) {
+            for (const key of this.provider.responseFormat.errorPath) {
+                if (!message || typeof message !== 'object') {
+                    break;
+                }
+                message = message[key as keyof typeof message];
+            }
+        } else {
+            message = response?.error?.message || response?.message;
+        }
+        return typeof message === 'string' && message ? message : null;
+    }
+
+    /**
+     * Reads the token counts from a cloud provider response
+     * @param response The response object from the cloud provider
+     * @returns Reported counts, or null if the response has none
+     */
+    public parseUsage(response: any): ReportedUsage | null {
+        return parseUsage(response);
+    }
+
     /**
      * Sends a request to the LLM service
      * Abstract method implementation required by BaseLLMService
@@ -256,3 +340,11 @@ export abstract class BaseAdapter extends BaseLLMService {
         return this.parseResponseContent(response);
     }
 }
+
+/**
+ * Reads a context window size from a model list entry
+ * @returns Size in tokens, or undefined if the value is not a positive number
+ */
+export function toContextWindow(value: unknown): number | undefined {
+    return typeof value === 'number' && value > 0 ? value : undefined;
+}
@@ -1,4 +1,6 @@
 import { BaseAdapter } from './baseAdapter';
+import { StreamFormat } from '../streaming';
+import { TagResponseSchema } from '../types';
 import { AdapterConfig } from './types';
 import * as endpoints from './cloudEndpoints.json';
 import { SYSTEM_PROMPT } from '../../utils/constants';
@@ -50,6 +52,32 @@ export class ClaudeAdapter extends BaseAdapter {
         };
     }
 
+    /**
+     * Claude has no response schema option; forcing a tool call whose input is the schema has the same effect
+     */
+    applyResponseSchema(body: Record<string, any>, schema: TagResponseSchema): boolean {
+        body.tools = [{
+            name: schema.name,
+            description: 'Records the tags for the document',
+            input_schema: schema.schema
+        }];
+        body.tool_choice = { type: 'tool', name: schema.name };
+        return true;
+    }
+
+    /**
+     * Returns the tool input as JSON for tool-use responses, and the text otherwise
+     */
+    public parseResponseContent(response: any): string {
+        const toolUse = Array.isArray(response?.content)
+            ? response.content.find((block: any) => block?.type === 'tool_use')
+            : undefined;
+        if (toolUse?.input) {
+            return JSON.stringify(toolUse.input);
+        }
+        return super.parseResponseContent(response);
+    }
+
     getHeaders(): Record<string, string> {
         if (!this.config.apiKey) {
             throw new Error('API key is required for Claude');
@@ -61,4 +89,15 @@ export class ClaudeAdapter extends BaseAdapter {
             'x-api-key': this.config.apiKey
         };
     }
+
+    getStreamFormat(): StreamFormat | null {
+        return 'claude';
+    }
+
+    getModelsEndpoint(): string | null {
+        const endpoint = this.getEndpoint().replace(/\/+$/, '');
+        return /\/v1\/messages$/.test(endpoint)
+            ? endpoint.replace(/\/v1\/messages$/, '/v1/models?limit=1000')
+            : null;
+    }
 }
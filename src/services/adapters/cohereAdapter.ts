@@ -1,5 +1,5 @@
-import { BaseAdapter } from './baseAdapter';
-import { BaseResponse, RequestBody, AdapterConfig } from './types';
+import { BaseAdapter, toContextWindow } from './baseAdapter';
+import { BaseResponse, RequestBody, AdapterConfig, ModelInfo } from './types';
 import * as endpoints from './cloudEndpoints.json';
 
 export class CohereAdapter extends BaseAdapter {
@@ -93,4 +93,19 @@ export class CohereAdapter extends BaseAdapter {
             'Accept': 'application/json'
         };
     }
+
+    // Only models that support the chat endpoint can be used for tagging
+    getModelsEndpoint(): string | null {
+        const endpoint = this.getEndpoint().replace(/\/+$/, '');
+        return /\/v\d+\/chat$/.test(endpoint)
+            ? endpoint.replace(/\/v\d+\/chat$/, '/v1/models?endpoint=chat&page_size=1000')
+            : null;
+    }
+
+    public parseModelList(response: any): ModelInfo[] {
+        const models: any[] = Array.isArray(response?.models) ? response.models : [];
+        return models
+            .filter(model => typeof model?.name === 'string')
+            .map(model => ({ id: model.name, contextWindow: toContextWindow(model.context_length) }));
+    }
 }
@@ -0,0 +1,160 @@
+import { BaseAdapter } from './baseAdapter';
+import { AdapterConfig, CustomProviderDefinition } from './types';
+import { SYSTEM_PROMPT } from '../../utils/constants';
+
+/**
+ * Reads a response path written either as an array or as dot-separated keys, such as `choices.0.message.content`
+ */
+function toPath(value: unknown): (string | number)[] {
+    if (Array.isArray(value)) {
+        return value.map(key => typeof key === 'number' ? key : String(key));
+    }
+    if (typeof value === 'string') {
+        return value.split('.').map(key => key.trim()).filter(Boolean);
+    }
+    return [];
+}
+
+/**
+ * Adapter for a provider defined in settings; requests are built from the definition's body template
+ */
+export class CustomAdapter extends BaseAdapter {
+    private readonly definition: CustomProviderDefinition | undefined;
+
+    /**
+     * @param definition - Provider definition, or undefined if it was removed from settings
+     */
+    constructor(config: AdapterConfig, definition: CustomProviderDefinition | undefined) {
+        super({
+            ...config,
+            endpoint: config.endpoint || definition?.endpoint || ''
+        });
+        this.definition = definition;
+        if (definition) {
+            this.provider = {
+                name: definition.name,
+                requestFormat: {
+                    url: definition.endpoint,
+                    headers: definition.headers,
+                    body: definition.body
+                },
+                responseFormat: {
+                    path: definition.responsePath,
+                    errorPath: definition.errorPath,
+                    contentPath: definition.responsePath
+                }
+            };
+        }
+    }
+
+    /**
+     * Checks a definition written by hand or imported as JSON, filling in optional fields
+     * @param raw - Parsed JSON of one definition
+     * @returns Definition; its id is empty if none was given
+     * @throws Error naming the first missing or invalid field
+     */
+    static parseDefinition(raw: unknown): CustomProviderDefinition {
+        if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+            throw new Error('Provider definition must be a JSON object');
+        }
+        const value = raw as Record<string, unknown>;
+        if (typeof value.name !== 'string' || !value.name.trim()) {
+            throw new Error('Provider definition needs a "name"');
+        }
+        if (typeof value.endpoint !== 'string' || !value.endpoint.trim()) {
+            throw new Error(`Provider "${value.name}" needs an "endpoint"`);
+        }
+        if (!value.body || typeof value.body !== 'object' || Array.isArray(value.body)) {
+            throw new Error(`Provider "${value.name}" needs a "body" object`);
+        }
+        const responsePath = toPath(value.responsePath);
+        if (responsePath.length === 0) {
+            throw new Error(`Provider "${value.name}" needs a "responsePath"`);
+        }
+        const headers = value.headers && typeof value.headers === 'object' && !Array.isArray(value.headers)
+            ? Object.fromEntries(Object.entries(value.headers).map(([name, header]) => [name, String(header)]))
+            : {};
+
+        return {
+            id: typeof value.id === 'string' ? value.id : '',
+            name: value.name.trim(),
+            endpoint: value.endpoint.trim(),
+            authHeader: typeof value.authHeader === 'string' ? value.authHeader.trim() : 'Authorization',
+            authPrefix: typeof value.authPrefix === 'string' ? value.authPrefix : 'Bearer ',
+            headers,
+            body: value.body as Record<string, unknown>,
+            responsePath,
+            errorPath: value.errorPath === undefined ? ['error', 'message'] : toPath(value.errorPath)
+        };
+    }
+
+    public formatRequest(prompt: string): Record<string, any> {
+        const messages = [
+            { role: 'system', content: SYSTEM_PROMPT },
+            { role: 'user', content: prompt }
+        ];
+        const temperature = this.getTemperatureOverride();
+        const variables: Record<string, string> = {
+            model: this.config.modelName ?? '',
+            prompt,
+            system: SYSTEM_PROMPT
+        };
+
+        const render = (value: unknown): unknown => {
+            if (typeof value === 'string') {
+                if (value === '{{messages}}') {
+                    return messages;
+                }
+                if (value === '{{temperature}}') {
+                    return temperature ?? undefined;
+                }
+                return value.replace(/\{\{(model|prompt|system)\}\}/g, (_, name: string) => variables[name]);
+            }
+            if (Array.isArray(value)) {
+                return value.map(render);
+            }
+            if (value && typeof value === 'object') {
+                const rendered: Record<string, unknown> = {};
+                for (const [key, item] of Object.entries(value)) {
+                    const result = render(item);
+                    // A temperature placeholder without an override leaves the provider's default
+                    if (result !== undefined) {
+                        rendered[key] = result;
+                    }
+                }
+                return rendered;
+            }
+            return value;
+        };
+
+        return render(this.definition?.body ?? {}) as Record<string, any>;
+    }
+
+    public validateConfig(): string | null {
+        if (!this.definition) {
+            return 'Custom provider not found; choose another provider in settings';
+        }
+        if (!this.getEndpoint()) {
+            return `Endpoint is required for ${this.definition.name}`;
+        }
+        if (this.definition.authHeader && !this.config.apiKey) {
+            return `API key is required for ${this.definition.name}`;
+        }
+        return null;
+    }
+
+    getEndpoint(): string {
+        return (this.config.endpoint ?? '').replace(/\{\{model\}\}/g, encodeURIComponent(this.config.modelName ?? ''));
+    }
+
+    getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...(this.definition?.headers ?? {})
+        };
+        if (this.definition?.authHeader && this.config.apiKey) {
+            headers[this.definition.authHeader] = `${this.definition.authPrefix}${this.config.apiKey}`;
+        }
+        return headers;
+    }
+}
@@ -1,5 +1,7 @@
-import { BaseAdapter } from './baseAdapter';
-import { AdapterConfig } from './types';
+import { BaseAdapter, toContextWindow } from './baseAdapter';
+import { StreamFormat } from '../streaming';
+import { TagResponseSchema } from '../types';
+import { AdapterConfig, ModelInfo } from './types';
 import * as endpoints from './cloudEndpoints.json';
 
 export class GeminiAdapter extends BaseAdapter {
@@ -36,4 +38,43 @@ export class GeminiAdapter extends BaseAdapter {
         };
     }
 
+    // Requests go to Gemini's OpenAI-compatible endpoint, which only takes response_format and maps it
+    // onto the native responseSchema; sending responseSchema itself would need the native generateContent API
+    applyResponseSchema(body: Record<string, any>, schema: TagResponseSchema): boolean {
+        body.response_format = this.toResponseFormat(schema);
+        return true;
+    }
+
+    // Gemini's OpenAI-compatible endpoint streams in the OpenAI format
+    getStreamFormat(): StreamFormat | null {
+        return 'openai';
+    }
+
+    // The native models.list reports token limits, unlike the OpenAI-compatible /models
+    getModelsEndpoint(): string | null {
+        try {
+            return `${new URL(this.getEndpoint()).origin}/v1beta/models?pageSize=1000`;
+        } catch {
+            return null;
+        }
+    }
+
+    getModelsHeaders(): Record<string, string> {
+        if (!this.config.apiKey) {
+            throw new Error('API key is required for Gemini');
+        }
+        return { 'x-goog-api-key': this.config.apiKey };
+    }
+
+    public parseModelList(response: any): ModelInfo[] {
+        const models: any[] = Array.isArray(response?.models) ? response.models : [];
+        return models
+            .filter(model => typeof model?.name === 'string' &&
+                (!Array.isArray(model.supportedGenerationMethods) || model.supportedGenerationMethods.includes('generateContent')))
+            .map(model => ({
+                id: model.name.replace(/^models\//, ''),
+                name: typeof model.displayName === 'string' ? model.displayName : undefined,
+                contextWindow: toContextWindow(model.inputTokenLimit)
+            }));
+    }
 }
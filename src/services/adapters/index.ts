@@ -3,9 +3,10 @@ export * from './baseAdapter';
 export * from './openaiAdapter';
 export * from './geminiAdapter';
 export * from './openaiCompatibleAdapter';
+export * from './customAdapter';
 import * as cloudEndpoints from './cloudEndpoints.json';
 
-import { AdapterConfig } from './types';
+import { AdapterConfig, CustomProviderDefinition } from './types';
 import { BaseAdapter } from './baseAdapter';
 import { OpenAIAdapter } from './openaiAdapter';
 import { GeminiAdapter } from './geminiAdapter';
@@ -24,11 +25,29 @@ import { GLMAdapter } from './glmAdapter';
 import { MiMoAdapter } from './mimoAdapter';
 import { MinimaxAdapter } from './minimaxAdapter';
 import { OpenAICompatibleAdapter } from './openaiCompatibleAdapter';
+import { CustomAdapter } from './customAdapter';
+
+/** A provider defined in settings, by the id of its definition */
+export type CustomAdapterType = `custom:${string}`;
 
 export type AdapterType = 'openai' | 'gemini' | 'deepseek' | 'aliyun' | 'claude' | 'groq' | 'vertex' |
-    'openrouter' | 'bedrock' | 'requesty' | 'cohere' | 'grok' | 'mistral' | 'glm' | 'mimo' | 'minimax' | 'openai-compatible';
+    'openrouter' | 'bedrock' | 'requesty' | 'cohere' | 'grok' | 'mistral' | 'glm' | 'mimo' | 'minimax' | 'openai-compatible' |
+    CustomAdapterType;
+
+/**
+ * Checks whether a provider is defined in settings rather than built in
+ */
+export function isCustomAdapterType(type: string): type is CustomAdapterType {
+    return type.startsWith('custom:');
+}
 
-export function createAdapter(type: AdapterType, config: AdapterConfig): BaseAdapter {
+/**
+ * @param customProvider - Definition of a `custom:` provider; undefined if it no longer exists
+ */
+export function createAdapter(type: AdapterType, config: AdapterConfig, customProvider?: CustomProviderDefinition): BaseAdapter {
+    if (isCustomAdapterType(type)) {
+        return new CustomAdapter(config, customProvider);
+    }
     switch (type.toLowerCase()) {
         case 'openai':
             return new OpenAIAdapter({
@@ -1,4 +1,6 @@
 import { BaseAdapter } from './baseAdapter';
+import { StreamFormat } from '../streaming';
+import { TagResponseSchema } from '../types';
 import { AdapterConfig } from './types';
 import * as endpoints from './cloudEndpoints.json';
 
@@ -34,4 +36,13 @@ export class OpenAIAdapter extends BaseAdapter {
             'Content-Type': 'application/json'
         };
     }
+
+    applyResponseSchema(body: Record<string, any>, schema: TagResponseSchema): boolean {
+        body.response_format = this.toResponseFormat(schema);
+        return true;
+    }
+
+    getStreamFormat(): StreamFormat | null {
+        return 'openai';
+    }
 }
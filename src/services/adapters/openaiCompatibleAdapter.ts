@@ -1,4 +1,5 @@
 import { BaseAdapter } from './baseAdapter';
+import { StreamFormat } from '../streaming';
 import { BaseResponse, RequestBody, LLMServiceProvider, AdapterConfig } from './types';
 import { SYSTEM_PROMPT } from '../../utils/constants';
 
@@ -111,4 +112,8 @@ export class OpenAICompatibleAdapter extends BaseAdapter {
             ...(this.provider?.requestFormat.headers || {})
         };
     }
+
+    getStreamFormat(): StreamFormat | null {
+        return 'openai';
+    }
 }
@@ -71,3 +71,34 @@ export interface LLMServiceProvider {
         contentPath?: (string | number)[];
     };
 }
+
+/** A model listed by a provider's model list endpoint */
+export interface ModelInfo {
+    id: string;
+    /** Display name, where the provider gives one */
+    name?: string;
+    /** Context window in tokens, where the provider reports it */
+    contextWindow?: number;
+}
+
+/**
+ * A provider defined in settings instead of by an adapter class.
+ * String values in `body` may use `{{model}}`, `{{prompt}}` and `{{system}}`; a value of exactly
+ * `{{messages}}` becomes the chat messages and `{{temperature}}` the temperature override.
+ */
+export interface CustomProviderDefinition {
+    /** Selected as the cloud provider `custom:<id>` */
+    id: string;
+    name: string;
+    endpoint: string;
+    /** Header carrying the API key, such as `Authorization`; empty sends no key */
+    authHeader: string;
+    /** Text put before the API key, such as `Bearer ` */
+    authPrefix: string;
+    headers: Record<string, string>;
+    body: Record<string, unknown>;
+    /** Path to the completion text in the response */
+    responsePath: (string | number)[];
+    /** Path to the error message in an error response */
+    errorPath: (string | number)[];
+}
@@ -1,9 +1,29 @@
-import { LLMServiceConfig, LLMResponse, ConnectionTestResult, ConnectionTestError } from './types';
-import { buildTagPrompt } from './prompts/tagPrompts';
+import {
+    LLMServiceConfig,
+    LLMResponse,
+    ConnectionTestResult,
+    ConnectionTestError,
+    LongNoteStrategy,
+    AnalyzeOptions,
+    RequestOptions,
+    RequestRecord,
+    TagResponseSchema
+} from './types';
+import { buildTagPrompt, buildConsolidationPrompt, buildTagResponseSchema, TagCandidate } from './prompts/tagPrompts';
 import { TaggingMode } from './prompts/types';
-import { SYSTEM_PROMPT } from '../utils/constants';
+import { SYSTEM_PROMPT, LLM_SERVICE_CONFIG } from '../utils/constants';
+import { ContentChunker } from '../utils/contentChunker';
+import { ResponseCache } from '../utils/responseCache';
+import { StreamFormat, readStreamedCompletion, extractPartialTags } from './streaming';
+import { ReportedUsage, estimateTokens, truncateToTokens } from './usage';
+import { RequestCancelledError, LLMRequestError, LLMConnectionError, RequestTimeoutError } from './errors';
+import { RateLimiter, getBackoffDelay, getRetryAfter, sleep } from './rateLimiter';
 import { LanguageCode } from './types';
-import { App, Notice } from 'obsidian';
+import type { AITaggerSettings } from '../core/settings';
+import { App, Notice, requestUrl } from 'obsidian';
+
+/** Words in a 400 error showing that the provider rejected the response schema rather than the whole request */
+const STRUCTURED_OUTPUT_ERROR = /response_format|schema|\btools?\b|\bformat\b/i;
 
 /**
  * Base class for LLM service implementations
@@ -16,12 +36,32 @@ export abstract class BaseLLMService {
     private activeRequests = new Set<{ controller: AbortController; timeoutId?: NodeJS.Timeout }>();
     protected readonly app: App | null;
     protected debugMode: boolean = false;
+    protected longNoteStrategy: LongNoteStrategy;
+    private readonly maxChunks: number;
+    private readonly contextWindow: number;
+    private readonly maxContentTokens: number;
+    protected streamResponses: boolean;
+    protected structuredOutput: boolean;
+    protected readonly rateLimiter: RateLimiter;
+    private readonly responseCache: ResponseCache | null;
+    // Set once requestUrl reached the endpoint where fetch failed, e.g. because of CORS; requests then go through requestUrl
+    private fetchUnavailable = false;
+    // Models that rejected the response schema; their later requests are sent without it
+    private schemaRejectedModels = new Set<string>();
 
     constructor(config: LLMServiceConfig, app: App | null) {
         this.endpoint = config.endpoint.trim();
         this.modelName = config.modelName.trim();
         this.app = app;
         this.TIMEOUT = (config.requestTimeout || 60) * 1000;
+        this.longNoteStrategy = config.longNoteStrategy ?? 'truncate';
+        this.maxChunks = config.maxChunks || LLM_SERVICE_CONFIG.DEFAULT_MAX_CHUNKS;
+        this.contextWindow = config.contextWindow || LLM_SERVICE_CONFIG.DEFAULT_CONTEXT_WINDOW;
+        this.maxContentTokens = config.maxContentTokens ?? 0;
+        this.streamResponses = config.stream ?? false;
+        this.structuredOutput = config.structuredOutput ?? false;
+        this.rateLimiter = config.rateLimiter ?? new RateLimiter();
+        this.responseCache = config.responseCache ?? null;
     }
 
     /**
@@ -66,6 +106,18 @@ export abstract class BaseLLMService {
         };
     }
 
+    /**
+     * Converts a tag response schema to the OpenAI `response_format` request option
+     * @param schema - Response schema
+     * @returns Value for the `response_format` field
+     */
+    protected toResponseFormat(schema: TagResponseSchema): Record<string, any> {
+        return {
+            type: 'json_schema',
+            json_schema: { name: schema.name, schema: schema.schema, strict: true }
+        };
+    }
+
     /**
      * Registers an active request for cleanup
      * @param controller - AbortController for the request
@@ -91,12 +143,244 @@ export abstract class BaseLLMService {
     protected createRequestController(timeoutMs: number): { controller: AbortController; cleanup: () => void } {
         const controller = new AbortController();
         const timeoutId = setTimeout(() => {
-            controller.abort(new Error('Request timeout'));
+            controller.abort(new RequestTimeoutError(timeoutMs));
         }, timeoutMs);
         const cleanup = this.registerRequest(controller, timeoutId);
         return { controller, cleanup };
     }
 
+    /**
+     * Runs a request that cannot be aborted itself (such as requestUrl) under a timeout and the cancel command.
+     * The request keeps running in the background, but its result is ignored once it times out or is cancelled.
+     * @param request - Request promise
+     * @param timeoutMs - Timeout in milliseconds
+     * @returns Promise resolving to the request result
+     * @throws The abort reason if the request times out or is cancelled first
+     * @throws LLMConnectionError if the request itself fails, which for requestUrl means the endpoint was not reached
+     */
+    protected async withAbort<T>(request: Promise<T>, timeoutMs: number): Promise<T> {
+        const { controller, cleanup } = this.createRequestController(timeoutMs);
+        const aborted = new Promise<never>((_, reject) => {
+            controller.signal.addEventListener('abort', () => reject(controller.signal.reason), { once: true });
+        });
+        const connected = request.catch(error => {
+            throw new LLMConnectionError(error instanceof Error ? error.message : String(error));
+        });
+
+        try {
+            return await Promise.race([connected, aborted]);
+        } finally {
+            cleanup();
+        }
+    }
+
+    /**
+     * Sends a POST request with fetch, so the timeout and the cancel command abort the request itself
+     * and the provider stops working on it. A request fetch cannot send, for example because CORS
+     * blocks it, is sent again through requestUrl, which can only stop waiting for the response.
+     * Only once requestUrl reaches the endpoint where fetch failed do later requests skip fetch,
+     * so a brief network outage does not lose cancellation for good.
+     * @param url - Request URL
+     * @param headers - Request headers
+     * @param body - Serialized request body
+     * @param timeoutMs - Timeout in milliseconds
+     * @returns Status, text and headers of the response, whatever its status
+     * @throws The abort reason if the request times out or is cancelled
+     * @throws LLMConnectionError if the endpoint cannot be reached
+     */
+    protected async postRequest(
+        url: string,
+        headers: Record<string, string>,
+        body: string,
+        timeoutMs: number
+    ): Promise<{ status: number; text: string; headers: Record<string, string> }> {
+        if (!this.fetchUnavailable) {
+            const { controller, cleanup } = this.createRequestController(timeoutMs);
+            try {
+                const response = await fetch(url, { method: 'POST', headers, body, signal: controller.signal });
+                const responseHeaders: Record<string, string> = {};
+                response.headers.forEach((value, name) => responseHeaders[name] = value);
+                return { status: response.status, text: await response.text(), headers: responseHeaders };
+            } catch (error) {
+                // Report why the request was aborted rather than the generic abort error
+                if (controller.signal.aborted) {
+                    throw controller.signal.reason;
+                }
+                if (!(error instanceof TypeError)) {
+                    throw error;
+                }
+                this.debugLog('fetch could not reach the endpoint, trying requestUrl instead:', error.message);
+            } finally {
+                cleanup();
+            }
+        }
+
+        const response = await this.withAbort(requestUrl({ url, method: 'POST', headers, body, throw: false }), timeoutMs);
+        if (!this.fetchUnavailable) {
+            this.debugLog('requestUrl reached the endpoint, sending later requests through it');
+            this.fetchUnavailable = true;
+        }
+        return response;
+    }
+
+    /**
+     * Waits until the provider's rate limits leave room for a request.
+     * The wait does not count towards the request timeout, but the cancel command ends it.
+     * @param tokens - Tokens the request is expected to use
+     */
+    protected async waitForRateLimit(tokens: number): Promise<void> {
+        const controller = new AbortController();
+        const cleanup = this.registerRequest(controller);
+        try {
+            await this.rateLimiter.acquire(tokens, controller.signal);
+        } finally {
+            cleanup();
+        }
+    }
+
+    /**
+     * Sends a request under the provider's rate limits, retrying failures with exponential backoff.
+     * A rate-limited response pauses every request to the provider for as long as it asks, and is
+     * retried without using up one of the attempts.
+     * @param send - Sends one attempt
+     * @param payload - Serialized request body, to estimate its tokens
+     * @param isFinal - Whether a response is returned as is rather than retried
+     * @returns Promise resolving to the final response
+     * @throws The last error once the attempts are used up
+     */
+    protected async sendWithRetry<T extends { status: number; text: string; headers: Record<string, string> }>(
+        send: () => Promise<T>,
+        payload: string,
+        isFinal: (response: T) => boolean
+    ): Promise<T> {
+        const tokens = estimateTokens(payload);
+        let lastError: Error | null = null;
+        let attempt = 0;
+        let rateLimited = 0;
+
+        while (attempt < LLM_SERVICE_CONFIG.MAX_RETRIES) {
+            await this.waitForRateLimit(tokens);
+            try {
+                const response = await send();
+                this.rateLimiter.updateFromHeaders(response.headers);
+
+                if (response.status === 429) {
+                    lastError = new LLMRequestError('HTTP error 429: rate limit exceeded', 429);
+                    const delay = getRetryAfter(response.headers) ?? getBackoffDelay(rateLimited);
+                    // Daily quotas and the like: give up so the fallback providers can take over
+                    if (++rateLimited > LLM_SERVICE_CONFIG.MAX_RATE_LIMIT_RETRIES || delay > LLM_SERVICE_CONFIG.MAX_RATE_LIMIT_PAUSE) {
+                        break;
+                    }
+                    this.debugLog(`Rate limited, pausing requests for ${Math.ceil(delay / 1000)}s`);
+                    this.rateLimiter.pause(delay);
+                    continue;
+                }
+
+                if (isFinal(response)) {
+                    return response;
+                }
+                const text = response.text?.length > 200 ? `${response.text.substring(0, 200)}...` : response.text;
+                lastError = new LLMRequestError(`HTTP error ${response.status}${text ? `: ${text}` : ''}`, response.status);
+            } catch (error) {
+                if (error instanceof RequestCancelledError) {
+                    throw error;
+                }
+                if (error instanceof Error && error.message.includes('Invalid API key')) {
+                    throw error; // Don't retry auth errors
+                }
+                lastError = error instanceof Error ? error : new Error('Unknown error');
+            }
+
+            attempt++;
+            if (attempt < LLM_SERVICE_CONFIG.MAX_RETRIES) {
+                await sleep(getBackoffDelay(attempt - 1));
+            }
+        }
+
+        throw lastError || new Error('Max retries exceeded');
+    }
+
+    /**
+     * Sends a streaming request with fetch and reads the server-sent events
+     * @param url - Request URL
+     * @param headers - Request headers
+     * @param body - Request body, which must already ask for a streamed response
+     * @param format - Event format of the provider
+     * @param onPartialText - Called with the text received so far
+     * @returns Promise resolving to the complete response text
+     * @throws TypeError if fetch cannot reach the endpoint (for example when CORS blocks it)
+     */
+    protected async fetchStream(
+        url: string,
+        headers: Record<string, string>,
+        body: Record<string, any>,
+        format: StreamFormat,
+        onPartialText?: (text: string) => void
+    ): Promise<string> {
+        const tokens = estimateTokens(JSON.stringify(body));
+        for (let rateLimited = 1; ; rateLimited++) {
+            await this.waitForRateLimit(tokens);
+            const { controller, cleanup } = this.createRequestController(this.TIMEOUT);
+
+            try {
+                const response = await fetch(url, {
+                    method: 'POST',
+                    headers,
+                    body: JSON.stringify(body),
+                    signal: controller.signal
+                });
+                const responseHeaders: Record<string, string> = {};
+                response.headers.forEach((value, name) => responseHeaders[name] = value);
+                this.rateLimiter.updateFromHeaders(responseHeaders);
+
+                // Pause the provider and try again, as for regular requests
+                const delay = response.status === 429 ? getRetryAfter(responseHeaders) ?? getBackoffDelay(rateLimited - 1) : 0;
+                if (response.status === 429 && rateLimited <= LLM_SERVICE_CONFIG.MAX_RATE_LIMIT_RETRIES && delay <= LLM_SERVICE_CONFIG.MAX_RATE_LIMIT_PAUSE) {
+                    this.debugLog(`Rate limited, pausing requests for ${Math.ceil(delay / 1000)}s`);
+                    this.rateLimiter.pause(delay);
+                    continue;
+                }
+
+                if (!response.ok) {
+                    let message = `HTTP error ${response.status}`;
+                    try {
+                        const errorJson = JSON.parse(await response.text());
+                        message = errorJson.error?.message || errorJson.message || message;
+                    } catch {
+                        // Not a JSON error body; keep the status
+                    }
+                    throw new LLMRequestError(message, response.status);
+                }
+
+                return await readStreamedCompletion(response, format, onPartialText);
+            } catch (error) {
+                // Report why the request was aborted rather than the generic abort error
+                if (controller.signal.aborted) {
+                    throw controller.signal.reason;
+                }
+                throw error;
+            } finally {
+                cleanup();
+            }
+        }
+    }
+
+    /**
+     * Cancels the requests that are currently running
+     * @returns Number of requests cancelled
+     */
+    public cancelActiveRequests(): number {
+        const count = this.activeRequests.size;
+        this.activeRequests.forEach(request => {
+            if (request.timeoutId) {
+                clearTimeout(request.timeoutId);
+            }
+            request.controller.abort(new RequestCancelledError());
+        });
+        this.activeRequests.clear();
+        return count;
+    }
+
     /**
      * Cleans up all active requests
      * Should be called when the service is no longer needed
@@ -217,6 +501,7 @@ export abstract class BaseLLMService {
      * @param mode - Tagging mode
      * @param maxTags - Maximum number of tags to return
      * @param language - Language code for generated tags
+     * @param settings - Settings to build the prompt from; the plugin settings by default
      * @returns Formatted prompt string
      */
     protected buildPrompt(
@@ -224,9 +509,10 @@ export abstract class BaseLLMService {
         candidateTags: string[], 
         mode: TaggingMode,
         maxTags: number,
-        language?: LanguageCode
+        language?: LanguageCode,
+        settings?: AITaggerSettings
     ): string {
-        return buildTagPrompt(content, candidateTags, mode, maxTags, language);
+        return buildTagPrompt(content, candidateTags, mode, maxTags, language, settings);
     }
 
     /**
@@ -234,10 +520,156 @@ export abstract class BaseLLMService {
      * @param response - Raw response from LLM
      * @param mode - Tagging mode
      * @param maxTags - Maximum number of tags to return
-     * @returns Parsed and validated response
+     * @returns Parsed and validated response, with confidence scores and rationale split off the tags
      * @throws Error if response is invalid
      */
     protected parseResponse(response: string, mode: TaggingMode, maxTags: number): LLMResponse {
+        const structured = this.parseStructuredResponse(response, mode, maxTags);
+        if (structured) {
+            return structured;
+        }
+
+        const { tagText, rationale } = this.splitRationale(response);
+        const result = this.parseResponseTags(tagText, mode, maxTags);
+        const confidence: Record<string, number> = {};
+        const stripConfidence = (tags: string[]) => tags
+            .map(tag => {
+                const scored = this.splitConfidence(tag);
+                if (scored.confidence !== undefined) {
+                    confidence[scored.tag] = scored.confidence;
+                }
+                return scored.tag;
+            })
+            .filter(tag => tag.length > 0);
+
+        const parsed: LLMResponse = {
+            matchedExistingTags: result.matchedExistingTags ? stripConfidence(result.matchedExistingTags) : undefined,
+            suggestedTags: stripConfidence(result.suggestedTags)
+        };
+        if (Object.keys(confidence).length > 0) {
+            this.debugLog(`Parsed tag confidence:`, confidence);
+            parsed.confidence = confidence;
+        }
+        if (Object.keys(rationale).length > 0) {
+            this.debugLog(`Parsed tag rationale:`, rationale);
+            parsed.rationale = rationale;
+        }
+        return parsed;
+    }
+
+    /**
+     * Reads a response that follows the tag response schema (see buildTagResponseSchema)
+     * @param response - Raw response from LLM
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @returns Parsed response, or null if the response is not a JSON object with the tag lists of the mode
+     */
+    private parseStructuredResponse(response: string, mode: TaggingMode, maxTags: number): LLMResponse | null {
+        let data: any;
+        try {
+            data = JSON.parse(response.trim());
+        } catch {
+            return null;
+        }
+
+        const hasMatched = mode === TaggingMode.Hybrid || mode === TaggingMode.PredefinedTags;
+        const hasSuggested = mode !== TaggingMode.PredefinedTags;
+        if (!data || typeof data !== 'object' ||
+            (hasMatched && !Array.isArray(data.matchedExistingTags)) ||
+            (hasSuggested && !Array.isArray(data.suggestedTags))) {
+            return null;
+        }
+        this.debugLog(`Parsed structured response:`, data);
+
+        // Tags are plain strings, or objects when confidence scores or rationale were requested
+        const confidence: Record<string, number> = {};
+        const rationale: Record<string, string> = {};
+        const readTags = (items: any[]): string[] => items
+            .map(item => {
+                const entry = item && typeof item === 'object' ? item : { tag: item };
+                const scored = this.splitConfidence(String(entry.tag ?? ''));
+                const tag = this.sanitizeTag(scored.tag);
+                if (!tag) return '';
+
+                const score = typeof entry.confidence === 'number' ? entry.confidence : scored.confidence;
+                if (score !== undefined) {
+                    confidence[tag] = Math.min(1, Math.max(0, score));
+                }
+                if (typeof entry.rationale === 'string' && entry.rationale.trim()) {
+                    rationale[tag] = entry.rationale.trim();
+                }
+                return tag;
+            })
+            .filter(tag => tag.length > 0)
+            .slice(0, maxTags);
+
+        const parsed: LLMResponse = {
+            matchedExistingTags: hasMatched ? readTags(data.matchedExistingTags) : [],
+            suggestedTags: hasSuggested ? readTags(data.suggestedTags) : []
+        };
+        if (Object.keys(confidence).length > 0) {
+            parsed.confidence = confidence;
+        }
+        if (Object.keys(rationale).length > 0) {
+            parsed.rationale = rationale;
+        }
+        return parsed;
+    }
+
+    /**
+     * Separates the optional "RATIONALE:" section from the tag output
+     * @param response - Raw response from LLM
+     * @returns Response text without the section, and the reason per tag found in it
+     */
+    protected splitRationale(response: string): { tagText: string; rationale: Record<string, string> } {
+        const rationale: Record<string, string> = {};
+        const marker = response.match(/^[\s*#]*RATIONALE:[\s*]*$/mi);
+        if (!marker || marker.index === undefined) {
+            return { tagText: response, rationale };
+        }
+
+        const lines = response.substring(marker.index + marker[0].length).split(/\r?\n/);
+        for (const line of lines) {
+            const match = line
+                .replace(/^\s*(?:[-*]|\d+\.)\s+/, '')
+                .replace(/`/g, '')
+                .match(/^(.+?):\s+(.+)$/);
+            if (!match) continue;
+
+            const tag = this.sanitizeTag(this.splitConfidence(match[1]).tag);
+            if (tag) {
+                rationale[tag] = match[2].trim();
+            }
+        }
+        return { tagText: response.substring(0, marker.index), rationale };
+    }
+
+    /**
+     * Splits a confidence suffix such as `tag:0.85`, `tag (0.85)` or `tag:85%` off a tag
+     * @param tag - Tag as returned by the model
+     * @returns Tag without the suffix, and the confidence between 0 and 1 if one was found
+     */
+    protected splitConfidence(tag: string): { tag: string; confidence?: number } {
+        const match = tag.match(/^(.+?)\s*(?::|\()\s*(0(?:\.\d+)?|1(?:\.0+)?|\.\d+|\d{1,3}%)\s*\)?$/);
+        if (!match) {
+            return { tag };
+        }
+
+        const value = match[2].endsWith('%')
+            ? parseFloat(match[2]) / 100
+            : parseFloat(match[2]);
+        return { tag: match[1].trim(), confidence: Math.min(1, Math.max(0, value)) };
+    }
+
+    /**
+     * Extracts the tag lists from an LLM response for the tagging mode
+     * @param response - Raw response from LLM
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @returns Parsed tag lists
+     * @throws Error if response is invalid
+     */
+    private parseResponseTags(response: string, mode: TaggingMode, maxTags: number): LLMResponse {
         try {
             this.debugLog(`Parsing LLM response for mode: ${mode}`);
             this.debugLog(`Raw response:`, response.substring(0, 500));
@@ -635,13 +1067,99 @@ export abstract class BaseLLMService {
         }
     }
 
+    /**
+     * Passes the token counts of a completed request to the usage callback,
+     * estimating the counts the provider did not report
+     * @param options - Request options with the usage callback
+     * @param prompt - Prompt that was sent, without the system prompt
+     * @param completion - Response text
+     * @param reported - Counts reported by the provider, if any
+     */
+    protected reportUsage(options: RequestOptions, prompt: string, completion: string, reported: ReportedUsage | null): void {
+        if (!options.onUsage) return;
+
+        const promptTokens = reported?.promptTokens ?? estimateTokens(SYSTEM_PROMPT + prompt);
+        const completionTokens = reported?.completionTokens ?? estimateTokens(completion);
+        options.onUsage({
+            promptTokens,
+            completionTokens,
+            estimated: reported?.promptTokens === undefined || reported?.completionTokens === undefined
+        });
+    }
+
+    /**
+     * Passes a request sent to the provider, and its outcome, to the request callback
+     * @param options - Request options with the request callback
+     * @param prompt - Prompt that was sent, without the system prompt
+     * @param result - Parsed response, or null if the request failed
+     * @param error - Error the request failed with
+     */
+    protected reportRequest(options: RequestOptions, prompt: string, result: LLMResponse | null, error?: unknown): void {
+        if (!options.onRequest) return;
+
+        const record: RequestRecord = {
+            endpoint: this.getRequestEndpoint(),
+            model: this.modelName,
+            prompt,
+            status: result ? 'success' : error instanceof RequestCancelledError ? 'cancelled' : 'error',
+            tags: result ? [...(result.matchedExistingTags ?? []), ...(result.suggestedTags ?? [])] : []
+        };
+        if (error instanceof LLMRequestError) {
+            record.httpStatus = error.status;
+        }
+        if (error !== undefined) {
+            record.error = error instanceof Error ? error.message : String(error);
+        }
+        options.onRequest(record);
+    }
+
+    /**
+     * Gets the URL tag requests are sent to, for the request callback
+     * Can be overridden by derived classes whose requests do not go to the configured endpoint
+     * @returns Request URL
+     */
+    protected getRequestEndpoint(): string {
+        return this.endpoint;
+    }
+
+    /**
+     * Checks whether a request failed because the provider does not support the structured-output
+     * options it was sent with, so it can be retried without them
+     * @param error - Error the request failed with
+     */
+    protected isStructuredOutputRejection(error: unknown): error is LLMRequestError {
+        return error instanceof LLMRequestError && error.status === 400 && STRUCTURED_OUTPUT_ERROR.test(error.message);
+    }
+
+    /**
+     * Gets the response schema to send with a request, leaving it out once the model has rejected it
+     * @param schema - Schema requested for the response
+     * @returns Schema to send, or undefined
+     */
+    protected getRequestSchema(schema?: TagResponseSchema): TagResponseSchema | undefined {
+        return schema && !this.schemaRejectedModels.has(this.modelName) ? schema : undefined;
+    }
+
+    /**
+     * Remembers that the model rejected the response schema, so later requests skip the failing round-trip
+     */
+    protected rememberSchemaRejection(): void {
+        this.schemaRejectedModels.add(this.modelName);
+    }
+
     /**
      * Handles errors consistently across the service
      * @param error - Error to handle
      * @param operation - Operation that failed
-     * @throws Error with consistent format
+     * @throws Error with consistent format, keeping the request and connection error classes
      */
     protected handleError(error: unknown, operation: string): never {
+        if (error instanceof LLMRequestError) {
+            throw new LLMRequestError(`${operation} failed: ${error.message}`, error.status);
+        }
+        if (error instanceof LLMConnectionError) {
+            throw new LLMConnectionError(`${operation} failed: ${error.message}`);
+        }
         if (error instanceof Error) {
             if (error.name === 'AbortError') {
                 throw new Error(`Operation timed out: ${operation}`);
@@ -659,6 +1177,7 @@ export abstract class BaseLLMService {
      * @param mode - Tagging mode
      * @param maxTags - Maximum number of tags to return
      * @param language - Language code for tag generation
+     * @param options - Optional progress callbacks
      * @returns Promise resolving to tag analysis result
      */
     async analyzeTags(
@@ -666,7 +1185,8 @@ export abstract class BaseLLMService {
         candidateTags: string[], 
         mode: TaggingMode = TaggingMode.GenerateNew,
         maxTags: number = 10,
-        language?: LanguageCode
+        language?: LanguageCode,
+        options?: AnalyzeOptions
     ): Promise<LLMResponse> {
         try {
             // Validate content
@@ -674,61 +1194,34 @@ export abstract class BaseLLMService {
                 throw new Error('Empty content provided for analysis');
             }
 
-            // Truncate overly long content
-            const maxContentLength = this.getMaxContentLength();
-            if (content.length > maxContentLength) {
-                content = content.slice(0, maxContentLength) + '...';
-            }
-
-            // Build prompt based on mode
-            let prompt: string;
-            switch (mode) {
-                case TaggingMode.GenerateNew:
-                    // For new tag generation, ignore candidateTags and pass empty array
-                    prompt = this.buildPrompt(content, [], mode, maxTags, language);
-                    break;
-                    
-                case TaggingMode.PredefinedTags:
-                    // For predefined tags mode, validate candidate tags exist
-                    if (!candidateTags || candidateTags.length === 0) {
-                        throw new Error('Predefined tags mode requires candidate tags');
-                    }
-                    prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language);
-                    break;
-                    
-                case TaggingMode.Hybrid:
-                    // For hybrid mode, handle both predefined and new tags
-                    if (!candidateTags || candidateTags.length === 0) {
-                        // If no candidate tags are provided, fall back to GenerateNew mode
-                        prompt = this.buildPrompt(content, [], TaggingMode.GenerateNew, maxTags, language);
-                    } else {
-                        // Use the hybrid mode prompt with candidate tags
-                        prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language);
-                    }
-                    break;
-                    
-                case TaggingMode.Custom:
-                    // For custom mode, build prompt using the custom prompt from settings
-                    // buildTagPrompt will access pluginSettings directly
-                    prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language);
-                    break;
-                default:
-                    // Default behavior for future or unknown modes
-                    prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language);
-            }
+            const onPartialTags = options?.onPartialTags;
+            const requestOptions: RequestOptions = {
+                onPartialText: onPartialTags ? text => onPartialTags(extractPartialTags(text)) : undefined,
+                schema: this.structuredOutput ? buildTagResponseSchema(mode, options?.settings) : undefined,
+                onUsage: options?.onUsage,
+                onRequest: options?.onRequest
+            };
 
-            if (!prompt.trim()) {
-                throw new Error('Failed to build analysis prompt');
+            const contentBudget = this.getContentBudget(candidateTags, mode, maxTags, language, options?.settings);
+            if (estimateTokens(content) > contentBudget) {
+                // Tag long notes section by section, or truncate them to their opening
+                if (this.longNoteStrategy === 'chunk') {
+                    return await this.analyzeLongContent(content, candidateTags, mode, maxTags, language, requestOptions, options?.settings);
+                }
+                content = truncateToTokens(content, contentBudget - 1) + '...';
             }
 
-            // Send request and get response
-            const response = await this.sendRequest(prompt);
-            
-            // Parse response
-            return this.parseResponse(response, mode, maxTags);
+            // Send request and parse the response
+            return await this.requestTags(
+                this.buildAnalysisPrompt(content, candidateTags, mode, maxTags, language, options?.settings),
+                requestOptions,
+                mode,
+                maxTags
+            );
         } catch (error) {
-            // Avoid double error handling
-            if (error instanceof Error && error.message.startsWith('Tag analysis failed:')) {
+            // Avoid double error handling; cancellation is passed on as is so callers can recognize it
+            if (error instanceof RequestCancelledError ||
+                (error instanceof Error && error.message.startsWith('Tag analysis failed:'))) {
                 throw error;
             }
             throw this.handleError(error, 'Tag analysis');
@@ -736,21 +1229,256 @@ export abstract class BaseLLMService {
     }
     
     /**
-     * Gets the maximum content length for the service implementation
-     * Can be overridden by derived classes
-     * @returns Maximum content length
+     * Builds the analysis prompt for the tagging mode, checking the candidate tags it needs
+     * @param content - Content to analyze
+     * @param candidateTags - Array of candidate tags
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @param language - Language code for tag generation
+     * @param settings - Settings to build the prompt from; the plugin settings by default
+     * @returns Formatted prompt string
+     * @throws Error if the prompt could not be built
+     */
+    private buildAnalysisPrompt(
+        content: string,
+        candidateTags: string[],
+        mode: TaggingMode,
+        maxTags: number,
+        language?: LanguageCode,
+        settings?: AITaggerSettings
+    ): string {
+        // Build prompt based on mode
+        let prompt: string;
+        switch (mode) {
+            case TaggingMode.GenerateNew:
+                // For new tag generation, ignore candidateTags and pass empty array
+                prompt = this.buildPrompt(content, [], mode, maxTags, language, settings);
+                break;
+                
+            case TaggingMode.PredefinedTags:
+                // For predefined tags mode, validate candidate tags exist
+                if (!candidateTags || candidateTags.length === 0) {
+                    throw new Error('Predefined tags mode requires candidate tags');
+                }
+                prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language, settings);
+                break;
+                
+            case TaggingMode.Hybrid:
+                // For hybrid mode, handle both predefined and new tags
+                if (!candidateTags || candidateTags.length === 0) {
+                    // If no candidate tags are provided, fall back to GenerateNew mode
+                    prompt = this.buildPrompt(content, [], TaggingMode.GenerateNew, maxTags, language, settings);
+                } else {
+                    // Use the hybrid mode prompt with candidate tags
+                    prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language, settings);
+                }
+                break;
+                
+            case TaggingMode.Custom:
+                // For custom mode, build prompt using the custom prompt from settings
+                // buildTagPrompt falls back to pluginSettings when no settings are given
+                prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language, settings);
+                break;
+            default:
+                // Default behavior for future or unknown modes
+                prompt = this.buildPrompt(content, candidateTags, mode, maxTags, language, settings);
+        }
+
+        if (!prompt.trim()) {
+            throw new Error('Failed to build analysis prompt');
+        }
+        return prompt;
+    }
+
+    /**
+     * Analyzes a note that is too long for one request (map-reduce).
+     * Each chunk is tagged on its own, then a consolidation request ranks and dedupes the candidates.
+     * Notes with more chunks than the configured limit are only tagged from a sample spread over the note.
+     * @param content - Content to analyze
+     * @param candidateTags - Array of candidate tags
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @param language - Language code for tag generation
+     * @param options - Request options; partial text is only reported for the consolidation request
+     * @param settings - Settings to build the prompts from; the plugin settings by default
+     * @returns Promise resolving to the consolidated tag analysis result
      */
-    protected getMaxContentLength(): number {
-        return 4000; // Default maximum content length
+    protected async analyzeLongContent(
+        content: string,
+        candidateTags: string[],
+        mode: TaggingMode,
+        maxTags: number,
+        language?: LanguageCode,
+        options: RequestOptions = {},
+        settings?: AITaggerSettings
+    ): Promise<LLMResponse> {
+        const allChunks = ContentChunker.split(content, this.getContentBudget(candidateTags, mode, maxTags, language, settings));
+        const chunks = ContentChunker.sample(allChunks, this.maxChunks);
+        this.debugLog(`Analyzing long content (${content.length} chars) in ${chunks.length} chunks`);
+        if (chunks.length < allChunks.length) {
+            console.warn(`Long note split into ${allChunks.length} sections; only ${chunks.length} are tagged and ${allChunks.length - chunks.length} are skipped. Raise the sections per long note setting to tag more of it.`);
+        }
+
+        // Map: collect candidate tags per chunk, counting how many chunks proposed each one
+        const matchedCounts = new Map<string, number>();
+        const suggestedCounts = new Map<string, number>();
+        const countTags = (tags: string[] | undefined, counts: Map<string, number>) => {
+            for (const tag of new Set(tags ?? [])) {
+                counts.set(tag, (counts.get(tag) ?? 0) + 1);
+            }
+        };
+
+        for (const chunk of chunks) {
+            const result = await this.requestTags(
+                this.buildAnalysisPrompt(chunk, candidateTags, mode, maxTags, language, settings),
+                { schema: options.schema, onUsage: options.onUsage, onRequest: options.onRequest },
+                mode,
+                maxTags
+            );
+            countTags(result.matchedExistingTags, matchedCounts);
+            countTags(result.suggestedTags, suggestedCounts);
+        }
+
+        if (matchedCounts.size === 0 && suggestedCounts.size === 0) {
+            return { matchedExistingTags: [], suggestedTags: [] };
+        }
+
+        // Reduce: let the model merge and rank the candidates for the whole note
+        const toCandidates = (counts: Map<string, number>): TagCandidate[] => [...counts.entries()]
+            .map(([tag, count]) => ({ tag, count }))
+            .sort((a, b) => b.count - a.count);
+        const matchedCandidates = toCandidates(matchedCounts);
+        const suggestedCandidates = toCandidates(suggestedCounts);
+        this.debugLog(`Consolidating chunk candidates:`, { matchedCandidates, suggestedCandidates });
+
+        return this.requestTags(
+            buildConsolidationPrompt(matchedCandidates, suggestedCandidates, chunks.length, mode, maxTags, language, settings),
+            options,
+            mode,
+            maxTags
+        );
+    }
+
+    /**
+     * Sends a tag prompt and parses the response. With the response cache on, a prompt sent to
+     * the same provider and model before is answered from the cache without a request.
+     * Every request sent is passed to the request callback, whether it succeeds or not.
+     * @param prompt - Full tag prompt
+     * @param options - Request options
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @returns Promise resolving to the parsed response
+     */
+    private async requestTags(prompt: string, options: RequestOptions, mode: TaggingMode, maxTags: number): Promise<LLMResponse> {
+        this.checkPromptSize(prompt);
+        if (!this.responseCache) {
+            return (await this.sendTagRequest(prompt, options, mode, maxTags)).result;
+        }
+
+        const key = ResponseCache.getKey(this.endpoint, this.modelName, options.schema ? JSON.stringify(options.schema) : '', prompt);
+        const cached = await this.responseCache.get(key);
+        if (cached !== null) {
+            this.debugLog(`Response cache hit for ${this.modelName} (${key})`);
+            return this.parseResponse(cached, mode, maxTags);
+        }
+
+        const { response, result } = await this.sendTagRequest(prompt, options, mode, maxTags);
+        // Only responses with tags are cached; an empty or unparsable answer becomes no tags, and is asked again next time
+        if (result.suggestedTags.length > 0 || (result.matchedExistingTags?.length ?? 0) > 0) {
+            await this.responseCache.set(key, response);
+        }
+        return result;
+    }
+
+    /**
+     * Sends a tag prompt, parses the response and reports the request
+     * @returns Promise resolving to the response text and the parsed response
+     */
+    private async sendTagRequest(
+        prompt: string,
+        options: RequestOptions,
+        mode: TaggingMode,
+        maxTags: number
+    ): Promise<{ response: string; result: LLMResponse }> {
+        let response: string;
+        let result: LLMResponse;
+        try {
+            response = await this.sendRequest(prompt, options);
+            result = this.parseResponse(response, mode, maxTags);
+        } catch (error) {
+            this.reportRequest(options, prompt, null, error);
+            throw error;
+        }
+        this.reportRequest(options, prompt, result);
+        return { response, result };
+    }
+
+    /**
+     * Gets the context window of the model
+     * Can be overridden by derived classes that learn it from the server
+     * @returns Context window in tokens
+     */
+    protected getContextWindow(): number {
+        return this.contextWindow;
+    }
+
+    /**
+     * Gets the tokens kept free in the context window for the response
+     * Can be overridden by derived classes with a configured response length
+     * @returns Reserved tokens
+     */
+    protected getResponseReserve(): number {
+        return LLM_SERVICE_CONFIG.RESPONSE_RESERVE_TOKENS;
+    }
+
+    /**
+     * Gets how many tokens of note content fit in one request: the context window less the
+     * system prompt, the prompt instructions with their candidate tag list, and the response,
+     * limited to the configured content budget
+     * @returns Content budget in tokens
+     * @throws Error if the prompt leaves too little room for the note
+     */
+    private getContentBudget(
+        candidateTags: string[],
+        mode: TaggingMode,
+        maxTags: number,
+        language?: LanguageCode,
+        settings?: AITaggerSettings
+    ): number {
+        const overhead = estimateTokens(SYSTEM_PROMPT + this.buildAnalysisPrompt('', candidateTags, mode, maxTags, language, settings));
+        const available = this.getContextWindow() - this.getResponseReserve() - overhead;
+        this.debugLog(`Content budget for ${this.modelName}: ${available} tokens (context window ${this.getContextWindow()}, prompt ${overhead})`);
+        if (available < LLM_SERVICE_CONFIG.MIN_CONTENT_TOKENS) {
+            throw new Error(
+                `The prompt takes about ${overhead} tokens before the note, too many for the ${this.getContextWindow()}-token ` +
+                `context window of ${this.modelName}. Use fewer predefined tags or a model with a larger context window.`
+            );
+        }
+        return this.maxContentTokens > 0 ? Math.min(this.maxContentTokens, available) : available;
+    }
+
+    /**
+     * Checks that a prompt and its response fit the context window, so oversized prompts are never sent
+     * @param prompt - Full prompt, without the system prompt
+     * @throws Error if the prompt is too long
+     */
+    private checkPromptSize(prompt: string): void {
+        const tokens = estimateTokens(SYSTEM_PROMPT + prompt);
+        if (tokens + this.getResponseReserve() > this.getContextWindow()) {
+            throw new Error(
+                `The prompt takes about ${tokens} tokens, too many for the ${this.getContextWindow()}-token context window of ${this.modelName}`
+            );
+        }
     }
     
     /**
      * Sends a request to the LLM service
      * Must be implemented by derived classes
      * @param prompt - The prompt to send
+     * @param options - Streaming callback and response schema
      * @returns Promise resolving to the response
      */
-    protected abstract sendRequest(prompt: string): Promise<string>;
+    protected abstract sendRequest(prompt: string, options?: RequestOptions): Promise<string>;
 
     /**
      * Tests connection to the LLM service
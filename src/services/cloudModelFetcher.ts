@@ -0,0 +1,55 @@
+import { requestUrl } from 'obsidian';
+import { AdapterType, BaseAdapter, createAdapter, CustomProviderDefinition, ModelInfo } from './adapters';
+
+/**
+ * Lists the models of a cloud provider through its model list endpoint
+ * @param type - Provider
+ * @param endpoint - Configured endpoint; empty uses the provider's default
+ * @param apiKey - API key
+ * @param customProvider - Definition of a `custom:` provider
+ * @returns Models sorted by id
+ * @throws Error if the provider has no model list or the request fails
+ */
+export async function fetchCloudModels(
+    type: AdapterType,
+    endpoint: string,
+    apiKey: string,
+    customProvider?: CustomProviderDefinition
+): Promise<ModelInfo[]> {
+    return fetchModelList(createAdapter(type, { endpoint, apiKey }, customProvider));
+}
+
+/**
+ * Lists the models of the provider an adapter is configured for
+ * @param adapter - Adapter with the endpoint and API key
+ * @returns Models sorted by id
+ * @throws Error if the provider has no model list or the request fails
+ */
+export async function fetchModelList(adapter: BaseAdapter): Promise<ModelInfo[]> {
+    const url = adapter.getModelsEndpoint();
+    if (!url) {
+        throw new Error('This provider has no model list endpoint');
+    }
+
+    const response = await requestUrl({
+        url,
+        method: 'GET',
+        headers: adapter.getModelsHeaders(),
+        throw: false
+    });
+
+    let data: any = null;
+    try {
+        data = JSON.parse(response.text);
+    } catch {
+        // Not a JSON body
+    }
+
+    if (response.status < 200 || response.status >= 300) {
+        const errorMessage = data && adapter.parseErrorMessage(data);
+        throw new Error(errorMessage || `HTTP error ${response.status}`);
+    }
+
+    const models = new Map(adapter.parseModelList(data).map(model => [model.id, model]));
+    return [...models.values()].sort((a, b) => a.id.localeCompare(b.id));
+}
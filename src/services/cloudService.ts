@@ -1,18 +1,29 @@
-import { LLMResponse, LLMServiceConfig, ConnectionTestResult, ConnectionTestError } from './types';
+import {
+    LLMResponse,
+    LLMServiceConfig,
+    ConnectionTestResult,
+    ConnectionTestError,
+    AnalyzeOptions,
+    RequestOptions,
+    TagResponseSchema,
+    DiagnosticTarget
+} from './types';
 import { BaseLLMService } from './baseService';
-import { AdapterType, createAdapter, BaseAdapter } from './adapters';
+import { AdapterType, createAdapter, BaseAdapter, CustomProviderDefinition } from './adapters';
 import { TaggingMode } from './prompts/types';
 import { LanguageCode } from './types';
-import { App, requestUrl } from 'obsidian';
-import { LLM_SERVICE_CONFIG } from '../utils/constants';
+import { App } from 'obsidian';
+import { LLMRequestError, RequestTimeoutError } from './errors';
+import { Completion } from './usage';
+import { fetchModelList } from './cloudModelFetcher';
 
 export class CloudLLMService extends BaseLLMService {
     private adapter: BaseAdapter;
-    private readonly MAX_CONTENT_LENGTH = LLM_SERVICE_CONFIG.MAX_CONTENT_LENGTH;
-    private readonly MAX_RETRIES = LLM_SERVICE_CONFIG.MAX_RETRIES;
-    private readonly RETRY_DELAY = LLM_SERVICE_CONFIG.RETRY_DELAY;
 
-    constructor(config: Omit<LLMServiceConfig, 'type'> & { type: AdapterType }, app: App) {
+    constructor(
+        config: Omit<LLMServiceConfig, 'type'> & { type: AdapterType; customProvider?: CustomProviderDefinition },
+        app: App
+    ) {
         super(config, app);
         this.adapter = createAdapter(config.type, {
             endpoint: config.endpoint,
@@ -20,7 +31,7 @@ export class CloudLLMService extends BaseLLMService {
             modelName: config.modelName,
             language: config.language,
             llmTemperatureOverride: config.llmTemperatureOverride
-        });
+        }, config.customProvider);
     }
 
     private validateCloudConfig(): string | null {
@@ -33,58 +44,98 @@ export class CloudLLMService extends BaseLLMService {
         return null;
     }
 
-    private async makeRequest(prompt: string, timeoutMs: number): Promise<any> {
+    /**
+     * Formats the request body, using the provider's structured-output feature when a schema is given
+     * @param prompt - The prompt to send
+     * @param schema - Optional response schema
+     * @returns Request body
+     */
+    private buildRequestBody(prompt: string, schema?: TagResponseSchema): Record<string, any> {
+        const body = this.adapter.formatRequest(prompt);
+        // Providers without structured output get the prompt alone; their text responses are parsed as before
+        if (schema && this.adapter.applyResponseSchema(body, schema)) {
+            this.debugLog(`Requesting structured output with schema: ${schema.name}`);
+        }
+        return body;
+    }
+
+    private async makeRequest(body: Record<string, any>, timeoutMs: number): Promise<any> {
         const validationError = this.validateCloudConfig();
         if (validationError) {
             throw new Error(validationError);
         }
 
-        // Create timeout promise for race condition
-        const timeoutPromise = new Promise<never>((_, reject) => {
-            setTimeout(() => reject(new Error(`Request timed out after ${timeoutMs}ms`)), timeoutMs);
-        });
-
-        const requestPromise = requestUrl({
-            url: this.adapter.getEndpoint(),
-            method: 'POST',
-            headers: this.adapter.getHeaders(),
-            body: JSON.stringify(this.adapter.formatRequest(prompt)),
-            throw: false
-        });
-
-        // Race between request and timeout
-        return Promise.race([requestPromise, timeoutPromise]);
+        return this.postRequest(this.adapter.getEndpoint(), this.adapter.getHeaders(), JSON.stringify(body), timeoutMs);
     }
 
-    private async makeRequestWithRetry(prompt: string, timeoutMs: number): Promise<any> {
-        let lastError: Error | null = null;
+    /**
+     * Sends a streamed request when streaming is enabled and the provider supports it
+     * @param body - Request body
+     * @param onPartialText - Called with the text received so far
+     * @returns Promise resolving to the response text, or null if the request should be sent without streaming
+     */
+    private async makeStreamingRequest(body: Record<string, any>, onPartialText?: (text: string) => void): Promise<string | null> {
+        const format = this.adapter.getStreamFormat();
+        if (!this.streamResponses || !format) {
+            return null;
+        }
 
-        for (let i = 0; i < this.MAX_RETRIES; i++) {
-            try {
-                const response = await this.makeRequest(prompt, timeoutMs);
-                // requestUrl returns {status, json, text, etc.} - status 200-299 is success
-                if ((response.status >= 200 && response.status < 300) || response.status === 401) { // Don't retry auth errors
-                    return response;
-                }
-                lastError = new Error(`HTTP error ${response.status}`);
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error('Unknown error');
-                if (error instanceof Error && error.message.includes('Invalid API key')) {
-                    throw error; // Don't retry auth errors
-                }
-            }
+        const validationError = this.validateCloudConfig();
+        if (validationError) {
+            throw new Error(validationError);
+        }
 
-            if (i < this.MAX_RETRIES - 1) {
-                await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY * (i + 1)));
+        try {
+            return await this.fetchStream(
+                this.adapter.getEndpoint(),
+                this.adapter.getHeaders(),
+                { ...body, stream: true },
+                format,
+                onPartialText
+            );
+        } catch (error) {
+            // fetch may be blocked by CORS; fall back to a regular request, which can go through requestUrl
+            if (error instanceof TypeError) {
+                this.debugLog('Streaming request failed, falling back to a regular request:', error.message);
+                return null;
             }
+            throw error;
         }
+    }
 
-        throw lastError || new Error('Max retries exceeded');
+    private async makeRequestWithRetry(body: Record<string, any>, timeoutMs: number): Promise<any> {
+        // Responses carry {status, text, headers} - status 200-299 is success
+        // Don't retry client errors such as auth errors or rejected request options; they fail the same way again
+        return this.sendWithRetry(
+            () => this.makeRequest(body, timeoutMs),
+            JSON.stringify(body),
+            response => (response.status >= 200 && response.status < 300) ||
+                (response.status >= 400 && response.status < 500 && response.status !== 408)
+        );
+    }
+
+    getDiagnosticTarget(): DiagnosticTarget {
+        const validationError = this.validateCloudConfig();
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const adapter = this.adapter;
+        return {
+            url: adapter.getEndpoint(),
+            headers: adapter.getHeaders(),
+            body: adapter.formatRequest('Reply with OK'),
+            model: this.modelName,
+            parseError: response => adapter.parseErrorMessage(response),
+            listModels: adapter.getModelsEndpoint()
+                ? async () => (await fetchModelList(adapter)).map(model => model.id)
+                : undefined
+        };
     }
 
     async testConnection(): Promise<{ result: ConnectionTestResult; error?: ConnectionTestError }> {
         try {
-            const response = await this.makeRequestWithRetry('Connection test', 10000);
+            const response = await this.makeRequestWithRetry(this.adapter.formatRequest('Connection test'), 10000);
 
             const responseText = response.text;
 
@@ -95,16 +146,21 @@ export class CloudLLMService extends BaseLLMService {
                     throw new Error('API endpoint not found: Please verify the URL');
                 }
 
+                let errorJson: any = null;
                 try {
-                    const errorJson = JSON.parse(responseText);
-                    throw new Error(errorJson.error?.message || errorJson.message || `HTTP error ${response.status}`);
-                } catch (parseError) {
-                    // Truncate response to avoid exposing sensitive data in error messages
-                    const truncatedResponse = responseText.length > 200
-                        ? responseText.substring(0, 200) + '...'
-                        : responseText;
-                    throw new Error(`HTTP error ${response.status}: ${truncatedResponse}`);
+                    errorJson = JSON.parse(responseText);
+                } catch {
+                    // Not a JSON error body
+                }
+                const errorMessage = errorJson && this.adapter.parseErrorMessage(errorJson);
+                if (errorMessage) {
+                    throw new Error(errorMessage);
                 }
+                // Truncate response to avoid exposing sensitive data in error messages
+                const truncatedResponse = responseText.length > 200
+                    ? responseText.substring(0, 200) + '...'
+                    : responseText;
+                throw new Error(`HTTP error ${response.status}: ${truncatedResponse}`);
             }
 
             // Verify we can parse the response - don't check specific format
@@ -124,7 +180,7 @@ export class CloudLLMService extends BaseLLMService {
             };
 
             if (error instanceof Error) {
-                if (error.name === 'AbortError') {
+                if (error instanceof RequestTimeoutError) {
                     testError = {
                         type: "timeout",
                         message: "Connection timeout: Please check your network status"
@@ -166,29 +222,72 @@ export class CloudLLMService extends BaseLLMService {
      * @param mode - Tagging mode
      * @param maxTags - Maximum number of tags to return
      * @param language - Language for generated tags
+     * @param options - Optional progress callbacks
      * @returns Promise resolving to tag analysis result
      */
-    async analyzeTags(content: string, existingTags: string[], mode: TaggingMode, maxTags: number, language?: LanguageCode): Promise<LLMResponse> {
+    async analyzeTags(content: string, existingTags: string[], mode: TaggingMode, maxTags: number, language?: LanguageCode, options?: AnalyzeOptions): Promise<LLMResponse> {
         // Use the base class implementation
-        return super.analyzeTags(content, existingTags, mode, maxTags, language);
+        return super.analyzeTags(content, existingTags, mode, maxTags, language, options);
+    }
+
+    /**
+     * Gets the URL tag requests are sent to: the provider adapter's endpoint
+     * @returns Request URL
+     */
+    protected getRequestEndpoint(): string {
+        return this.adapter.getEndpoint();
     }
 
     /**
      * Sends a request to the LLM service and returns the response
      * @param prompt - The prompt to send
+     * @param options - Streaming callback and response schema
      * @returns Promise resolving to the response
      */
-    protected async sendRequest(prompt: string): Promise<string> {
-        const response = await this.makeRequestWithRetry(prompt, this.TIMEOUT);
+    protected async sendRequest(prompt: string, options: RequestOptions = {}): Promise<string> {
+        const schema = this.getRequestSchema(options.schema);
+        let completion: Completion;
+        try {
+            completion = await this.requestCompletion(this.buildRequestBody(prompt, schema), options.onPartialText);
+        } catch (error) {
+            // Models without structured output (such as older GPT-4 models) reject the schema; fall back to the prompt alone
+            if (!(schema && this.isStructuredOutputRejection(error))) {
+                throw error;
+            }
+            this.debugLog('Structured output was rejected, retrying without it:', error.message);
+            this.rememberSchemaRejection();
+            completion = await this.requestCompletion(this.buildRequestBody(prompt), options.onPartialText);
+        }
+
+        this.reportUsage(options, prompt, completion.text, completion.usage);
+        return completion.text;
+    }
+
+    /**
+     * Sends a request body, streamed when possible, and returns the completion text
+     * @param body - Request body
+     * @param onPartialText - Called with the text received so far when the response is streamed
+     * @returns Promise resolving to the response text and reported token counts; streamed responses have none
+     */
+    private async requestCompletion(body: Record<string, any>, onPartialText?: (text: string) => void): Promise<Completion> {
+        const streamed = await this.makeStreamingRequest(body, onPartialText);
+        if (streamed !== null) {
+            if (!streamed) {
+                throw new Error('No content found in response');
+            }
+            return { text: streamed, usage: null };
+        }
+
+        const response = await this.makeRequestWithRetry(body, this.TIMEOUT);
 
         if (response.status < 200 || response.status >= 300) {
-            const responseText = response.text;
+            let message = `API error: ${response.status}`;
             try {
-                const errorJson = JSON.parse(responseText);
-                throw new Error(errorJson.error?.message || errorJson.message || `API error: ${response.status}`);
+                message = this.adapter.parseErrorMessage(JSON.parse(response.text)) || message;
             } catch {
-                throw new Error(`API error: ${response.status}`);
+                // Not a JSON error body; keep the status
             }
+            throw new LLMRequestError(message, response.status);
         }
 
         const responseText = response.text;
@@ -199,7 +298,7 @@ export class CloudLLMService extends BaseLLMService {
             if (!content) {
                 throw new Error('No content found in response');
             }
-            return content;
+            return { text: content, usage: this.adapter.parseUsage(data) };
         } catch (error) {
             if (error instanceof Error) {
                 throw error;
@@ -207,12 +306,4 @@ export class CloudLLMService extends BaseLLMService {
             throw new Error(`Failed to parse response: ${responseText.substring(0, 100)}...`);
         }
     }
-
-    /**
-     * Gets the maximum content length for this service
-     * @returns Maximum content length
-     */
-    protected getMaxContentLength(): number {
-        return this.MAX_CONTENT_LENGTH;
-    }
 }
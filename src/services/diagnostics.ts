@@ -0,0 +1,298 @@
+import { requestUrl } from 'obsidian';
+import { DiagnosticTarget, LanguageCode, LLMService } from './types';
+import { TaggingMode } from './prompts/types';
+
+/** Steps of the connection diagnostics, in the order they run */
+export const DIAGNOSTIC_STEPS = ['url', 'host', 'endpoint', 'auth', 'model', 'tagging'] as const;
+
+export type DiagnosticStepId = typeof DIAGNOSTIC_STEPS[number];
+
+/** Suggested fix for a failed step, shown from the translations */
+export type DiagnosticFix =
+    'config' | 'invalidUrl' | 'dns' | 'refused' | 'tls' | 'timeout' | 'unreachable' |
+    'pathNotFound' | 'authRejected' | 'modelMissing' | 'serverError' | 'noTags';
+
+export interface DiagnosticStep {
+    id: DiagnosticStepId;
+    /** Steps after a failed one are skipped */
+    status: 'pass' | 'fail' | 'skip';
+    latencyMs?: number;
+    /** What was observed, such as the status code or the server's error message */
+    detail: string;
+    /** Request and response excerpts, with credentials removed */
+    request?: string;
+    response?: string;
+    fix?: DiagnosticFix;
+}
+
+const STEP_TIMEOUT_MS = 15000;
+const EXCERPT_LENGTH = 400;
+const MAX_SIMILAR_MODELS = 5;
+const SECRET_HEADERS = /^(authorization|proxy-authorization|x-api-key|x-goog-api-key|api-key)$/i;
+
+/** Note tagged in the last step; any working model finds tags for it */
+const SAMPLE_NOTE = `# Sourdough starter log
+
+Fed the starter with rye flour and water at a 1:1:1 ratio. It doubled in six hours at room temperature,
+so it is ready for baking. Next loaf: 75% hydration, overnight cold proof in the fridge.`;
+
+/**
+ * Checks a service step by step: the URL, the host, the endpoint path, the credentials, the model,
+ * and finally whether a tagging prompt gives tags. Steps after the first failure are skipped.
+ * @param service - Service to check; use one without a response cache so the last step reaches the model
+ * @param language - Language of the tagging prompt
+ * @param onStep - Called as each step finishes
+ * @returns Result of every step
+ */
+export async function runConnectionDiagnostics(
+    service: LLMService,
+    language: LanguageCode,
+    onStep?: (step: DiagnosticStep) => void
+): Promise<DiagnosticStep[]> {
+    const steps: DiagnosticStep[] = [];
+    const record = (step: DiagnosticStep): void => {
+        steps.push(step);
+        onStep?.(step);
+    };
+    const skipRest = (): DiagnosticStep[] => {
+        for (const id of DIAGNOSTIC_STEPS.slice(steps.length)) {
+            record({ id, status: 'skip', detail: '' });
+        }
+        return steps;
+    };
+
+    // 1. The configuration gives a valid http(s) URL
+    let target: DiagnosticTarget;
+    try {
+        target = service.getDiagnosticTarget();
+    } catch (error) {
+        record({ id: 'url', status: 'fail', detail: getMessage(error), fix: 'config' });
+        return skipRest();
+    }
+    const redact = createRedactor(target.headers);
+    let url: URL;
+    try {
+        url = new URL(target.url);
+        if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+            throw new Error(`Unsupported protocol ${url.protocol}`);
+        }
+    } catch (error) {
+        record({ id: 'url', status: 'fail', detail: `${redact(target.url)}: ${getMessage(error)}`, fix: 'invalidUrl' });
+        return skipRest();
+    }
+    record({ id: 'url', status: 'pass', detail: redact(target.url) });
+
+    // 2. DNS and TCP: any HTTP answer from the host will do
+    let start = Date.now();
+    try {
+        const response = await withTimeout(requestUrl({ url: url.origin, method: 'GET', throw: false }));
+        record({
+            id: 'host',
+            status: 'pass',
+            latencyMs: Date.now() - start,
+            detail: `${url.host}: HTTP ${response.status}`,
+            request: `GET ${url.origin}`,
+            response: `HTTP ${response.status}`
+        });
+    } catch (error) {
+        record({
+            id: 'host',
+            status: 'fail',
+            latencyMs: Date.now() - start,
+            detail: `${url.host}: ${getMessage(error)}`,
+            request: `GET ${url.origin}`,
+            fix: getNetworkFix(error)
+        });
+        return skipRest();
+    }
+
+    // 3. The endpoint path answers a short completion request
+    const request = excerpt(redact([
+        `POST ${target.url}`,
+        ...Object.entries(target.headers).map(([name, value]) => `${name}: ${SECRET_HEADERS.test(name) ? maskSecret(value) : value}`),
+        '',
+        JSON.stringify(target.body)
+    ].join('\n')));
+    start = Date.now();
+    let status: number;
+    let text: string;
+    try {
+        const response = await withTimeout(requestUrl({
+            url: target.url,
+            method: 'POST',
+            headers: target.headers,
+            body: JSON.stringify(target.body),
+            throw: false
+        }));
+        status = response.status;
+        text = response.text;
+    } catch (error) {
+        record({
+            id: 'endpoint',
+            status: 'fail',
+            latencyMs: Date.now() - start,
+            detail: getMessage(error),
+            request,
+            fix: getNetworkFix(error)
+        });
+        return skipRest();
+    }
+    const latencyMs = Date.now() - start;
+    const response = excerpt(redact(`HTTP ${status}\n${text}`));
+    const succeeded = status >= 200 && status < 300;
+    const errorMessage = succeeded ? '' : redact(readError(target, text) || `HTTP ${status}`);
+    // Providers answer 404 for unknown models too, but then say so in the error
+    const modelError = !succeeded && /model/i.test(errorMessage) && [400, 404, 422].includes(status);
+
+    if ((status === 404 && !modelError) || status === 405) {
+        record({ id: 'endpoint', status: 'fail', latencyMs, detail: errorMessage, request, response, fix: 'pathNotFound' });
+        return skipRest();
+    }
+    record({ id: 'endpoint', status: 'pass', latencyMs, detail: `HTTP ${status}`, request, response });
+
+    // 4. The credentials are accepted
+    if (status === 401 || status === 403) {
+        record({ id: 'auth', status: 'fail', detail: errorMessage, request, response, fix: 'authRejected' });
+        return skipRest();
+    }
+    record({ id: 'auth', status: 'pass', detail: `HTTP ${status}` });
+
+    // 5. The model exists: it answered, or the server lists it
+    if (succeeded) {
+        record({ id: 'model', status: 'pass', detail: target.model });
+    } else {
+        let models: string[] = [];
+        if (target.listModels) {
+            start = Date.now();
+            try {
+                models = await withTimeout(target.listModels());
+            } catch {
+                // No model list to compare against
+            }
+        }
+
+        if (modelError || (models.length > 0 && !models.includes(target.model))) {
+            const similar = findSimilarModels(target.model, models);
+            record({
+                id: 'model',
+                status: 'fail',
+                detail: similar.length > 0 ? `${errorMessage} → ${similar.join(', ')}` : errorMessage,
+                request,
+                response,
+                fix: 'modelMissing'
+            });
+            return skipRest();
+        }
+        if (models.length === 0) {
+            record({ id: 'model', status: 'fail', detail: errorMessage, request, response, fix: 'serverError' });
+            return skipRest();
+        }
+        // The model is listed, so the failed request is left to the tagging step to explain
+        record({ id: 'model', status: 'pass', latencyMs: Date.now() - start, detail: target.model });
+    }
+
+    // 6. A real tagging prompt gives tags
+    start = Date.now();
+    try {
+        const result = await service.analyzeTags(SAMPLE_NOTE, [], TaggingMode.GenerateNew, 3, language);
+        const tags = result.suggestedTags;
+        record({
+            id: 'tagging',
+            status: tags.length > 0 ? 'pass' : 'fail',
+            latencyMs: Date.now() - start,
+            detail: tags.join(', '),
+            request: excerpt(SAMPLE_NOTE),
+            response: excerpt(redact(JSON.stringify(result))),
+            fix: tags.length > 0 ? undefined : 'noTags'
+        });
+    } catch (error) {
+        record({
+            id: 'tagging',
+            status: 'fail',
+            latencyMs: Date.now() - start,
+            detail: redact(getMessage(error)),
+            request: excerpt(SAMPLE_NOTE),
+            fix: 'serverError'
+        });
+    }
+
+    return steps;
+}
+
+function getMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+async function withTimeout<T>(promise: Promise<T>): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${STEP_TIMEOUT_MS / 1000}s`)), STEP_TIMEOUT_MS);
+    });
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+/**
+ * Picks the fix for a request that did not reach the server, from the network error text
+ */
+function getNetworkFix(error: unknown): DiagnosticFix {
+    const message = getMessage(error);
+    if (/timed out/i.test(message)) return 'timeout';
+    if (/ENOTFOUND|EAI_AGAIN|getaddrinfo|NAME_NOT_RESOLVED/i.test(message)) return 'dns';
+    if (/ECONNREFUSED|CONNECTION_REFUSED/i.test(message)) return 'refused';
+    if (/CERT|SSL|TLS/i.test(message)) return 'tls';
+    return 'unreachable';
+}
+
+function readError(target: DiagnosticTarget, text: string): string | null {
+    try {
+        return target.parseError(JSON.parse(text));
+    } catch {
+        return null;
+    }
+}
+
+/**
+ * Keeps the scheme and the last characters of a credential, such as `Bearer ****3f9a`
+ */
+function maskSecret(value: string): string {
+    const [, scheme = '', secret = ''] = value.match(/^(\w+\s+)?(.*)$/) ?? [];
+    return `${scheme}****${secret.length > 12 ? secret.slice(-4) : ''}`;
+}
+
+/**
+ * Creates a function that removes the credentials in the given headers, and `key=` URL parameters, from a text
+ */
+function createRedactor(headers: Record<string, string>): (text: string) => string {
+    const secrets = Object.entries(headers)
+        .filter(([name]) => SECRET_HEADERS.test(name))
+        .map(([, value]) => value.replace(/^\w+\s+/, ''))
+        .filter(secret => secret.length >= 8);
+    return text => {
+        let result = text.replace(/([?&]key=)[^&\s]+/gi, '$1****');
+        for (const secret of secrets) {
+            result = result.split(secret).join('****');
+        }
+        return result;
+    };
+}
+
+function excerpt(text: string): string {
+    return text.length > EXCERPT_LENGTH ? `${text.slice(0, EXCERPT_LENGTH)}…` : text;
+}
+
+/**
+ * Finds listed models whose name contains the configured one or is contained in it, ignoring case
+ */
+function findSimilarModels(model: string, models: string[]): string[] {
+    const wanted = model.toLowerCase();
+    return models
+        .filter(name => {
+            const candidate = name.toLowerCase();
+            return wanted && (candidate.includes(wanted) || wanted.includes(candidate));
+        })
+        .slice(0, MAX_SIMILAR_MODELS);
+}
@@ -0,0 +1,156 @@
+import { requestUrl } from 'obsidian';
+import { extractAuthFromUrl } from './localModelFetcher';
+import { LLMRequestError, LLMConnectionError } from './errors';
+
+/** Texts sent per embeddings request */
+const EMBEDDING_BATCH_SIZE = 64;
+
+export interface EmbeddingConfig {
+    /** OpenAI-compatible `/v1/embeddings` endpoint, or Ollama's native `/api/embed` */
+    endpoint: string;
+    apiKey?: string;
+    model: string;
+    /** Request timeout in seconds */
+    requestTimeout?: number;
+}
+
+export interface EmbeddingResult {
+    /** One vector per input text, in input order */
+    vectors: number[][];
+    /** Tokens reported by the endpoint, or null if it reports none */
+    promptTokens: number | null;
+}
+
+/**
+ * Client for embeddings endpoints. OpenAI, Mistral, LM Studio, LocalAI and Ollama's `/v1/embeddings`
+ * share the OpenAI format; endpoints ending in `/api/embed` use Ollama's native format.
+ */
+export class EmbeddingService {
+    private readonly url: string;
+    private readonly headers: Record<string, string>;
+    private readonly native: boolean;
+
+    constructor(private config: EmbeddingConfig) {
+        const { url, headers } = extractAuthFromUrl(config.endpoint.trim().replace(/\/+$/, ''));
+        this.url = url;
+        this.headers = headers;
+        if (config.apiKey) {
+            this.headers['Authorization'] = `Bearer ${config.apiKey}`;
+        }
+        this.native = /\/api\/embed$/.test(url);
+    }
+
+    /**
+     * Validates the configuration
+     * @returns Error message if invalid, null if valid
+     */
+    validateConfig(): string | null {
+        if (!this.url) {
+            return 'Embeddings endpoint is not configured';
+        }
+        if (!this.config.model.trim()) {
+            return 'Embedding model is not configured';
+        }
+        try {
+            new URL(this.url);
+        } catch {
+            return 'Invalid embeddings endpoint URL format';
+        }
+        return null;
+    }
+
+    /**
+     * Embeds texts, in batches
+     * @param texts - Texts to embed
+     * @returns Promise resolving to one vector per text and the reported token count
+     * @throws LLMRequestError if the endpoint answers with an error status
+     * @throws LLMConnectionError if the endpoint cannot be reached or does not answer in time
+     */
+    async embed(texts: string[]): Promise<EmbeddingResult> {
+        const validationError = this.validateConfig();
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        const vectors: number[][] = [];
+        let promptTokens: number | null = null;
+        for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+            const batch = await this.embedBatch(texts.slice(i, i + EMBEDDING_BATCH_SIZE));
+            vectors.push(...batch.vectors);
+            if (batch.promptTokens !== null) {
+                promptTokens = (promptTokens ?? 0) + batch.promptTokens;
+            }
+        }
+        return { vectors, promptTokens };
+    }
+
+    private async embedBatch(texts: string[]): Promise<EmbeddingResult> {
+        const timeoutMs = (this.config.requestTimeout || 60) * 1000;
+        let timeoutId: ReturnType<typeof setTimeout> | undefined;
+        const timeout = new Promise<never>((_, reject) => {
+            timeoutId = setTimeout(() => reject(new LLMConnectionError(`Embeddings request timed out after ${timeoutMs / 1000}s`)), timeoutMs);
+        });
+
+        let response;
+        try {
+            // requestUrl cannot be aborted; the timeout only stops waiting for it
+            response = await Promise.race([
+                requestUrl({
+                    url: this.url,
+                    method: 'POST',
+                    headers: this.headers,
+                    body: JSON.stringify({ model: this.config.model.trim(), input: texts }),
+                    throw: false
+                }).catch(error => {
+                    throw new LLMConnectionError(error instanceof Error ? error.message : String(error));
+                }),
+                timeout
+            ]);
+        } finally {
+            clearTimeout(timeoutId);
+        }
+
+        if (response.status < 200 || response.status >= 300) {
+            let message = `HTTP error ${response.status}`;
+            try {
+                const errorJson = JSON.parse(response.text);
+                message = errorJson.error?.message || errorJson.error || errorJson.message || message;
+            } catch {
+                // Not a JSON error body; keep the status
+            }
+            throw new LLMRequestError(`Embeddings request failed: ${message}`, response.status);
+        }
+
+        const data = JSON.parse(response.text);
+        const vectors: unknown = this.native
+            ? data?.embeddings
+            : Array.isArray(data?.data)
+                ? [...data.data].sort((a: any, b: any) => (a.index ?? 0) - (b.index ?? 0)).map((item: any) => item.embedding)
+                : null;
+        if (!Array.isArray(vectors) || vectors.length !== texts.length || !vectors.every(Array.isArray)) {
+            throw new Error('Invalid response format from embeddings endpoint');
+        }
+
+        const tokens = this.native ? data.prompt_eval_count : data.usage?.prompt_tokens;
+        return { vectors: vectors as number[][], promptTokens: typeof tokens === 'number' ? tokens : null };
+    }
+}
+
+/**
+ * Cosine similarity of two vectors
+ * @returns Similarity from -1 to 1; 0 if either vector is empty or the lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+    if (a.length === 0 || a.length !== b.length) {
+        return 0;
+    }
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+        dot += a[i] * b[i];
+        normA += a[i] * a[i];
+        normB += b[i] * b[i];
+    }
+    return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -0,0 +1,42 @@
+/**
+ * Error thrown when a request is cancelled by the user
+ */
+export class RequestCancelledError extends Error {
+    constructor(message = 'Request cancelled') {
+        super(message);
+        this.name = 'RequestCancelledError';
+    }
+}
+
+/**
+ * Error thrown when the LLM service answers with an HTTP error status
+ */
+export class LLMRequestError extends Error {
+    status: number;
+
+    constructor(message: string, status: number) {
+        super(message);
+        this.name = 'LLMRequestError';
+        this.status = status;
+    }
+}
+
+/**
+ * Error thrown when the LLM service cannot be reached or does not answer in time
+ */
+export class LLMConnectionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LLMConnectionError';
+    }
+}
+
+/**
+ * Error thrown when the LLM service does not answer within the request timeout
+ */
+export class RequestTimeoutError extends LLMConnectionError {
+    constructor(timeoutMs: number) {
+        super(`Request timed out after ${timeoutMs}ms`);
+        this.name = 'RequestTimeoutError';
+    }
+}
@@ -0,0 +1,132 @@
+import {
+    LLMService,
+    LLMResponse,
+    ProviderInfo,
+    ConnectionTestResult,
+    ConnectionTestError,
+    AnalyzeOptions,
+    LanguageCode,
+    DiagnosticTarget
+} from './types';
+import { TaggingMode } from './prompts/types';
+import { LLMRequestError, LLMConnectionError } from './errors';
+
+/**
+ * A service in the fallback chain, with the provider and model recorded on its results
+ */
+export interface ChainedService extends ProviderInfo {
+    service: LLMService;
+}
+
+/**
+ * Recorded when a request moves on to the next provider in the chain
+ */
+export interface FailoverEvent {
+    from: ProviderInfo;
+    to: ProviderInfo;
+    /** Error message of the provider that failed */
+    reason: string;
+}
+
+/**
+ * Checks whether an error is worth retrying with another provider:
+ * network errors, timeouts, server errors (5xx) and rate limits (429).
+ * Cancellation, configuration and other client errors are passed on as they are.
+ * @param error - Error thrown by a service
+ * @returns True if the request should fail over
+ */
+export function isFailoverError(error: unknown): boolean {
+    if (error instanceof LLMConnectionError) {
+        return true;
+    }
+    if (error instanceof LLMRequestError) {
+        return error.status >= 500 || error.status === 429 || error.status === 408;
+    }
+    return false;
+}
+
+/**
+ * Tries an ordered list of LLM services, moving on to the next one when a provider is unreachable or overloaded
+ */
+export class FallbackLLMService implements LLMService {
+    private services: ChainedService[];
+    private onFailover?: (event: FailoverEvent) => void;
+
+    /**
+     * @param services - Services in the order they are tried; the first one is the primary provider
+     * @param onFailover - Called every time a request moves on to the next provider
+     */
+    constructor(services: ChainedService[], onFailover?: (event: FailoverEvent) => void) {
+        if (services.length === 0) {
+            throw new Error('The fallback chain needs at least one service');
+        }
+        this.services = services;
+        this.onFailover = onFailover;
+    }
+
+    /**
+     * Analyzes content with the first provider that answers
+     * @returns Promise resolving to the tag analysis result, with the provider that produced it
+     * @throws The error of the last provider tried
+     */
+    async analyzeTags(
+        content: string,
+        candidateTags: string[],
+        mode: TaggingMode,
+        maxTags: number,
+        language?: LanguageCode,
+        options?: AnalyzeOptions
+    ): Promise<LLMResponse> {
+        for (let i = 0; ; i++) {
+            const { service, provider, model } = this.services[i];
+            const onUsage = options?.onUsage;
+            const onRequest = options?.onRequest;
+            try {
+                const result = await service.analyzeTags(content, candidateTags, mode, maxTags, language, {
+                    ...options,
+                    // Usage and requests are recorded against the provider that handled the request
+                    onUsage: onUsage ? usage => onUsage(usage, { provider, model }) : undefined,
+                    onRequest: onRequest ? request => onRequest(request, { provider, model }) : undefined
+                });
+                return { ...result, source: { provider, model } };
+            } catch (error) {
+                const next = this.services[i + 1];
+                if (!next || !isFailoverError(error)) {
+                    throw error;
+                }
+                this.onFailover?.({
+                    from: { provider, model },
+                    to: { provider: next.provider, model: next.model },
+                    reason: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+    }
+
+    /**
+     * Tests the primary provider, which is the one the settings tab configures
+     */
+    async testConnection(): Promise<{ result: ConnectionTestResult; error?: ConnectionTestError }> {
+        return this.services[0].service.testConnection();
+    }
+
+    getDiagnosticTarget(): DiagnosticTarget {
+        return this.services[0].service.getDiagnosticTarget();
+    }
+
+    formatRequest(prompt: string, language?: string): any {
+        return this.services[0].service.formatRequest(prompt, language);
+    }
+
+    async dispose(): Promise<void> {
+        await Promise.all(this.services.map(({ service }) => service.dispose()));
+    }
+
+    cancelActiveRequests(): number {
+        return this.services.reduce((count, { service }) => count + service.cancelActiveRequests(), 0);
+    }
+
+    setDebugMode(enabled: boolean): void {
+        this.services.forEach(({ service }) => service.setDebugMode(enabled));
+    }
+}
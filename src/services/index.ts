@@ -1,4 +1,8 @@
 export * from './types';
 export * from './baseService';
 export * from './localService';
-export * from './cloudService';
\ No newline at end of file
+export * from './cloudService';
+export * from './ollamaService';
+export * from './errors';export * from './fallbackService';
+export * from './rateLimiter';
+export * from './embeddingService';
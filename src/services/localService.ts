@@ -1,15 +1,14 @@
-import { LLMResponse, LLMServiceConfig, ConnectionTestResult, ConnectionTestError } from './types';
-import { SYSTEM_PROMPT, LLM_SERVICE_CONFIG } from '../utils/constants';
+import { LLMResponse, LLMServiceConfig, ConnectionTestResult, ConnectionTestError, AnalyzeOptions, RequestOptions, TagResponseSchema, DiagnosticTarget } from './types';
+import { SYSTEM_PROMPT } from '../utils/constants';
 import { BaseLLMService } from './baseService';
 import { TaggingMode } from './prompts/types';
 import { LanguageCode } from './types';
-import { App, requestUrl } from 'obsidian';
-import { extractAuthFromUrl } from './localModelFetcher';
+import { App } from 'obsidian';
+import { extractAuthFromUrl, fetchLocalModels } from './localModelFetcher';
+import { LLMRequestError, RequestTimeoutError } from './errors';
+import { Completion, parseUsage } from './usage';
 
 export class LocalLLMService extends BaseLLMService {
-    private readonly MAX_CONTENT_LENGTH = LLM_SERVICE_CONFIG.MAX_CONTENT_LENGTH;
-    private readonly MAX_RETRIES = LLM_SERVICE_CONFIG.MAX_RETRIES;
-    private readonly RETRY_DELAY = LLM_SERVICE_CONFIG.RETRY_DELAY;
     private llmTemperatureOverride: number | null = null;
     
     constructor(config: LLMServiceConfig, app: App) {
@@ -63,59 +62,46 @@ export class LocalLLMService extends BaseLLMService {
     }
 
     private async makeRequest(options: RequestInit, timeoutMs: number): Promise<any> {
-        try {
-            // Merge the stored authentication headers with the request headers
-            const mergedHeaders = {
-                ...this.authHeaders,
-                ...(options.headers as Record<string, string> || {})
-            };
-
-            const response = await requestUrl({
-                url: this.endpoint,
-                method: options.method as string || 'POST',
-                headers: mergedHeaders,
-                body: options.body as string,
-                throw: false
-            });
+        // Merge the stored authentication headers with the request headers
+        const mergedHeaders = {
+            ...this.authHeaders,
+            ...(options.headers as Record<string, string> || {})
+        };
 
-            return response;
-        } catch (error) {
-            if (error instanceof Error) {
-                if (error.name === 'AbortError') {
-                    throw new Error('Request timed out. Please check if your local LLM service is running and responsive.');
-                }
-            }
-            throw error;
-        }
+        return this.postRequest(this.endpoint, mergedHeaders, options.body as string, timeoutMs);
     }
 
     private async makeRequestWithRetry(options: RequestInit, timeoutMs: number): Promise<any> {
-        let lastError: Error | null = null;
-
-        for (let i = 0; i < this.MAX_RETRIES; i++) {
-            try {
-                const response = await this.makeRequest(options, timeoutMs);
-
-                // For local service, we might want to retry on any error
-                // as it could be starting up or processing another request
-                // requestUrl returns {status, json, text, etc.} - status 200-299 is success
-                if (response.status >= 200 && response.status < 300) {
-                    return response;
-                }
-
-                // Read the error response
-                const errorText = response.text;
-                lastError = new Error(
-                    `HTTP error ${response.status}: ${errorText || ''}`
-                );
-            } catch (error) {
-                lastError = error instanceof Error ? error : new Error('Unknown error');
-            }
+        // For local service, we might want to retry on any error
+        // as it could be starting up or processing another request
+        // Responses carry {status, text, headers} - status 200-299 is success
+        return this.sendWithRetry(
+            () => this.makeRequest(options, timeoutMs),
+            options.body as string,
+            response => response.status >= 200 && response.status < 300
+        );
+    }
 
-            await new Promise(resolve => setTimeout(resolve, this.RETRY_DELAY * (i + 1)));
+    getDiagnosticTarget(): DiagnosticTarget {
+        const validationError = this.validateLocalConfig();
+        if (validationError) {
+            throw new Error(validationError);
         }
 
-        throw lastError || new Error('Max retries exceeded');
+        return {
+            url: this.endpoint,
+            headers: this.authHeaders,
+            body: {
+                model: this.modelName,
+                messages: [{ role: 'user', content: 'Reply with OK' }],
+                max_tokens: 5
+            },
+            model: this.modelName,
+            parseError: response => typeof response?.error === 'string'
+                ? response.error
+                : response?.error?.message ?? null,
+            listModels: () => fetchLocalModels(this.endpoint)
+        };
     }
 
     async testConnection(): Promise<{ result: ConnectionTestResult; error?: ConnectionTestError }> {
@@ -168,7 +154,7 @@ export class LocalLLMService extends BaseLLMService {
             };
 
             if (error instanceof Error) {
-                if (error.name === 'AbortError') {
+                if (error instanceof RequestTimeoutError) {
                     testError = {
                         type: "timeout",
                         message: "Connection timeout, please check if the local LLM service is running"
@@ -213,41 +199,93 @@ export class LocalLLMService extends BaseLLMService {
      * @param mode - Tagging mode
      * @param maxTags - Maximum number of tags to return
      * @param language - Language for generated tags
+     * @param options - Optional progress callbacks
      * @returns Promise resolving to tag analysis result
      */
-    async analyzeTags(content: string, existingTags: string[], mode: TaggingMode, maxTags: number, language?: LanguageCode): Promise<LLMResponse> {
+    async analyzeTags(content: string, existingTags: string[], mode: TaggingMode, maxTags: number, language?: LanguageCode, options?: AnalyzeOptions): Promise<LLMResponse> {
         // Use the base class implementation
-        return super.analyzeTags(content, existingTags, mode, maxTags, language);
+        return super.analyzeTags(content, existingTags, mode, maxTags, language, options);
     }
 
     /**
      * Sends a request to the LLM service and returns the response
      * @param prompt - The prompt to send
+     * @param options - Streaming callback and response schema
      * @returns Promise resolving to the response
      */
-    protected async sendRequest(prompt: string): Promise<string> {
+    protected async sendRequest(prompt: string, options: RequestOptions = {}): Promise<string> {
+        const schema = this.getRequestSchema(options.schema);
+        let completion: Completion;
+        try {
+            completion = await this.requestCompletion(prompt, schema, options.onPartialText);
+        } catch (error) {
+            // Servers or models without JSON schema support reject it; fall back to the prompt alone
+            if (!(schema && this.isStructuredOutputRejection(error))) {
+                throw error;
+            }
+            this.debugLog('Structured output was rejected, retrying without it:', error.message);
+            this.rememberSchemaRejection();
+            completion = await this.requestCompletion(prompt, undefined, options.onPartialText);
+        }
+
+        this.reportUsage(options, prompt, completion.text, completion.usage);
+        return completion.text;
+    }
+
+    /**
+     * Sends a chat completion request, streamed when enabled, and returns the completion text
+     * @param prompt - The prompt to send
+     * @param schema - Optional response schema
+     * @param onPartialText - Called with the text received so far when the response is streamed
+     * @returns Promise resolving to the response text and reported token counts; streamed responses have none
+     */
+    private async requestCompletion(
+        prompt: string,
+        schema?: TagResponseSchema,
+        onPartialText?: (text: string) => void
+    ): Promise<Completion> {
+        const body: Record<string, any> = {
+            model: this.modelName,
+            messages: [
+                {
+                    role: 'system',
+                    content: SYSTEM_PROMPT
+                },
+                {
+                    role: 'user',
+                    content: prompt
+                }
+            ],
+            temperature: this.llmTemperatureOverride ?? 0.3
+        };
+        // Ollama, LM Studio and vLLM accept an OpenAI-style JSON schema on this endpoint
+        if (schema) {
+            body.response_format = this.toResponseFormat(schema);
+        }
+
+        // Ollama, LM Studio and other OpenAI-compatible servers stream over server-sent events
+        if (this.streamResponses) {
+            try {
+                const text = await this.fetchStream(this.endpoint, this.authHeaders, { ...body, stream: true }, 'openai', onPartialText);
+                return { text, usage: null };
+            } catch (error) {
+                // fetch may be blocked by CORS; fall back to a regular request, which can go through requestUrl
+                if (!(error instanceof TypeError)) {
+                    throw error;
+                }
+                this.debugLog('Streaming request failed, falling back to a regular request:', error.message);
+            }
+        }
+
         const response = await this.makeRequestWithRetry({
             method: 'POST',
             // Don't specify headers here as they will be merged with auth headers in makeRequest
-            body: JSON.stringify({
-                model: this.modelName,
-                messages: [
-                    {
-                        role: 'system',
-                        content: SYSTEM_PROMPT
-                    },
-                    {
-                        role: 'user',
-                        content: prompt
-                    }
-                ],
-                temperature: this.llmTemperatureOverride ?? 0.3
-            })
+            body: JSON.stringify(body)
         }, this.TIMEOUT);
 
         if (response.status < 200 || response.status >= 300) {
             const errorText = response.text;
-            throw new Error(`HTTP error ${response.status}: ${errorText || ''}`);
+            throw new LLMRequestError(`HTTP error ${response.status}: ${errorText || ''}`, response.status);
         }
 
         const data = JSON.parse(response.text);
@@ -255,14 +293,6 @@ export class LocalLLMService extends BaseLLMService {
             throw new Error('Invalid response format from service');
         }
 
-        return data.choices[0]?.message?.content || '';
-    }
-
-    /**
-     * Gets the maximum content length for this service
-     * @returns Maximum content length
-     */
-    protected getMaxContentLength(): number {
-        return this.MAX_CONTENT_LENGTH;
+        return { text: data.choices[0]?.message?.content || '', usage: parseUsage(data) };
     }
 }
@@ -0,0 +1,327 @@
+import { LLMResponse, LLMServiceConfig, ConnectionTestResult, ConnectionTestError, AnalyzeOptions, RequestOptions, TagResponseSchema, OllamaOptions, DiagnosticTarget } from './types';
+import { SYSTEM_PROMPT, LLM_SERVICE_CONFIG } from '../utils/constants';
+import { BaseLLMService } from './baseService';
+import { TaggingMode } from './prompts/types';
+import { LanguageCode } from './types';
+import { App, requestUrl } from 'obsidian';
+import { extractAuthFromUrl } from './localModelFetcher';
+import { LLMRequestError } from './errors';
+import { Completion, ReportedUsage } from './usage';
+
+/** Context window Ollama uses when a request does not set `num_ctx` */
+const OLLAMA_DEFAULT_CONTEXT = 4096;
+
+/**
+ * Talks to Ollama's native API (`/api/chat` and `/api/show`) instead of its OpenAI-compatible endpoint,
+ * so Ollama's model options can be set and long notes are sized to the model's real context window
+ */
+export class OllamaLLMService extends BaseLLMService {
+    private readonly baseUrl: string;
+    private readonly headers: Record<string, string>;
+    private readonly options: OllamaOptions;
+    private llmTemperatureOverride: number | null = null;
+    // Context window sent as num_ctx, once the model's context length is known
+    private contextLength: number | null = null;
+    private modelInfoRequest: Promise<void> | null = null;
+
+    constructor(config: LLMServiceConfig, app: App) {
+        super(config, app);
+        const { url, headers } = extractAuthFromUrl(config.endpoint.trim());
+        this.baseUrl = OllamaLLMService.getBaseUrl(url);
+        this.headers = headers;
+        this.options = config.ollama ?? { numCtx: 0, numPredict: 0, keepAlive: '' };
+        this.llmTemperatureOverride = typeof config.llmTemperatureOverride === 'number' && Number.isFinite(config.llmTemperatureOverride)
+            ? config.llmTemperatureOverride
+            : null;
+    }
+
+    /**
+     * Gets the server address from an endpoint, which may still point at the OpenAI-compatible
+     * `/v1/chat/completions` path or at a native `/api/...` path
+     * @param endpoint - Configured endpoint
+     * @returns Server address without a trailing slash
+     */
+    static getBaseUrl(endpoint: string): string {
+        return endpoint.replace(/\/+$/, '').replace(/\/(v1|api)(\/.*)?$/, '');
+    }
+
+    private async post(path: string, body: Record<string, any>, timeoutMs: number): Promise<any> {
+        return this.postRequest(`${this.baseUrl}${path}`, this.headers, JSON.stringify(body), timeoutMs);
+    }
+
+    private async postWithRetry(path: string, body: Record<string, any>, timeoutMs: number): Promise<any> {
+        // Missing models and rejected options fail the same way again; the server may be busy loading a model otherwise
+        return this.sendWithRetry(
+            () => this.post(path, body, timeoutMs),
+            JSON.stringify(body),
+            response => (response.status >= 200 && response.status < 300) ||
+                (response.status >= 400 && response.status < 500 && response.status !== 408)
+        );
+    }
+
+    /**
+     * Reads the model's context length from `/api/show` once, and picks the context window to request:
+     * the configured one, limited to what the model supports
+     */
+    private loadModelInfo(): Promise<void> {
+        this.modelInfoRequest ??= (async () => {
+            let modelContext: number | null = null;
+            try {
+                const response = await this.post('/api/show', { model: this.modelName }, 10000);
+                if (response.status >= 200 && response.status < 300) {
+                    modelContext = OllamaLLMService.readContextLength(JSON.parse(response.text));
+                }
+            } catch (error) {
+                this.debugLog('Failed to read the Ollama model info:', error);
+            }
+
+            const configured = this.options.numCtx > 0 ? this.options.numCtx : null;
+            this.contextLength = configured && modelContext ? Math.min(configured, modelContext) : configured ?? modelContext;
+            this.debugLog(`Ollama context window for ${this.modelName}: ${this.contextLength ?? 'server default'} (model supports ${modelContext ?? 'unknown'})`);
+        })();
+        return this.modelInfoRequest;
+    }
+
+    /**
+     * Reads the context length from an `/api/show` response
+     * @param data - Parsed response body
+     * @returns Context length in tokens, or null if the response has none
+     */
+    private static readContextLength(data: any): number | null {
+        const info = data?.model_info ?? {};
+        const key = Object.keys(info).find(name => name.endsWith('.context_length'));
+        const value = key ? Number(info[key]) : NaN;
+        return Number.isFinite(value) && value > 0 ? value : null;
+    }
+
+    getDiagnosticTarget(): DiagnosticTarget {
+        const validationError = this.validateConfig();
+        if (validationError) {
+            throw new Error(validationError);
+        }
+
+        return {
+            url: `${this.baseUrl}/api/chat`,
+            headers: this.headers,
+            body: {
+                model: this.modelName,
+                messages: [{ role: 'user', content: 'Reply with OK' }],
+                stream: false,
+                options: { num_predict: 5 }
+            },
+            model: this.modelName,
+            parseError: response => typeof response?.error === 'string' ? response.error : null,
+            listModels: async () => {
+                const response = await requestUrl({
+                    url: `${this.baseUrl}/api/tags`,
+                    method: 'GET',
+                    headers: this.headers,
+                    throw: false
+                });
+                const models: any[] = response.status === 200 ? JSON.parse(response.text)?.models ?? [] : [];
+                // A model pulled without a tag is listed as name:latest
+                return models
+                    .filter(model => typeof model?.name === 'string')
+                    .flatMap(model => [model.name, model.name.replace(/:latest$/, '')]);
+            }
+        };
+    }
+
+    async testConnection(): Promise<{ result: ConnectionTestResult; error?: ConnectionTestError }> {
+        try {
+            const validationError = this.validateConfig();
+            if (validationError) {
+                return {
+                    result: ConnectionTestResult.Failed,
+                    error: { type: "network", message: validationError }
+                };
+            }
+
+            // /api/show checks both that the server is up and that the model is installed
+            const response = await this.postWithRetry('/api/show', { model: this.modelName }, 10000);
+            if (response.status === 404) {
+                throw new Error(`Model "${this.modelName}" not found. Run "ollama pull ${this.modelName}" first.`);
+            }
+            if (response.status < 200 || response.status >= 300) {
+                throw new Error(`HTTP error ${response.status}: ${response.text || ''}`);
+            }
+
+            return { result: ConnectionTestResult.Success };
+        } catch (error) {
+            return {
+                result: ConnectionTestResult.Failed,
+                error: {
+                    type: "network",
+                    message: error instanceof Error
+                        ? `Service error: ${error.message}`
+                        : "Network error, please check if Ollama is running"
+                }
+            };
+        }
+    }
+
+    /**
+     * Analyzes content and returns tag suggestions, after reading the model's context length
+     * @param content - Content to analyze
+     * @param existingTags - Array of existing tags to consider
+     * @param mode - Tagging mode
+     * @param maxTags - Maximum number of tags to return
+     * @param language - Language for generated tags
+     * @param options - Optional progress callbacks
+     * @returns Promise resolving to tag analysis result
+     */
+    async analyzeTags(content: string, existingTags: string[], mode: TaggingMode, maxTags: number, language?: LanguageCode, options?: AnalyzeOptions): Promise<LLMResponse> {
+        await this.loadModelInfo();
+        return super.analyzeTags(content, existingTags, mode, maxTags, language, options);
+    }
+
+    /**
+     * Gets the URL tag requests are sent to: Ollama's chat endpoint
+     * @returns Request URL
+     */
+    protected getRequestEndpoint(): string {
+        return `${this.baseUrl}/api/chat`;
+    }
+
+    /**
+     * Sends a request to Ollama and returns the response
+     * @param prompt - The prompt to send
+     * @param options - Streaming callback and response schema
+     * @returns Promise resolving to the response
+     */
+    protected async sendRequest(prompt: string, options: RequestOptions = {}): Promise<string> {
+        const schema = this.getRequestSchema(options.schema);
+        let completion: Completion;
+        try {
+            completion = await this.requestCompletion(prompt, schema, options.onPartialText);
+        } catch (error) {
+            // Ollama versions before structured outputs only accept "json" as the format
+            if (!(schema && this.isStructuredOutputRejection(error))) {
+                throw error;
+            }
+            this.debugLog('Structured output was rejected, retrying without it:', error.message);
+            this.rememberSchemaRejection();
+            completion = await this.requestCompletion(prompt, undefined, options.onPartialText);
+        }
+
+        this.reportUsage(options, prompt, completion.text, completion.usage);
+        return completion.text;
+    }
+
+    /**
+     * Sends a chat request, streamed when enabled, and returns the completion text
+     * @param prompt - The prompt to send
+     * @param schema - Optional response schema
+     * @param onPartialText - Called with the text received so far when the response is streamed
+     * @returns Promise resolving to the response text and reported token counts; streamed responses have none
+     */
+    private async requestCompletion(
+        prompt: string,
+        schema?: TagResponseSchema,
+        onPartialText?: (text: string) => void
+    ): Promise<Completion> {
+        const body = this.buildRequestBody(prompt, schema);
+
+        if (this.streamResponses) {
+            try {
+                const text = await this.fetchStream(`${this.baseUrl}/api/chat`, this.headers, { ...body, stream: true }, 'ollama', onPartialText);
+                return { text, usage: null };
+            } catch (error) {
+                // fetch may be blocked by CORS; fall back to a regular request, which can go through requestUrl
+                if (!(error instanceof TypeError)) {
+                    throw error;
+                }
+                this.debugLog('Streaming request failed, falling back to a regular request:', error.message);
+            }
+        }
+
+        const response = await this.postWithRetry('/api/chat', { ...body, stream: false }, this.TIMEOUT);
+        if (response.status < 200 || response.status >= 300) {
+            let message = `HTTP error ${response.status}`;
+            try {
+                message = JSON.parse(response.text).error || message;
+            } catch {
+                // Not a JSON error body; keep the status
+            }
+            throw new LLMRequestError(message, response.status);
+        }
+
+        const data = JSON.parse(response.text);
+        if (typeof data?.message?.content !== 'string') {
+            throw new Error('Invalid response format from service');
+        }
+        return { text: data.message.content, usage: this.parseUsage(data) };
+    }
+
+    /**
+     * Formats an `/api/chat` request with the configured model options
+     * @param prompt - The prompt to send
+     * @param schema - Optional response schema
+     * @returns Request body
+     */
+    private buildRequestBody(prompt: string, schema?: TagResponseSchema): Record<string, any> {
+        const modelOptions: Record<string, number> = {
+            temperature: this.llmTemperatureOverride ?? 0.3
+        };
+        if (this.contextLength) {
+            modelOptions.num_ctx = this.contextLength;
+        }
+        if (this.options.numPredict > 0) {
+            modelOptions.num_predict = this.options.numPredict;
+        }
+
+        const body: Record<string, any> = {
+            model: this.modelName,
+            messages: [
+                { role: 'system', content: SYSTEM_PROMPT },
+                { role: 'user', content: prompt }
+            ],
+            options: modelOptions
+        };
+        if (this.options.keepAlive.trim()) {
+            const keepAlive = this.options.keepAlive.trim();
+            // Plain numbers are seconds; Ollama only reads them as such when they are sent as numbers
+            body.keep_alive = /^-?\d+$/.test(keepAlive) ? Number(keepAlive) : keepAlive;
+        }
+
+        if (schema) {
+            this.debugLog(`Requesting structured output with schema: ${schema.name}`);
+            body.format = schema.schema;
+        } else if (prompt.includes('valid JSON object')) {
+            // The prompt asks for JSON; JSON mode keeps the model from wrapping it in prose
+            body.format = 'json';
+        }
+        return body;
+    }
+
+    /**
+     * Reads the token counts Ollama reports with the final response
+     */
+    private parseUsage(data: any): ReportedUsage | null {
+        const promptTokens = data?.prompt_eval_count;
+        const completionTokens = data?.eval_count;
+        if (typeof promptTokens !== 'number' && typeof completionTokens !== 'number') {
+            return null;
+        }
+        return {
+            promptTokens: typeof promptTokens === 'number' ? promptTokens : undefined,
+            completionTokens: typeof completionTokens === 'number' ? completionTokens : undefined
+        };
+    }
+
+    /**
+     * Gets the context window requests are sent with, once it is known, instead of the registry's
+     * @returns Context window in tokens
+     */
+    protected getContextWindow(): number {
+        return this.contextLength ?? OLLAMA_DEFAULT_CONTEXT;
+    }
+
+    /**
+     * Gets the tokens kept free for the response, at least the configured response length
+     * @returns Reserved tokens
+     */
+    protected getResponseReserve(): number {
+        return Math.max(LLM_SERVICE_CONFIG.RESPONSE_RESERVE_TOKENS, this.options.numPredict);
+    }
+}
@@ -1,5 +1,5 @@
 import { TAG_PREDEFINED_RANGE, TAG_GENERATE_RANGE } from '../../utils/constants';
-import { LanguageCode } from '../types';
+import { LanguageCode, TagResponseSchema } from '../types';
 import { languageNames, getLanguageName } from '../languageUtils';
 import { LanguageUtils } from '../../utils/languageUtils';
 import { SYSTEM_PROMPT } from '../../utils/constants';
@@ -42,6 +42,108 @@ function validateCustomPrompt(prompt: string): string | null {
     return null;
 }
 
+/**
+ * Builds the instruction asking for tags in the configured language
+ * @param mode - Tagging mode
+ * @param language - Language for generated tags
+ * @returns Instruction text, or an empty string if no language is set
+ */
+function getLanguageInstructions(mode: TaggingMode, language?: LanguageCode | 'default'): string {
+    if (language && language !== 'default') {
+        const languageName = LanguageUtils.getLanguageDisplayName(language);
+
+        switch (mode) {
+            case TaggingMode.Hybrid:
+                return `IMPORTANT: Generate all new tags in ${languageName} language only.
+When generating new tags (not selecting from predefined ones), they must be in ${languageName} only.
+
+`;
+
+            case TaggingMode.GenerateNew:
+                return `IMPORTANT: Generate all tags in ${languageName} language only.
+Regardless of what language the content is in, all tags must be in ${languageName} only.
+First understand the content, then if needed translate concepts to ${languageName}, then generate tags in ${languageName}.
+
+`;
+
+            default:
+                return '';
+        }
+    }
+    return '';
+}
+
+/**
+ * Builds the instruction asking for a confidence score per tag, when a confidence threshold is set
+ * @param settings - Plugin settings
+ * @returns Instruction text, or an empty string if confidence scores are not used
+ */
+function getConfidenceInstructions(settings?: AITaggerSettings): string {
+    if (!settings?.confidenceThreshold) {
+        return '';
+    }
+    return `
+
+<confidence>
+Append your confidence that each tag fits the document, from 0.0 to 1.0, to the tag after a colon.
+This applies to every tag, including tags inside JSON arrays.
+Example: machine-learning:0.95, python:0.8, statistics:0.4
+</confidence>`;
+}
+
+/**
+ * Builds the instruction asking for a short reason per tag, when rationale capture is enabled
+ * @param settings - Plugin settings
+ * @returns Instruction text, or an empty string if rationale is not captured
+ */
+function getRationaleInstructions(settings?: AITaggerSettings): string {
+    if (!settings?.captureRationale) {
+        return '';
+    }
+    return `
+
+<rationale>
+After the tags, add a line containing only "RATIONALE:".
+Below it, add one line per tag in the form "tag: reason", where the reason is one short sentence explaining why the tag fits the document.
+</rationale>`;
+}
+
+/**
+ * Builds the JSON schema of the response for the tagging mode, for providers with structured output.
+ * Tags are plain strings unless confidence scores or rationale are requested.
+ * @param mode - Tagging mode
+ * @param settings - Optional plugin settings
+ * @returns Response schema
+ */
+export function buildTagResponseSchema(mode: TaggingMode, settings?: AITaggerSettings): TagResponseSchema {
+    const activeSettings = settings || pluginSettings;
+
+    let item: Record<string, any> = { type: 'string', description: 'Tag in kebab-case, without the # symbol' };
+    if (activeSettings?.confidenceThreshold || activeSettings?.captureRationale) {
+        const properties: Record<string, any> = { tag: item };
+        if (activeSettings.confidenceThreshold) {
+            properties.confidence = { type: 'number', description: 'Confidence from 0.0 to 1.0 that the tag fits the document' };
+        }
+        if (activeSettings.captureRationale) {
+            properties.rationale = { type: 'string', description: 'One short sentence explaining why the tag fits the document' };
+        }
+        item = { type: 'object', properties, required: Object.keys(properties), additionalProperties: false };
+    }
+
+    const properties: Record<string, any> = {};
+    if (mode === TaggingMode.Hybrid || mode === TaggingMode.PredefinedTags) {
+        properties.matchedExistingTags = { type: 'array', description: 'Tags selected from the available tags', items: item };
+    }
+    if (mode !== TaggingMode.PredefinedTags) {
+        properties.suggestedTags = { type: 'array', description: 'New tags generated for the document', items: item };
+    }
+
+    return {
+        name: 'record_tags',
+        schema: { type: 'object', properties, required: Object.keys(properties), additionalProperties: false }
+    };
+}
+
 /**
  * Builds a prompt for tag analysis based on the specified mode
  * @param content - Content to analyze
@@ -63,32 +165,9 @@ export function buildTagPrompt(
     // Use passed settings or fall back to global (for backward compatibility)
     const activeSettings = settings || pluginSettings;
     let prompt = '';
-    let langInstructions = '';
 
     // Prepare language instructions if needed
-    if (language && language !== 'default') {
-        const languageName = LanguageUtils.getLanguageDisplayName(language);
-
-        switch (mode) {
-            case TaggingMode.Hybrid:
-                langInstructions = `IMPORTANT: Generate all new tags in ${languageName} language only.
-When generating new tags (not selecting from predefined ones), they must be in ${languageName} only.
-
-`;
-                break;
-
-            case TaggingMode.GenerateNew:
-                langInstructions = `IMPORTANT: Generate all tags in ${languageName} language only.
-Regardless of what language the content is in, all tags must be in ${languageName} only.
-First understand the content, then if needed translate concepts to ${languageName}, then generate tags in ${languageName}.
-
-`;
-                break;
-
-            default:
-                langInstructions = '';
-        }
-    }
+    const langInstructions = getLanguageInstructions(mode, language);
 
     // Add nested tags instructions if enabled
     if (pluginSettings?.enableNestedTags) {
@@ -277,5 +356,125 @@ Do NOT include explanations or additional text, just the comma-separated tag lis
             throw new Error(`Unsupported tagging mode: ${mode}`);
     }
 
-    return prompt;
-}
\ No newline at end of file
+    return prompt + getConfidenceInstructions(activeSettings) + getRationaleInstructions(activeSettings);
+}
+/**
+ * A tag proposed for one or more chunks of a long note
+ */
+export interface TagCandidate {
+    tag: string;
+    /** Number of chunks the tag was proposed for */
+    count: number;
+}
+
+/**
+ * Builds the consolidation prompt for a long note whose chunks were tagged separately
+ * @param matchedCandidates - Tags selected from the available tags, most frequent first
+ * @param suggestedCandidates - Newly generated tags, most frequent first
+ * @param chunkCount - Number of chunks the note was split into
+ * @param mode - Tagging mode
+ * @param maxTags - Maximum number of tags to return
+ * @param language - Language for generated tags
+ * @param settings - Optional plugin settings (required for Custom mode)
+ * @returns Formatted prompt string
+ */
+export function buildConsolidationPrompt(
+    matchedCandidates: TagCandidate[],
+    suggestedCandidates: TagCandidate[],
+    chunkCount: number,
+    mode: TaggingMode,
+    maxTags: number = 5,
+    language?: LanguageCode | 'default',
+    settings?: AITaggerSettings
+): string {
+    const activeSettings = settings || pluginSettings;
+    const formatCandidates = (candidates: TagCandidate[]) => candidates.length > 0
+        ? candidates.map(({ tag, count }) => `${tag} (${count} of ${chunkCount} sections)`).join('\n')
+        : 'None';
+
+    let prompt = `${getLanguageInstructions(mode, language)}<task>
+The document was too long to analyze at once, so each of its ${chunkCount} sections was tagged separately.
+Consolidate the candidate tags below into the final tags for the whole document.
+</task>
+
+`;
+
+    const consolidationRequirements = `- Merge duplicates and near-duplicates (plural forms, synonyms, different spellings) into a single tag
+- Prefer tags that describe the document as a whole over tags that only fit a single section
+- Tags proposed for more sections are usually more important
+- Rank the tags by relevance, most relevant first
+- Do NOT include the # symbol
+- Do NOT prefix tags with field names or "tag:"${activeSettings?.enableNestedTags ? '\n- Keep hierarchical tags (with /) in their nested form' : ''}`;
+
+    switch (mode) {
+        case TaggingMode.Hybrid:
+            prompt += `<matched_existing_candidates>
+${formatCandidates(matchedCandidates)}
+</matched_existing_candidates>
+
+<suggested_candidates>
+${formatCandidates(suggestedCandidates)}
+</suggested_candidates>
+
+<requirements>
+${consolidationRequirements}
+- Select up to ${maxTags} matched tags ONLY from the matched existing candidates, keeping them exactly as written
+- Select up to ${maxTags} new tags from the suggested candidates
+</requirements>
+
+<output_format>
+Return ONLY a valid JSON object with this exact structure:
+{
+  "matchedExistingTags": ["existing-tag-1", "existing-tag-2"],
+  "suggestedTags": ["new-tag-1", "new-tag-2"]
+}
+</output_format>`;
+            break;
+
+        case TaggingMode.PredefinedTags:
+            prompt += `<candidate_tags>
+${formatCandidates(matchedCandidates)}
+</candidate_tags>
+
+<requirements>
+${consolidationRequirements}
+- Select ONLY from the candidate tags, keeping them exactly as written
+- Return up to ${maxTags} tags maximum
+</requirements>
+
+<output_format>
+Return the selected tags as a comma-separated list.
+
+Do NOT include explanations, just the comma-separated tag list.
+</output_format>`;
+            break;
+
+        case TaggingMode.GenerateNew:
+        case TaggingMode.Custom:
+            prompt += `<candidate_tags>
+${formatCandidates(suggestedCandidates)}
+</candidate_tags>
+${mode === TaggingMode.Custom && activeSettings?.customPrompt ? `
+<custom_instructions>
+${activeSettings.customPrompt}
+</custom_instructions>
+` : ''}
+<requirements>
+${consolidationRequirements}
+- Use kebab-case formatting (lowercase with hyphens)
+- Return up to ${maxTags} tags maximum
+</requirements>
+
+<output_format>
+Return the tags as a comma-separated list.
+
+Do NOT include explanations or additional text, just the comma-separated tag list.
+</output_format>`;
+            break;
+
+        default:
+            throw new Error(`Unsupported tagging mode: ${mode}`);
+    }
+
+    return prompt + getConfidenceInstructions(activeSettings) + getRationaleInstructions(activeSettings);
+}
@@ -24,5 +24,11 @@ export enum TaggingMode {
      * Use a custom prompt defined by the user.
      * The AI will generate tags based on the custom prompt and note content.
      */
-    Custom = 'custom'
+    Custom = 'custom',
+
+    /**
+     * Match predefined tags by embedding similarity.
+     * The note and the tags are embedded and compared without a chat-completion request.
+     */
+    Embedding = 'embedding'
 } 
\ No newline at end of file
@@ -0,0 +1,261 @@
+import { LLM_SERVICE_CONFIG } from '../utils/constants';
+import { LLMRequestError } from './errors';
+
+/** Request limits of a provider; 0 leaves a limit off */
+export interface RateLimits {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+}
+
+const MINUTE = 60000;
+
+/** Limiters shared by every service talking to the same provider */
+const limiters = new Map<string, RateLimiter>();
+
+/**
+ * Gets the limiter shared by all services of a provider, so fallback chains, profiles
+ * and services recreated after a settings change all draw from the same budget
+ * @param key - Provider key, as used for the per-provider settings
+ * @param limits - Configured limits for the provider
+ * @returns The provider's limiter
+ */
+export function getRateLimiter(key: string, limits?: RateLimits): RateLimiter {
+    let limiter = limiters.get(key);
+    if (!limiter) {
+        limiter = new RateLimiter();
+        limiters.set(key, limiter);
+    }
+    limiter.configure(limits ?? { requestsPerMinute: 0, tokensPerMinute: 0 });
+    return limiter;
+}
+
+/**
+ * Token bucket for the requests and tokens sent to one provider.
+ * Requests wait their turn in order, and a rate-limited response pauses every waiting request
+ * until the provider accepts requests again. A budget that resets later than the longest pause,
+ * such as a daily quota, fails the requests until then instead.
+ */
+export class RateLimiter {
+    private limits: RateLimits = { requestsPerMinute: 0, tokensPerMinute: 0 };
+    private requestBudget = 0;
+    private tokenBudget = 0;
+    private lastRefill = Date.now();
+    private pausedUntil = 0;
+    private exhaustedUntil = 0;
+    private queue: Promise<void> = Promise.resolve();
+
+    /** Called when the provider is paused, with the pause length in milliseconds */
+    onPause?: (delayMs: number) => void;
+
+    /**
+     * Updates the limits; the buckets start full when a limit is turned on
+     * @param limits - New limits
+     */
+    configure(limits: RateLimits): void {
+        this.refill();
+        const { requestsPerMinute, tokensPerMinute } = this.limits;
+        this.limits = {
+            requestsPerMinute: Math.max(0, limits.requestsPerMinute || 0),
+            tokensPerMinute: Math.max(0, limits.tokensPerMinute || 0)
+        };
+        this.requestBudget = requestsPerMinute ? Math.min(this.requestBudget, this.limits.requestsPerMinute) : this.limits.requestsPerMinute;
+        this.tokenBudget = tokensPerMinute ? Math.min(this.tokenBudget, this.limits.tokensPerMinute) : this.limits.tokensPerMinute;
+    }
+
+    /**
+     * Waits until the provider has room for a request, then takes it from the budget
+     * @param tokens - Tokens the request is expected to use
+     * @param signal - Aborts the wait, for timeouts and the cancel command
+     * @throws The abort reason if the signal is aborted while waiting
+     */
+    acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+        const turn = this.queue.then(() => this.waitForCapacity(tokens, signal));
+        // A cancelled request must not hold up the ones behind it
+        this.queue = turn.catch(() => undefined);
+        return turn;
+    }
+
+    /**
+     * Pauses every request to the provider
+     * @param delayMs - Pause length in milliseconds
+     */
+    pause(delayMs: number): void {
+        const until = Date.now() + delayMs;
+        if (until > this.pausedUntil) {
+            this.pausedUntil = until;
+            this.onPause?.(delayMs);
+        }
+    }
+
+    /**
+     * Pauses the provider when its rate-limit headers say the budget is used up, or marks it as
+     * exhausted when the budget resets later than the longest pause
+     * @param headers - Response headers
+     */
+    updateFromHeaders(headers: Record<string, string> | undefined): void {
+        const delay = getRateLimitReset(headers);
+        if (delay === null) {
+            return;
+        }
+        if (delay > LLM_SERVICE_CONFIG.MAX_RATE_LIMIT_PAUSE) {
+            this.exhaustedUntil = Math.max(this.exhaustedUntil, Date.now() + delay);
+        } else {
+            this.pause(delay);
+        }
+    }
+
+    private async waitForCapacity(tokens: number, signal?: AbortSignal): Promise<void> {
+        for (;;) {
+            if (signal?.aborted) {
+                throw signal.reason;
+            }
+            const exhausted = this.exhaustedUntil - Date.now();
+            if (exhausted > 0) {
+                throw new LLMRequestError(`Rate limit reached; the provider accepts requests again in ${Math.ceil(exhausted / MINUTE)} min`, 429);
+            }
+
+            this.refill();
+            const { requestsPerMinute, tokensPerMinute } = this.limits;
+            // A request larger than the whole token budget goes through once the bucket is full
+            const needed = Math.min(tokens, tokensPerMinute);
+            const wait = Math.max(
+                this.pausedUntil - Date.now(),
+                requestsPerMinute && this.requestBudget < 1 ? (1 - this.requestBudget) / requestsPerMinute * MINUTE : 0,
+                tokensPerMinute && this.tokenBudget < needed ? (needed - this.tokenBudget) / tokensPerMinute * MINUTE : 0
+            );
+
+            if (wait <= 0) {
+                this.requestBudget -= requestsPerMinute ? 1 : 0;
+                this.tokenBudget -= needed;
+                return;
+            }
+            await sleep(Math.ceil(wait), signal);
+        }
+    }
+
+    private refill(): void {
+        const now = Date.now();
+        const elapsed = now - this.lastRefill;
+        this.lastRefill = now;
+        const { requestsPerMinute, tokensPerMinute } = this.limits;
+        this.requestBudget = Math.min(requestsPerMinute, this.requestBudget + elapsed * requestsPerMinute / MINUTE);
+        this.tokenBudget = Math.min(tokensPerMinute, this.tokenBudget + elapsed * tokensPerMinute / MINUTE);
+    }
+}
+
+/**
+ * Waits for a delay, or until the signal is aborted
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional abort signal
+ * @throws The abort reason if the signal is aborted first
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(signal.reason);
+            return;
+        }
+        const onAbort = () => {
+            clearTimeout(timeoutId);
+            reject(signal?.reason);
+        };
+        const timeoutId = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/**
+ * Computes the delay before retry attempt `attempt` (0-based): exponential backoff with jitter,
+ * so parallel requests that failed together don't retry together
+ * @param attempt - Number of attempts already retried
+ * @returns Delay in milliseconds
+ */
+export function getBackoffDelay(attempt: number): number {
+    const delay = Math.min(LLM_SERVICE_CONFIG.MAX_RETRY_DELAY, LLM_SERVICE_CONFIG.RETRY_DELAY * 2 ** attempt);
+    return Math.round(delay / 2 + Math.random() * delay / 2);
+}
+
+/**
+ * Reads how long a rate-limited provider asks clients to wait, from `Retry-After`
+ * or else from the rate-limit reset headers
+ * @param headers - Response headers
+ * @returns Delay in milliseconds, or null if the headers don't say
+ */
+export function getRetryAfter(headers: Record<string, string> | undefined): number | null {
+    const retryAfter = getHeader(headers, 'retry-after');
+    if (retryAfter) {
+        const seconds = Number(retryAfter);
+        const delay = Number.isFinite(seconds) ? seconds * 1000 : Date.parse(retryAfter) - Date.now();
+        if (Number.isFinite(delay)) {
+            return Math.max(0, delay);
+        }
+    }
+    return getRateLimitReset(headers, true);
+}
+
+/**
+ * Reads when the provider's rate-limit budget resets, from the `x-ratelimit-*` headers
+ * (OpenAI, Groq, OpenRouter and others) and the `anthropic-ratelimit-*` headers
+ * @param headers - Response headers
+ * @param exhausted - Treat the budget as used up even when the headers still report some left
+ * @returns Delay in milliseconds until the longest exhausted budget resets, or null if none is exhausted
+ */
+function getRateLimitReset(headers: Record<string, string> | undefined, exhausted = false): number | null {
+    const budgets = [
+        ['x-ratelimit-remaining-requests', 'x-ratelimit-reset-requests'],
+        ['x-ratelimit-remaining-tokens', 'x-ratelimit-reset-tokens'],
+        ['x-ratelimit-remaining', 'x-ratelimit-reset'],
+        ['anthropic-ratelimit-requests-remaining', 'anthropic-ratelimit-requests-reset'],
+        ['anthropic-ratelimit-tokens-remaining', 'anthropic-ratelimit-tokens-reset']
+    ];
+
+    let delay: number | null = null;
+    for (const [remainingHeader, resetHeader] of budgets) {
+        const remaining = Number(getHeader(headers, remainingHeader) ?? NaN);
+        const reset = parseResetTime(getHeader(headers, resetHeader));
+        if (reset !== null && (remaining <= 0 || (exhausted && Number.isNaN(remaining)))) {
+            delay = Math.max(delay ?? 0, reset);
+        }
+    }
+    return delay;
+}
+
+/**
+ * Parses a rate-limit reset value: a duration such as `6m0s` or `20ms`, a timestamp in
+ * seconds or milliseconds, a number of seconds, or a date
+ * @param value - Header value
+ * @returns Delay in milliseconds, or null if the value cannot be read
+ */
+function parseResetTime(value: string | undefined): number | null {
+    if (!value) {
+        return null;
+    }
+
+    const trimmed = value.trim();
+    if (/^\d+(\.\d+)?$/.test(trimmed)) {
+        const number = Number(trimmed);
+        if (number > 1e12) return Math.max(0, number - Date.now());         // Timestamp in milliseconds
+        if (number > 1e9) return Math.max(0, number * 1000 - Date.now());   // Timestamp in seconds
+        return number * 1000;
+    }
+
+    const units: Record<string, number> = { ms: 1, s: 1000, m: MINUTE, h: 60 * MINUTE };
+    const parts = [...trimmed.matchAll(/(\d+(?:\.\d+)?)(ms|s|m|h)/g)];
+    if (parts.length && parts.map(part => part[0]).join('') === trimmed) {
+        return parts.reduce((total, [, amount, unit]) => total + Number(amount) * units[unit], 0);
+    }
+
+    const date = Date.parse(trimmed);
+    return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+    if (!headers) {
+        return undefined;
+    }
+    const key = Object.keys(headers).find(header => header.toLowerCase() === name);
+    return key === undefined ? undefined : headers[key];
+}
@@ -0,0 +1,117 @@
+/**
+ * Server-sent event formats understood by the streaming request path.
+ * `openai` covers OpenAI, Gemini's OpenAI-compatible endpoint and local servers such as Ollama and LM Studio.
+ * `ollama` is the newline-delimited JSON of Ollama's native API.
+ */
+export type StreamFormat = 'openai' | 'claude' | 'ollama';
+
+/**
+ * Reads a streamed chat completion and returns the full text
+ * @param response - Fetch response with a server-sent event body
+ * @param format - Event format of the provider
+ * @param onText - Called with the text received so far after every chunk
+ * @returns Complete response text
+ * @throws Error if the stream reports an error
+ */
+export async function readStreamedCompletion(
+    response: Response,
+    format: StreamFormat,
+    onText?: (text: string) => void
+): Promise<string> {
+    if (!response.body) {
+        throw new Error('Streaming is not supported for this response');
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let text = '';
+
+    const handleLine = (line: string) => {
+        const delta = parseStreamLine(line, format);
+        if (delta) {
+            text += delta;
+            onText?.(text);
+        }
+    };
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split(/\r?\n/);
+        // The last line may be incomplete; keep it for the next chunk
+        buffer = lines.pop() ?? '';
+        lines.forEach(handleLine);
+    }
+
+    buffer += decoder.decode();
+    if (buffer) {
+        handleLine(buffer);
+    }
+    return text;
+}
+
+/**
+ * Extracts the text delta from one server-sent event line
+ */
+function parseStreamLine(line: string, format: StreamFormat): string {
+    const trimmed = line.trim();
+    if (format !== 'ollama' && !trimmed.startsWith('data:')) {
+        return '';
+    }
+
+    const data = format === 'ollama' ? trimmed : trimmed.substring(5).trim();
+    if (!data || data === '[DONE]') {
+        return '';
+    }
+
+    let event: any;
+    try {
+        event = JSON.parse(data);
+    } catch {
+        return '';
+    }
+
+    if (event?.error) {
+        throw new Error(event.error.message || (typeof event.error === 'string' ? event.error : 'Stream error'));
+    }
+
+    switch (format) {
+        case 'claude':
+            if (event.type !== 'content_block_delta') {
+                return '';
+            }
+            // Tool-use responses (structured output) stream their input as partial JSON
+            return event.delta?.text ?? event.delta?.partial_json ?? '';
+        case 'ollama':
+            return event.message?.content ?? '';
+        case 'openai':
+        default:
+            return event.choices?.[0]?.delta?.content ?? '';
+    }
+}
+
+/**
+ * Picks the tags out of an incomplete response, for showing progress while it streams
+ * @param text - Response text received so far
+ * @returns Tags found so far, without confidence suffixes
+ */
+export function extractPartialTags(text: string): string[] {
+    const tagText = text.split(/^[\s*#]*RATIONALE:/mi)[0];
+
+    // JSON output: take the complete quoted strings that are not field names
+    const parts = tagText.includes('"')
+        ? [...tagText.matchAll(/"([^"]*)"(\s*:)?/g)].filter(match => !match[2]).map(match => match[1])
+        : tagText.split(/[,\n]/);
+
+    const tags = parts
+        .map(part => part
+            .replace(/^\s*(?:[-*]|\d+\.)\s+/, '')
+            .replace(/\s*(?::|\()\s*[\d.]+%?\)?\s*$/, '')
+            .replace(/^#/, '')
+            .trim())
+        .filter(tag => tag.length > 0 && !tag.includes(' ') && !tag.startsWith('`'));
+    return [...new Set(tags)];
+}
@@ -1,6 +1,9 @@
 import { TaggingMode } from './prompts/types';
+import type { RateLimiter } from './rateLimiter';
+import type { ResponseCache } from '../utils/responseCache';
+import type { AITaggerSettings } from '../core/settings';
 
-export const MAX_CONCURRENT_REQUESTS = 3;
+export { MAX_CONCURRENT_REQUESTS } from '../utils/constants';
 
 export type LanguageCode =
     | "default"
@@ -28,9 +31,29 @@ export type LanguageCode =
     | "zh"
     | "zh-TW";
 
+/**
+ * How notes longer than the request limit are analyzed:
+ * `truncate` sends only the opening, `chunk` tags each section and consolidates the results
+ */
+export type LongNoteStrategy = 'truncate' | 'chunk';
+
 export interface LLMResponse {
     suggestedTags: string[];
     matchedExistingTags?: string[];
+    /** Confidence (0-1) reported by the model, keyed by tag; tags without a value were not scored */
+    confidence?: Record<string, number>;
+    /** One-line explanation per tag, when the model was asked for it */
+    rationale?: Record<string, string>;
+    /** Provider and model that produced the result, set by the fallback chain */
+    source?: ProviderInfo;
+}
+
+/**
+ * Identifies the provider and model behind an LLM service
+ */
+export interface ProviderInfo {
+    provider: string;
+    model: string;
 }
 
 export interface LLMServiceConfig {
@@ -41,6 +64,99 @@ export interface LLMServiceConfig {
     language?: LanguageCode;
     llmTemperatureOverride?: number | null;
     requestTimeout?: number;
+    longNoteStrategy?: LongNoteStrategy;
+    /** Most sections of a long note tagged with the `chunk` strategy; the others are skipped */
+    maxChunks?: number;
+    /** Context window of the model in tokens; a conservative default when unknown */
+    contextWindow?: number;
+    /** Most note tokens sent in one request; 0 fills the context window */
+    maxContentTokens?: number;
+    /** Stream responses over server-sent events where the provider supports it */
+    stream?: boolean;
+    /** Ask providers with a structured-output feature for responses that follow the tag schema */
+    structuredOutput?: boolean;
+    /** Limiter shared by the services of the same provider */
+    rateLimiter?: RateLimiter;
+    /** Cache answering prompts sent to the same model before */
+    responseCache?: ResponseCache;
+    /** Model options for Ollama's native API */
+    ollama?: OllamaOptions;
+}
+
+/**
+ * Model options sent to Ollama's native API; 0 or an empty value leaves Ollama's default
+ */
+export interface OllamaOptions {
+    /** Context window in tokens; 0 uses the model's full context length */
+    numCtx: number;
+    /** Maximum tokens to generate */
+    numPredict: number;
+    /** How long the model stays loaded after a request, such as `5m` or `-1` */
+    keepAlive: string;
+}
+
+/**
+ * JSON schema of a tag response, for providers with a structured-output feature
+ */
+export interface TagResponseSchema {
+    /** Schema name, also used as the tool name where structured output goes through tool use */
+    name: string;
+    schema: Record<string, any>;
+}
+
+/**
+ * Token counts of one request
+ */
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    /** Set when a count was estimated from the text because the provider did not report it */
+    estimated: boolean;
+}
+
+export interface RequestOptions {
+    /** Called with the text received so far when the response is streamed */
+    onPartialText?: (text: string) => void;
+    /** Schema the response should follow, for providers with a structured-output feature */
+    schema?: TagResponseSchema;
+    /** Called with the token counts after the request completes */
+    onUsage?: (usage: TokenUsage) => void;
+    /** Called for every request sent to the provider, whether or not it succeeds */
+    onRequest?: (request: RequestRecord) => void;
+}
+
+/**
+ * A request sent to a provider, for the request audit log
+ */
+export interface RequestRecord {
+    /** URL the request was sent to */
+    endpoint: string;
+    model: string;
+    /** Prompt that was sent, without the system prompt */
+    prompt: string;
+    status: 'success' | 'error' | 'cancelled';
+    /** HTTP status of a failed request, when the provider answered */
+    httpStatus?: number;
+    error?: string;
+    /** Tags read from the response */
+    tags: string[];
+}
+
+export interface AnalyzeOptions {
+    /** Called with the tags received so far while a streamed response arrives */
+    onPartialTags?: (tags: string[]) => void;
+    /**
+     * Called with the token counts of every request the analysis makes.
+     * The fallback chain passes the provider that handled the request.
+     */
+    onUsage?: (usage: TokenUsage, source?: ProviderInfo) => void;
+    /**
+     * Called for every request the analysis sends; answers from the response cache send none.
+     * The fallback chain passes the provider that handled the request.
+     */
+    onRequest?: (request: RequestRecord, source?: ProviderInfo) => void;
+    /** Settings the prompt is built from instead of the plugin settings, such as those of a folder rule */
+    settings?: AITaggerSettings;
 }
 
 export interface LLMService {
@@ -49,18 +165,43 @@ export interface LLMService {
         candidateTags: string[],
         mode: TaggingMode,
         maxTags: number,
-        language?: LanguageCode
+        language?: LanguageCode,
+        options?: AnalyzeOptions
     ): Promise<LLMResponse>;
 
     testConnection(): Promise<{ result: ConnectionTestResult; error?: ConnectionTestError }>;
 
+    /**
+     * Describes the request connection diagnostics send to check the service step by step
+     * @throws Error if the configuration is incomplete, such as a missing API key
+     */
+    getDiagnosticTarget(): DiagnosticTarget;
+
     formatRequest(prompt: string, language?: string): any;
 
     dispose(): Promise<void>;
 
+    cancelActiveRequests(): number;
+
     setDebugMode(enabled: boolean): void;
 }
 
+/**
+ * A minimal completion request for connection diagnostics, and how to read the server's answers
+ */
+export interface DiagnosticTarget {
+    /** Completion endpoint */
+    url: string;
+    headers: Record<string, string>;
+    /** Body of a short completion request */
+    body: Record<string, any>;
+    model: string;
+    /** Reads the error message from an error response */
+    parseError(response: any): string | null;
+    /** Lists the models the server offers, where it has a model list */
+    listModels?(): Promise<string[]>;
+}
+
 export interface ConnectionTestError {
     type: "auth" | "network" | "timeout" | "unknown";
     message: string;
@@ -0,0 +1,73 @@
+import { BaseResponse } from './adapters/types';
+
+export type ReportedUsage = NonNullable<BaseResponse['usage']>;
+
+/**
+ * Reads the token counts from a completion response.
+ * Covers the OpenAI (`prompt_tokens`), Anthropic (`input_tokens`) and Cohere (`meta.billed_units`) formats.
+ * @param data - Parsed response body
+ * @returns Reported counts, or null if the response has none
+ */
+export function parseUsage(data: any): ReportedUsage | null {
+    const usage = data?.usage ?? data?.meta?.billed_units;
+    if (!usage || typeof usage !== 'object') {
+        return null;
+    }
+
+    const promptTokens = usage.prompt_tokens ?? usage.input_tokens;
+    const completionTokens = usage.completion_tokens ?? usage.output_tokens;
+    if (typeof promptTokens !== 'number' && typeof completionTokens !== 'number') {
+        return null;
+    }
+
+    return {
+        promptTokens: typeof promptTokens === 'number' ? promptTokens : undefined,
+        completionTokens: typeof completionTokens === 'number' ? completionTokens : undefined,
+        totalTokens: typeof usage.total_tokens === 'number' ? usage.total_tokens : undefined
+    };
+}
+
+/**
+ * Estimates the token count of a text for providers that don't report usage.
+ * Counts about four characters per token, and one token per CJK character.
+ * @param text - Text sent or received
+ * @returns Estimated token count
+ */
+export function estimateTokens(text: string): number {
+    const cjk = text.match(/[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/g)?.length ?? 0;
+    return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+/**
+ * Cuts a text to its longest beginning that fits a token budget, by the same estimate as estimateTokens
+ * @param text - Text to cut
+ * @param maxTokens - Token budget
+ * @returns The text itself if it fits, otherwise its beginning
+ */
+export function truncateToTokens(text: string, maxTokens: number): string {
+    // Every character counts at least a quarter token, so no longer beginning can fit
+    const limit = Math.min(text.length, Math.max(0, maxTokens) * 4 + 4);
+    if (limit === text.length && estimateTokens(text) <= maxTokens) {
+        return text;
+    }
+    // The estimate grows with the length, so the longest fitting beginning can be found by bisection
+    let low = 0;
+    let high = limit;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if (estimateTokens(text.slice(0, middle)) <= maxTokens) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return text.slice(0, low);
+}
+
+/**
+ * Response text of a request with the token counts the provider reported
+ */
+export interface Completion {
+    text: string;
+    usage: ReportedUsage | null;
+}
@@ -0,0 +1,135 @@
+import { App, Modal, Notice } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { DIAGNOSTIC_STEPS, DiagnosticStep, DiagnosticStepId } from '../../services/diagnostics';
+
+const STATUS_ICONS: Record<DiagnosticStep['status'] | 'pending', string> = {
+    pass: '✓',
+    fail: '✗',
+    skip: '–',
+    pending: '…'
+};
+
+/**
+ * Runs the connection diagnostics and shows each step as it finishes
+ */
+export class ConnectionDiagnosticsModal extends Modal {
+    private t: Translations;
+    private run: (onStep: (step: DiagnosticStep) => void) => Promise<DiagnosticStep[]>;
+    private steps = new Map<DiagnosticStepId, DiagnosticStep>();
+    private listEl: HTMLElement | null = null;
+    private runButton: HTMLButtonElement | null = null;
+    private running = false;
+
+    constructor(
+        app: App,
+        t: Translations,
+        run: (onStep: (step: DiagnosticStep) => void) => Promise<DiagnosticStep[]>
+    ) {
+        super(app);
+        this.t = t;
+        this.run = run;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('connection-diagnostics-modal');
+
+        contentEl.createEl('h3', { text: this.t.diagnostics.title });
+        contentEl.createEl('p', { text: this.t.diagnostics.description, cls: 'setting-item-description' });
+
+        this.listEl = contentEl.createDiv({ cls: 'connection-diagnostics-list' });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'connection-diagnostics-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.diagnostics.copyReport })
+            .addEventListener('click', async () => {
+                await navigator.clipboard.writeText(this.formatReport());
+                new Notice(this.t.diagnostics.copied);
+            });
+
+        this.runButton = buttonContainer.createEl('button', { text: this.t.diagnostics.runAgain, cls: 'mod-cta' });
+        this.runButton.addEventListener('click', () => this.runDiagnostics());
+
+        this.runDiagnostics();
+    }
+
+    private async runDiagnostics(): Promise<void> {
+        if (this.running) return;
+        this.running = true;
+        this.runButton?.setAttr('disabled', true);
+        this.steps.clear();
+        this.renderSteps();
+
+        try {
+            await this.run(step => {
+                this.steps.set(step.id, step);
+                this.renderSteps();
+            });
+        } catch (error) {
+            new Notice(`${this.t.diagnostics.title}: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            this.running = false;
+            this.runButton?.removeAttribute('disabled');
+        }
+    }
+
+    private renderSteps(): void {
+        if (!this.listEl) return;
+        this.listEl.empty();
+
+        for (const id of DIAGNOSTIC_STEPS) {
+            const step = this.steps.get(id);
+            const status = step?.status ?? 'pending';
+            const itemEl = this.listEl.createDiv({ cls: `connection-diagnostics-item ${status}` });
+
+            const headerEl = itemEl.createDiv({ cls: 'connection-diagnostics-header' });
+            headerEl.createSpan({ text: STATUS_ICONS[status], cls: 'connection-diagnostics-icon' });
+            headerEl.createSpan({ text: this.t.diagnostics.steps[id], cls: 'connection-diagnostics-name' });
+            if (step?.latencyMs !== undefined) {
+                headerEl.createSpan({ text: `${step.latencyMs} ms`, cls: 'connection-diagnostics-latency' });
+            }
+
+            if (!step) continue;
+
+            if (step.detail) {
+                itemEl.createDiv({ text: step.detail, cls: 'connection-diagnostics-detail' });
+            }
+            if (step.fix) {
+                itemEl.createDiv({ text: this.t.diagnostics.fixes[step.fix], cls: 'connection-diagnostics-fix' });
+            }
+            if (step.request || step.response) {
+                const detailsEl = itemEl.createEl('details');
+                detailsEl.createEl('summary', { text: this.t.diagnostics.excerpts });
+                if (step.request) {
+                    detailsEl.createDiv({ text: this.t.diagnostics.request, cls: 'connection-diagnostics-label' });
+                    detailsEl.createEl('pre', { text: step.request });
+                }
+                if (step.response) {
+                    detailsEl.createDiv({ text: this.t.diagnostics.response, cls: 'connection-diagnostics-label' });
+                    detailsEl.createEl('pre', { text: step.response });
+                }
+            }
+        }
+    }
+
+    /**
+     * Formats the results as plain text, for sharing in bug reports
+     */
+    private formatReport(): string {
+        return DIAGNOSTIC_STEPS.map(id => {
+            const step = this.steps.get(id);
+            const status = step?.status ?? 'pending';
+            const lines = [`${STATUS_ICONS[status]} ${this.t.diagnostics.steps[id]}${step?.latencyMs !== undefined ? ` (${step.latencyMs} ms)` : ''}`];
+            if (step?.detail) lines.push(`  ${step.detail}`);
+            if (step?.fix) lines.push(`  ${this.t.diagnostics.fixes[step.fix]}`);
+            if (step?.request) lines.push(step.request.replace(/^/gm, '    > '));
+            if (step?.response) lines.push(step.response.replace(/^/gm, '    < '));
+            return lines.join('\n');
+        }).join('\n');
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,165 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { CustomAdapter, CustomProviderDefinition } from '../../services/adapters';
+
+/** Body template of a new provider: an OpenAI-style chat completion request */
+const DEFAULT_BODY = {
+    model: '{{model}}',
+    messages: '{{messages}}',
+    temperature: '{{temperature}}'
+};
+
+export class CustomProviderEditModal extends Modal {
+    private t: Translations;
+    private provider: CustomProviderDefinition | null;
+    private onSave: (provider: CustomProviderDefinition) => void;
+    private draft: CustomProviderDefinition;
+    // JSON fields are kept as typed and parsed on save
+    private headersInput: string;
+    private bodyInput: string;
+
+    constructor(
+        app: App,
+        t: Translations,
+        provider: CustomProviderDefinition | null,
+        onSave: (provider: CustomProviderDefinition) => void
+    ) {
+        super(app);
+        this.t = t;
+        this.provider = provider;
+        this.onSave = onSave;
+        this.draft = provider ? structuredClone(provider) : {
+            id: '',
+            name: '',
+            endpoint: '',
+            authHeader: 'Authorization',
+            authPrefix: 'Bearer ',
+            headers: {},
+            body: DEFAULT_BODY,
+            responsePath: ['choices', 0, 'message', 'content'],
+            errorPath: ['error', 'message']
+        };
+        this.headersInput = Object.keys(this.draft.headers).length > 0 ? JSON.stringify(this.draft.headers, null, 2) : '';
+        this.bodyInput = JSON.stringify(this.draft.body, null, 2);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('custom-provider-edit-modal');
+
+        contentEl.createEl('h3', {
+            text: this.provider ? this.t.customProviders.editProvider : this.t.customProviders.addProvider
+        });
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.name)
+            .addText(text => {
+                text.setValue(this.draft.name)
+                    .onChange(value => this.draft.name = value);
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.apiEndpoint)
+            .setDesc(this.t.customProviders.endpointDesc)
+            .addText(text => {
+                text.setPlaceholder('https://api.example.com/v1/chat/completions')
+                    .setValue(this.draft.endpoint)
+                    .onChange(value => this.draft.endpoint = value.trim());
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.authHeader)
+            .setDesc(this.t.customProviders.authHeaderDesc)
+            .addText(text => text
+                .setPlaceholder('Authorization')
+                .setValue(this.draft.authHeader)
+                .onChange(value => this.draft.authHeader = value.trim()))
+            .addText(text => text
+                .setPlaceholder('Bearer ')
+                .setValue(this.draft.authPrefix)
+                .onChange(value => this.draft.authPrefix = value));
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.headers)
+            .setDesc(this.t.customProviders.headersDesc)
+            .addTextArea(text => {
+                text.setPlaceholder('{ "anthropic-version": "2023-06-01" }')
+                    .setValue(this.headersInput)
+                    .onChange(value => this.headersInput = value);
+                text.inputEl.style.width = '300px';
+                text.inputEl.style.height = '60px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.body)
+            .setDesc(this.t.customProviders.bodyDesc)
+            .addTextArea(text => {
+                text.setValue(this.bodyInput)
+                    .onChange(value => this.bodyInput = value);
+                text.inputEl.style.width = '300px';
+                text.inputEl.style.height = '140px';
+                text.inputEl.style.fontFamily = 'var(--font-monospace)';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.responsePath)
+            .setDesc(this.t.customProviders.responsePathDesc)
+            .addText(text => {
+                text.setPlaceholder('choices.0.message.content')
+                    .setValue(this.draft.responsePath.join('.'))
+                    .onChange(value => this.draft.responsePath = value.split('.').map(key => key.trim()).filter(Boolean));
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.customProviders.errorPath)
+            .setDesc(this.t.customProviders.errorPathDesc)
+            .addText(text => {
+                text.setPlaceholder('error.message')
+                    .setValue(this.draft.errorPath.join('.'))
+                    .onChange(value => this.draft.errorPath = value.split('.').map(key => key.trim()).filter(Boolean));
+                text.inputEl.style.width = '300px';
+            });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'custom-provider-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.fallbackProviders.cancel })
+            .addEventListener('click', () => this.close());
+
+        const saveBtn = buttonContainer.createEl('button', {
+            text: this.t.fallbackProviders.save,
+            cls: 'mod-cta'
+        });
+        saveBtn.addEventListener('click', () => this.handleSave());
+    }
+
+    private handleSave(): void {
+        let headers: unknown;
+        let body: unknown;
+        try {
+            headers = this.headersInput.trim() ? JSON.parse(this.headersInput) : {};
+            body = JSON.parse(this.bodyInput);
+        } catch (error) {
+            new Notice(this.t.customProviders.invalidJson.replace('{error}', error instanceof Error ? error.message : String(error)));
+            return;
+        }
+
+        let provider: CustomProviderDefinition;
+        try {
+            provider = CustomAdapter.parseDefinition({ ...this.draft, headers, body });
+        } catch (error) {
+            new Notice(error instanceof Error ? error.message : String(error));
+            return;
+        }
+
+        this.onSave(provider);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
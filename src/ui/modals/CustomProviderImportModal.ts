@@ -0,0 +1,71 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { CustomAdapter, CustomProviderDefinition } from '../../services/adapters';
+
+/**
+ * Reads provider definitions pasted as JSON: one definition, or an array of them
+ */
+export class CustomProviderImportModal extends Modal {
+    private t: Translations;
+    private onImport: (providers: CustomProviderDefinition[]) => void;
+    private input = '';
+
+    constructor(app: App, t: Translations, onImport: (providers: CustomProviderDefinition[]) => void) {
+        super(app);
+        this.t = t;
+        this.onImport = onImport;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('custom-provider-edit-modal');
+
+        contentEl.createEl('h3', { text: this.t.customProviders.importTitle });
+        contentEl.createEl('p', {
+            text: this.t.customProviders.importDesc,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(contentEl)
+            .addTextArea(text => {
+                text.setValue(this.input)
+                    .onChange(value => this.input = value);
+                text.inputEl.style.width = '100%';
+                text.inputEl.style.height = '200px';
+                text.inputEl.style.fontFamily = 'var(--font-monospace)';
+            });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'custom-provider-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.fallbackProviders.cancel })
+            .addEventListener('click', () => this.close());
+
+        const importBtn = buttonContainer.createEl('button', {
+            text: this.t.customProviders.import,
+            cls: 'mod-cta'
+        });
+        importBtn.addEventListener('click', () => this.handleImport());
+    }
+
+    private handleImport(): void {
+        let providers: CustomProviderDefinition[];
+        try {
+            const parsed: unknown = JSON.parse(this.input);
+            providers = (Array.isArray(parsed) ? parsed : [parsed]).map(raw => CustomAdapter.parseDefinition(raw));
+        } catch (error) {
+            new Notice(this.t.customProviders.invalidJson.replace('{error}', error instanceof Error ? error.message : String(error)));
+            return;
+        }
+        if (providers.length === 0) {
+            return;
+        }
+
+        this.onImport(providers);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
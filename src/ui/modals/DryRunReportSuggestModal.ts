@@ -0,0 +1,29 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+import { Translations } from '../../i18n/types';
+
+/**
+ * Lets the user pick a dry-run report note to apply
+ */
+export class DryRunReportSuggestModal extends FuzzySuggestModal<TFile> {
+    private reports: TFile[];
+    private onChoose: (file: TFile) => void;
+
+    constructor(app: App, t: Translations, reports: TFile[], onChoose: (file: TFile) => void) {
+        super(app);
+        this.reports = reports;
+        this.onChoose = onChoose;
+        this.setPlaceholder(t.dryRun.selectReport);
+    }
+
+    getItems(): TFile[] {
+        return this.reports;
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.onChoose(file);
+    }
+}
@@ -0,0 +1,181 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { FallbackProvider } from '../../core/settings';
+import { AdapterType, CustomProviderDefinition } from '../../services/adapters';
+
+/**
+ * Gets the display names of the cloud providers, keyed by adapter type
+ * @param customProviders - Providers defined in settings, listed after the built-in ones
+ */
+export function getCloudProviderOptions(t: Translations, customProviders: CustomProviderDefinition[] = []): Record<string, string> {
+    const options: Record<string, string> = {
+        'openai': t.dropdowns.openai,
+        'gemini': t.dropdowns.gemini,
+        'deepseek': t.dropdowns.deepseek,
+        'aliyun': t.dropdowns.aliyun,
+        'claude': t.dropdowns.claude,
+        'groq': t.dropdowns.groq,
+        'vertex': t.dropdowns.vertex,
+        'openrouter': t.dropdowns.openrouter,
+        'bedrock': t.dropdowns.bedrock,
+        'requesty': t.dropdowns.requesty,
+        'cohere': t.dropdowns.cohere,
+        'grok': t.dropdowns.grok,
+        'mistral': t.dropdowns.mistral,
+        'glm': t.dropdowns.glm,
+        'mimo': t.dropdowns.mimo,
+        'minimax': t.dropdowns.minimax,
+        'openai-compatible': t.dropdowns.openaiCompatible
+    };
+    for (const provider of customProviders) {
+        options[`custom:${provider.id}`] = provider.name;
+    }
+    return options;
+}
+
+/**
+ * Gets the display names of the APIs a local server can be called with
+ */
+export function getLocalApiOptions(t: Translations): Record<string, string> {
+    return {
+        'openai_compatible': t.settings.llm.localApiOpenAI,
+        'ollama': t.settings.llm.localApiOllama
+    };
+}
+
+export class FallbackProviderEditModal extends Modal {
+    private t: Translations;
+    private customProviders: CustomProviderDefinition[];
+    private provider: FallbackProvider | null;
+    private onSave: (provider: FallbackProvider) => void;
+    private draft: FallbackProvider;
+
+    constructor(
+        app: App,
+        t: Translations,
+        customProviders: CustomProviderDefinition[],
+        provider: FallbackProvider | null,
+        onSave: (provider: FallbackProvider) => void
+    ) {
+        super(app);
+        this.t = t;
+        this.customProviders = customProviders;
+        this.provider = provider;
+        this.onSave = onSave;
+        this.draft = provider ? { ...provider } : {
+            id: crypto.randomUUID(),
+            serviceType: 'cloud',
+            cloudServiceType: 'openai',
+            endpoint: '',
+            apiKey: '',
+            model: ''
+        };
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('fallback-provider-edit-modal');
+
+        contentEl.createEl('h3', {
+            text: this.provider ? this.t.fallbackProviders.editProvider : this.t.fallbackProviders.addProvider
+        });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.serviceType)
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOptions({
+                        'local': this.t.dropdowns.localLLM,
+                        'cloud': this.t.dropdowns.cloudService
+                    })
+                    .setValue(this.draft.serviceType)
+                    .onChange(value => {
+                        this.draft.serviceType = value as 'local' | 'cloud';
+                        // Show the fields of the chosen service type
+                        this.onOpen();
+                    })
+            );
+
+        if (this.draft.serviceType === 'local') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.localApi)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOptions(getLocalApiOptions(this.t))
+                        .setValue(this.draft.localServiceType === 'ollama' ? 'ollama' : 'openai_compatible')
+                        .onChange(value => this.draft.localServiceType = value === 'ollama' ? 'ollama' : undefined)
+                );
+        }
+
+        if (this.draft.serviceType === 'cloud') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.cloudProvider)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOptions(getCloudProviderOptions(this.t, this.customProviders))
+                        .setValue(this.draft.cloudServiceType)
+                        .onChange(value => this.draft.cloudServiceType = value as AdapterType)
+                );
+        }
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.apiEndpoint)
+            .setDesc(this.t.fallbackProviders.endpointDesc)
+            .addText(text => {
+                text.setPlaceholder(this.draft.serviceType === 'local' ? 'http://localhost:11434/v1/chat/completions' : '')
+                    .setValue(this.draft.endpoint)
+                    .onChange(value => this.draft.endpoint = value.trim());
+                text.inputEl.style.width = '300px';
+            });
+
+        if (this.draft.serviceType === 'cloud') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.apiKey)
+                .addText(text => {
+                    text.setValue(this.draft.apiKey)
+                        .onChange(value => this.draft.apiKey = value.trim());
+                    text.inputEl.type = 'password';
+                    text.inputEl.style.width = '300px';
+                });
+        }
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.modelName)
+            .addText(text => {
+                text.setValue(this.draft.model)
+                    .onChange(value => this.draft.model = value.trim());
+                text.inputEl.style.width = '300px';
+            });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'fallback-provider-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.fallbackProviders.cancel })
+            .addEventListener('click', () => this.close());
+
+        const saveBtn = buttonContainer.createEl('button', {
+            text: this.t.fallbackProviders.save,
+            cls: 'mod-cta'
+        });
+        saveBtn.addEventListener('click', () => this.handleSave());
+    }
+
+    private handleSave(): void {
+        if (!this.draft.model) {
+            new Notice(this.t.fallbackProviders.emptyModel);
+            return;
+        }
+        // Cloud adapters fall back to the provider's default endpoint; local services have none
+        if (this.draft.serviceType === 'local' && !this.draft.endpoint) {
+            new Notice(this.t.fallbackProviders.emptyEndpoint);
+            return;
+        }
+
+        this.onSave(this.draft);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,169 @@
+import { App, Modal, Setting, Notice, TextComponent } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { FolderRule, ProviderProfile, TagFormat } from '../../core/settings';
+import { TaggingMode } from '../../services/prompts/types';
+import { LanguageCode } from '../../services/types';
+import { LanguageUtils } from '../../utils/languageUtils';
+import { normalizeRuleFolder } from '../../utils/folderRules';
+
+export class FolderRuleEditModal extends Modal {
+    private t: Translations;
+    private profiles: ProviderProfile[];
+    private rule: FolderRule | null;
+    private onSave: (rule: FolderRule) => void;
+    private draft: FolderRule;
+
+    constructor(
+        app: App,
+        t: Translations,
+        profiles: ProviderProfile[],
+        rule: FolderRule | null,
+        onSave: (rule: FolderRule) => void
+    ) {
+        super(app);
+        this.t = t;
+        this.profiles = profiles;
+        this.rule = rule;
+        this.onSave = onSave;
+        this.draft = rule ? { ...rule } : { id: crypto.randomUUID(), folder: '' };
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('folder-rule-edit-modal');
+
+        contentEl.createEl('h3', {
+            text: this.rule ? this.t.folderRules.editRule : this.t.folderRules.addRule
+        });
+
+        // An empty value in every field below keeps the global setting
+        const inherit = this.t.folderRules.useGlobal;
+
+        new Setting(contentEl)
+            .setName(this.t.folderRules.folder)
+            .setDesc(this.t.folderRules.folderDesc)
+            .addText(text => {
+                text.setPlaceholder('Journal')
+                    .setValue(this.draft.folder)
+                    .onChange(value => this.draft.folder = normalizeRuleFolder(value));
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.mode)
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    '': inherit,
+                    [TaggingMode.PredefinedTags]: this.t.settings.tagging.modePredefined,
+                    [TaggingMode.GenerateNew]: this.t.settings.tagging.modeGenerate,
+                    [TaggingMode.Hybrid]: this.t.settings.tagging.modeHybrid,
+                    [TaggingMode.Custom]: this.t.settings.tagging.modeCustom,
+                    [TaggingMode.Embedding]: this.t.settings.tagging.modeEmbedding
+                })
+                .setValue(this.draft.taggingMode ?? '')
+                .onChange(value => this.draft.taggingMode = value ? value as TaggingMode : undefined));
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.predefinedTagsFile)
+            .setDesc(this.t.folderRules.predefinedTagsFileDesc)
+            .addText(text => {
+                text.setPlaceholder(inherit)
+                    .setValue(this.draft.predefinedTagsPath ?? '')
+                    .onChange(value => this.draft.predefinedTagsPath = value.trim() || undefined);
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.customPrompt)
+            .addTextArea(text => {
+                text.setPlaceholder(inherit)
+                    .setValue(this.draft.customPrompt ?? '')
+                    .onChange(value => this.draft.customPrompt = value.trim() ? value : undefined);
+                text.inputEl.style.width = '300px';
+                text.inputEl.style.height = '80px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.folderRules.profile)
+            .setDesc(this.t.folderRules.profileDesc)
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    '': this.t.folderRules.activeProvider,
+                    ...Object.fromEntries(this.profiles.map(profile => [profile.id, profile.name]))
+                })
+                .setValue(this.draft.profileId ?? '')
+                .onChange(value => this.draft.profileId = value || undefined));
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.outputLanguage)
+            .addDropdown(dropdown => dropdown
+                .addOptions({ '': inherit, ...LanguageUtils.getLanguageOptions() })
+                .setValue(this.draft.language ?? '')
+                .onChange(value => this.draft.language = value ? value as LanguageCode : undefined));
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.tagFormat)
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    '': inherit,
+                    'kebab-case': this.t.settings.tagging.tagFormatKebab,
+                    'camelCase': this.t.settings.tagging.tagFormatCamel,
+                    'PascalCase': this.t.settings.tagging.tagFormatPascal,
+                    'snake_case': this.t.settings.tagging.tagFormatSnake,
+                    'original': this.t.settings.tagging.tagFormatOriginal
+                })
+                .setValue(this.draft.tagFormat ?? '')
+                .onChange(value => this.draft.tagFormat = value ? value as TagFormat : undefined));
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.maxGeneratedTags)
+            .addText(text => this.addCountInput(text, 'tagRangeGenerateMax'));
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.maxPredefinedTags)
+            .addText(text => this.addCountInput(text, 'tagRangePredefinedMax'));
+
+        const buttonContainer = contentEl.createDiv({ cls: 'folder-rule-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.fallbackProviders.cancel })
+            .addEventListener('click', () => this.close());
+
+        const saveBtn = buttonContainer.createEl('button', {
+            text: this.t.fallbackProviders.save,
+            cls: 'mod-cta'
+        });
+        saveBtn.addEventListener('click', () => this.handleSave());
+    }
+
+    /**
+     * Sets up a tag count input (0-10); empty keeps the global setting
+     */
+    private addCountInput(text: TextComponent, field: 'tagRangeGenerateMax' | 'tagRangePredefinedMax'): void {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text.inputEl.max = '10';
+        text.setPlaceholder(this.t.folderRules.useGlobal)
+            .setValue(this.draft[field] === undefined ? '' : String(this.draft[field]))
+            .onChange(value => {
+                const count = Number(value);
+                this.draft[field] = value.trim() && Number.isInteger(count)
+                    ? Math.min(10, Math.max(0, count))
+                    : undefined;
+            });
+    }
+
+    private handleSave(): void {
+        if (!this.draft.folder) {
+            new Notice(this.t.folderRules.emptyFolder);
+            return;
+        }
+
+        this.onSave(this.draft);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,197 @@
+import { App, Modal, Setting, Notice } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { ProviderProfile } from '../../core/settings';
+import { AdapterType, CustomProviderDefinition } from '../../services/adapters';
+import { getCloudProviderOptions, getLocalApiOptions } from './FallbackProviderEditModal';
+
+export class ProviderProfileEditModal extends Modal {
+    private t: Translations;
+    private customProviders: CustomProviderDefinition[];
+    private profile: ProviderProfile;
+    private isNew: boolean;
+    private existingNames: string[];
+    private onSave: (profile: ProviderProfile) => void;
+    private draft: ProviderProfile;
+    private temperatureInput: string;
+
+    /**
+     * @param profile - Profile to edit, or the values to start a new profile from
+     * @param isNew - Whether the profile is not saved yet
+     */
+    constructor(
+        app: App,
+        t: Translations,
+        customProviders: CustomProviderDefinition[],
+        existingNames: string[],
+        profile: ProviderProfile,
+        isNew: boolean,
+        onSave: (profile: ProviderProfile) => void
+    ) {
+        super(app);
+        this.t = t;
+        this.customProviders = customProviders;
+        this.existingNames = existingNames;
+        this.profile = profile;
+        this.isNew = isNew;
+        this.onSave = onSave;
+        this.draft = { ...profile };
+        this.temperatureInput = profile.llmTemperatureOverride === null ? '' : String(profile.llmTemperatureOverride);
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('provider-profile-edit-modal');
+
+        contentEl.createEl('h3', {
+            text: this.isNew ? this.t.profiles.addProfile : this.t.profiles.editProfile
+        });
+
+        new Setting(contentEl)
+            .setName(this.t.profiles.profileName)
+            .addText(text => {
+                text.setPlaceholder(this.t.profiles.profileNamePlaceholder)
+                    .setValue(this.draft.name)
+                    .onChange(value => this.draft.name = value);
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.serviceType)
+            .addDropdown(dropdown =>
+                dropdown
+                    .addOptions({
+                        'local': this.t.dropdowns.localLLM,
+                        'cloud': this.t.dropdowns.cloudService
+                    })
+                    .setValue(this.draft.serviceType)
+                    .onChange(value => {
+                        this.draft.serviceType = value as 'local' | 'cloud';
+                        // Show the fields of the chosen service type
+                        this.onOpen();
+                    })
+            );
+
+        if (this.draft.serviceType === 'local') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.localApi)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOptions(getLocalApiOptions(this.t))
+                        .setValue(this.draft.localServiceType === 'ollama' ? 'ollama' : 'openai_compatible')
+                        .onChange(value => this.draft.localServiceType = value === 'ollama' ? 'ollama' : undefined)
+                );
+        }
+
+        if (this.draft.serviceType === 'cloud') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.cloudProvider)
+                .addDropdown(dropdown =>
+                    dropdown
+                        .addOptions(getCloudProviderOptions(this.t, this.customProviders))
+                        .setValue(this.draft.cloudServiceType)
+                        .onChange(value => this.draft.cloudServiceType = value as AdapterType)
+                );
+        }
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.apiEndpoint)
+            .setDesc(this.t.fallbackProviders.endpointDesc)
+            .addText(text => {
+                text.setPlaceholder(this.draft.serviceType === 'local' ? 'http://localhost:11434/v1/chat/completions' : '')
+                    .setValue(this.draft.endpoint)
+                    .onChange(value => this.draft.endpoint = value.trim());
+                text.inputEl.style.width = '300px';
+            });
+
+        if (this.draft.serviceType === 'cloud') {
+            new Setting(contentEl)
+                .setName(this.t.settings.llm.apiKey)
+                .addText(text => {
+                    text.setValue(this.draft.apiKey)
+                        .onChange(value => this.draft.apiKey = value.trim());
+                    text.inputEl.type = 'password';
+                    text.inputEl.style.width = '300px';
+                });
+        }
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.modelName)
+            .addText(text => {
+                text.setValue(this.draft.model)
+                    .onChange(value => this.draft.model = value.trim());
+                text.inputEl.style.width = '300px';
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.llm.temperature)
+            .setDesc(this.t.settings.llm.temperatureDesc)
+            .addText(text => {
+                text.setPlaceholder(this.t.settings.llm.temperaturePlaceholder)
+                    .setValue(this.temperatureInput)
+                    .onChange(value => this.temperatureInput = value.trim());
+            });
+
+        new Setting(contentEl)
+            .setName(this.t.settings.tagging.requestTimeout)
+            .addSlider(slider => slider
+                .setLimits(15, 300, 15)
+                .setValue(this.draft.requestTimeout)
+                .setDynamicTooltip()
+                .onChange(value => this.draft.requestTimeout = value));
+
+        const buttonContainer = contentEl.createDiv({ cls: 'provider-profile-buttons' });
+
+        buttonContainer.createEl('button', { text: this.t.profiles.cancel })
+            .addEventListener('click', () => this.close());
+
+        const saveBtn = buttonContainer.createEl('button', {
+            text: this.t.profiles.save,
+            cls: 'mod-cta'
+        });
+        saveBtn.addEventListener('click', () => this.handleSave());
+    }
+
+    private handleSave(): void {
+        const name = this.draft.name.trim();
+        if (!name) {
+            new Notice(this.t.profiles.emptyName);
+            return;
+        }
+
+        // Check for duplicate name (excluding the profile being edited)
+        const isDuplicate = this.existingNames.some(n =>
+            n.toLowerCase() === name.toLowerCase() &&
+            (this.isNew || n.toLowerCase() !== this.profile.name.toLowerCase())
+        );
+        if (isDuplicate) {
+            new Notice(this.t.profiles.duplicateName);
+            return;
+        }
+
+        if (!this.draft.model) {
+            new Notice(this.t.fallbackProviders.emptyModel);
+            return;
+        }
+        if (this.draft.serviceType === 'local' && !this.draft.endpoint) {
+            new Notice(this.t.fallbackProviders.emptyEndpoint);
+            return;
+        }
+
+        let temperature: number | null = null;
+        if (this.temperatureInput) {
+            temperature = Number(this.temperatureInput);
+            if (!Number.isFinite(temperature) || temperature < 0 || temperature > 2) {
+                new Notice(this.t.settings.llm.temperatureInvalid);
+                return;
+            }
+        }
+
+        this.onSave({ ...this.draft, name, llmTemperatureOverride: temperature });
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,30 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { ProviderProfile } from '../../core/settings';
+
+/**
+ * Lets the user pick a provider profile
+ */
+export class ProviderProfileSuggestModal extends FuzzySuggestModal<ProviderProfile> {
+    private profiles: ProviderProfile[];
+    private onChoose: (profile: ProviderProfile) => void;
+
+    constructor(app: App, t: Translations, profiles: ProviderProfile[], onChoose: (profile: ProviderProfile) => void) {
+        super(app);
+        this.profiles = profiles;
+        this.onChoose = onChoose;
+        this.setPlaceholder(t.profiles.selectProfile);
+    }
+
+    getItems(): ProviderProfile[] {
+        return this.profiles;
+    }
+
+    getItemText(profile: ProviderProfile): string {
+        return `${profile.name} (${profile.model})`;
+    }
+
+    onChooseItem(profile: ProviderProfile): void {
+        this.onChoose(profile);
+    }
+}
@@ -0,0 +1,33 @@
+import { App, FuzzySuggestModal } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { TagJournalBatch } from '../../utils/tagJournal';
+
+/**
+ * Lets the user pick a recorded batch run (folder, vault, rename...) to roll back
+ */
+export class TagBatchRevertModal extends FuzzySuggestModal<TagJournalBatch> {
+    private t: Translations;
+    private batches: TagJournalBatch[];
+    private onChoose: (batch: TagJournalBatch) => void;
+
+    constructor(app: App, t: Translations, batches: TagJournalBatch[], onChoose: (batch: TagJournalBatch) => void) {
+        super(app);
+        this.t = t;
+        this.batches = batches;
+        this.onChoose = onChoose;
+        this.setPlaceholder(t.tagJournal.selectBatch);
+    }
+
+    getItems(): TagJournalBatch[] {
+        return this.batches;
+    }
+
+    getItemText(batch: TagJournalBatch): string {
+        const notes = new Set(batch.entries.map(entry => entry.file)).size;
+        return `${batch.label ?? batch.id} (${this.t.tagJournal.notesCount.replace('{count}', String(notes))}, ${new Date(batch.timestamp).toLocaleString()})`;
+    }
+
+    onChooseItem(batch: TagJournalBatch): void {
+        this.onChoose(batch);
+    }
+}
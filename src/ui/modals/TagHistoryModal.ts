@@ -0,0 +1,113 @@
+import { App, Modal, Notice, TFile } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { TagJournal, TagJournalEntry, TagRevertResult } from '../../utils/tagJournal';
+import { TagChangeOperation } from '../../utils/tagUtils';
+
+/**
+ * Gets the display name of a journal operation
+ */
+export function getOperationLabel(t: Translations, operation: TagChangeOperation): string {
+    const labels: Record<TagChangeOperation, string> = {
+        'ai-tag': t.tagJournal.operationAiTag,
+        'update': t.tagJournal.operationUpdate,
+        'write': t.tagJournal.operationWrite,
+        'clear': t.tagJournal.operationClear,
+        'rename': t.tagJournal.operationRename,
+        'flatten': t.tagJournal.operationFlatten,
+        'import': t.tagJournal.operationImport,
+        'revert': t.tagJournal.operationRevert
+    };
+    return labels[operation] ?? operation;
+}
+
+/**
+ * Shows the outcome of a revert as a notice
+ */
+export function showRevertResult(t: Translations, result: TagRevertResult): void {
+    let message = t.tagJournal.reverted.replace('{count}', String(result.reverted));
+    if (result.conflicts.length > 0) {
+        message += ' ' + t.tagJournal.revertConflicts.replace('{count}', String(result.conflicts.length));
+    }
+    new Notice(message, 5000);
+}
+
+export class TagHistoryModal extends Modal {
+    private t: Translations;
+    private journal: TagJournal;
+    private file: TFile;
+
+    constructor(app: App, t: Translations, journal: TagJournal, file: TFile) {
+        super(app);
+        this.t = t;
+        this.journal = journal;
+        this.file = file;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('tag-history-modal');
+
+        contentEl.createEl('h3', { text: this.t.tagJournal.historyTitle });
+        contentEl.createEl('p', { text: this.file.path, cls: 'tag-history-file' });
+
+        const entries = this.journal.getHistory(this.file.path);
+        if (entries.length === 0) {
+            contentEl.createEl('p', { text: this.t.tagJournal.noHistory, cls: 'tag-history-empty' });
+            return;
+        }
+
+        const listEl = contentEl.createDiv({ cls: 'tag-history-list' });
+        for (const entry of entries) {
+            this.renderEntry(listEl, entry);
+        }
+    }
+
+    private renderEntry(container: HTMLElement, entry: TagJournalEntry): void {
+        const itemEl = container.createDiv({ cls: 'tag-history-item' });
+        itemEl.toggleClass('is-reverted', !!entry.reverted);
+
+        const headerEl = itemEl.createDiv({ cls: 'tag-history-item-header' });
+        headerEl.createSpan({
+            text: getOperationLabel(this.t, entry.operation),
+            cls: 'tag-history-operation'
+        });
+        headerEl.createSpan({
+            text: new Date(entry.timestamp).toLocaleString(),
+            cls: 'tag-history-time'
+        });
+
+        const details = [entry.batchLabel, entry.provider && entry.model ? `${entry.provider} / ${entry.model}` : entry.provider]
+            .filter(Boolean)
+            .join(' · ');
+        if (details) {
+            itemEl.createDiv({ text: details, cls: 'tag-history-details' });
+        }
+
+        const added = entry.after.filter(tag => !entry.before.includes(tag));
+        const removed = entry.before.filter(tag => !entry.after.includes(tag));
+        const diffEl = itemEl.createDiv({ cls: 'tag-history-diff' });
+        for (const tag of added) {
+            diffEl.createSpan({ text: `+#${tag}`, cls: 'tag-history-added' });
+        }
+        for (const tag of removed) {
+            diffEl.createSpan({ text: `-#${tag}`, cls: 'tag-history-removed' });
+        }
+
+        if (entry.reverted) {
+            itemEl.createDiv({ text: this.t.tagJournal.revertedBadge, cls: 'tag-history-badge' });
+        } else if (entry.operation !== 'revert') {
+            const revertBtn = itemEl.createEl('button', { text: this.t.tagJournal.revert });
+            revertBtn.addEventListener('click', async () => {
+                revertBtn.disabled = true;
+                const result = await this.journal.revertEntries([entry], `Revert ${this.file.basename}`);
+                showRevertResult(this.t, result);
+                this.onOpen();
+            });
+        }
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
@@ -0,0 +1,58 @@
+import { App, Modal, TFile } from 'obsidian';
+import { Translations } from '../../i18n/types';
+import { TagRationaleEntry } from '../../utils/tagRationale';
+
+/**
+ * Lists the tags of a note with the model's reason for each one
+ */
+export class TagRationaleModal extends Modal {
+    private t: Translations;
+    private file: TFile;
+    private tags: string[];
+    private entries: Record<string, TagRationaleEntry>;
+
+    constructor(app: App, t: Translations, file: TFile, tags: string[], entries: Record<string, TagRationaleEntry>) {
+        super(app);
+        this.t = t;
+        this.file = file;
+        this.tags = tags;
+        this.entries = entries;
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('tag-rationale-modal');
+
+        contentEl.createEl('h3', { text: this.t.tagRationale.title });
+        contentEl.createEl('p', { text: this.file.path, cls: 'tag-rationale-file' });
+
+        if (this.tags.length === 0) {
+            contentEl.createEl('p', { text: this.t.tagRationale.noTags, cls: 'tag-rationale-empty' });
+            return;
+        }
+
+        const listEl = contentEl.createDiv({ cls: 'tag-rationale-list' });
+        for (const tag of this.tags) {
+            const entry = this.entries[tag];
+            const itemEl = listEl.createDiv({ cls: 'tag-rationale-item' });
+
+            itemEl.createDiv({ text: `#${tag}`, cls: 'tag-rationale-tag' });
+            if (!entry) {
+                itemEl.createDiv({ text: this.t.tagRationale.noRationale, cls: 'tag-rationale-empty' });
+                continue;
+            }
+
+            itemEl.createDiv({ text: entry.rationale, cls: 'tag-rationale-text' });
+            const details = [
+                entry.provider && entry.model ? `${entry.provider} / ${entry.model}` : entry.provider,
+                new Date(entry.timestamp).toLocaleString()
+            ].filter(Boolean).join(' · ');
+            itemEl.createDiv({ text: details, cls: 'tag-rationale-details' });
+        }
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+    }
+}
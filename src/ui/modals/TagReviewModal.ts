@@ -0,0 +1,211 @@
+import { App, Modal, ButtonComponent, TextComponent, TFile } from 'obsidian';
+import { Translations } from '../../i18n/types';
+
+export type TagReviewAction = 'apply' | 'skip' | 'cancel';
+
+export interface TagReviewResult {
+    action: TagReviewAction;
+    /** Tags ticked by the user (only meaningful when action is 'apply') */
+    tags: string[];
+}
+
+export interface TagReviewProgress {
+    current: number;
+    total: number;
+}
+
+export interface TagReviewItem {
+    file: TFile;
+    currentTags: string[];
+    suggestedTags: string[];
+    matchedTags: string[];
+    /** Tags below the confidence threshold, shown unticked */
+    lowConfidenceTags?: string[];
+    /** Confidence reported by the model, keyed by tag */
+    confidence?: Record<string, number>;
+}
+
+interface ReviewRow {
+    tag: string;
+    checked: boolean;
+    confidence?: number;
+}
+
+export class TagReviewModal extends Modal {
+    private t: Translations;
+    private item: TagReviewItem;
+    private progress?: TagReviewProgress;
+    private onResult: (result: TagReviewResult) => void;
+    private matchedRows: ReviewRow[];
+    private suggestedRows: ReviewRow[];
+    private lowConfidenceRows: ReviewRow[];
+    private resolved = false;
+
+    constructor(
+        app: App,
+        t: Translations,
+        item: TagReviewItem,
+        onResult: (result: TagReviewResult) => void,
+        progress?: TagReviewProgress
+    ) {
+        super(app);
+        this.t = t;
+        this.item = item;
+        this.onResult = onResult;
+        this.progress = progress;
+        this.matchedRows = this.toRows(item.matchedTags, true);
+        this.suggestedRows = this.toRows(item.suggestedTags, true);
+        this.lowConfidenceRows = this.toRows(item.lowConfidenceTags ?? [], false);
+    }
+
+    private toRows(tags: string[], checked: boolean): ReviewRow[] {
+        return [...new Set(tags.map(tag => tag.trim()).filter(Boolean))]
+            .map(tag => ({ tag, checked, confidence: this.item.confidence?.[tag] }));
+    }
+
+    onOpen(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('tag-review-modal');
+
+        contentEl.createEl('h3', { text: this.t.tagReview.title });
+
+        const headerEl = contentEl.createDiv({ cls: 'tag-review-header' });
+        headerEl.createSpan({ text: this.item.file.path, cls: 'tag-review-file' });
+        if (this.progress && this.progress.total > 1) {
+            headerEl.createSpan({
+                text: `${this.progress.current} / ${this.progress.total}`,
+                cls: 'tag-review-progress'
+            });
+        }
+
+        // Current tags of the note (read-only)
+        const currentEl = contentEl.createDiv({ cls: 'tag-review-section' });
+        currentEl.createEl('h4', { text: this.t.tagReview.currentTags });
+        const currentList = currentEl.createDiv({ cls: 'tag-review-current' });
+        if (this.item.currentTags.length === 0) {
+            currentList.createSpan({ text: this.t.tagReview.noCurrentTags, cls: 'tag-review-empty' });
+        } else {
+            for (const tag of this.item.currentTags) {
+                currentList.createSpan({ text: `#${tag}`, cls: 'tag-review-current-tag' });
+            }
+        }
+
+        if (this.matchedRows.length > 0) {
+            this.renderSection(contentEl, this.t.tagReview.matchedTags, this.matchedRows);
+        }
+        this.renderSection(contentEl, this.t.tagReview.suggestedTags, this.suggestedRows);
+        if (this.lowConfidenceRows.length > 0) {
+            this.renderSection(contentEl, this.t.tagReview.lowConfidenceTags, this.lowConfidenceRows);
+        }
+
+        // Manual tag entry
+        const addEl = contentEl.createDiv({ cls: 'tag-review-add' });
+        const addInput = new TextComponent(addEl);
+        addInput.setPlaceholder(this.t.tagReview.addTagPlaceholder);
+        addInput.inputEl.addClass('tag-review-add-input');
+        const addTag = () => {
+            const value = addInput.getValue().trim().replace(/^#/, '');
+            if (!value) return;
+            const exists = this.getAllRows().some(row => row.tag === value);
+            if (!exists) {
+                this.suggestedRows.push({ tag: value, checked: true });
+            }
+            addInput.setValue('');
+            this.onOpen();
+        };
+        addInput.inputEl.addEventListener('keydown', (e) => {
+            if (e.key === 'Enter') {
+                e.preventDefault();
+                addTag();
+            }
+        });
+        new ButtonComponent(addEl)
+            .setButtonText(this.t.tagReview.addTag)
+            .onClick(addTag);
+
+        // Buttons
+        const buttonContainer = contentEl.createDiv({ cls: 'tag-review-buttons' });
+
+        if (this.progress && this.progress.total > 1) {
+            new ButtonComponent(buttonContainer)
+                .setButtonText(this.t.tagReview.stop)
+                .setWarning()
+                .onClick(() => this.finish({ action: 'cancel', tags: [] }));
+        }
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText(this.t.tagReview.skip)
+            .onClick(() => this.finish({ action: 'skip', tags: [] }));
+
+        new ButtonComponent(buttonContainer)
+            .setButtonText(this.t.tagReview.apply)
+            .setCta()
+            .onClick(() => this.finish({ action: 'apply', tags: this.getSelectedTags() }));
+    }
+
+    private renderSection(container: HTMLElement, title: string, rows: ReviewRow[]): void {
+        const sectionEl = container.createDiv({ cls: 'tag-review-section' });
+        sectionEl.createEl('h4', { text: title });
+
+        if (rows.length === 0) {
+            sectionEl.createDiv({ text: this.t.tagReview.noSuggestions, cls: 'tag-review-empty' });
+            return;
+        }
+
+        for (const row of rows) {
+            const rowEl = sectionEl.createDiv({ cls: 'tag-review-row' });
+
+            const checkbox = rowEl.createEl('input', { type: 'checkbox' });
+            checkbox.checked = row.checked;
+            checkbox.addEventListener('change', () => {
+                row.checked = checkbox.checked;
+                rowEl.toggleClass('is-unchecked', !row.checked);
+            });
+            rowEl.toggleClass('is-unchecked', !row.checked);
+
+            // Tags are editable in place
+            const input = rowEl.createEl('input', {
+                type: 'text',
+                value: row.tag,
+                cls: 'tag-review-tag-input'
+            });
+            input.addEventListener('input', () => {
+                row.tag = input.value.trim().replace(/^#/, '');
+            });
+
+            if (row.confidence !== undefined) {
+                rowEl.createSpan({
+                    text: `${Math.round(row.confidence * 100)}%`,
+                    cls: 'tag-review-confidence'
+                });
+            }
+        }
+    }
+
+    private getAllRows(): ReviewRow[] {
+        return [...this.matchedRows, ...this.suggestedRows, ...this.lowConfidenceRows];
+    }
+
+    private getSelectedTags(): string[] {
+        const selected = this.getAllRows()
+            .filter(row => row.checked && row.tag.length > 0)
+            .map(row => row.tag);
+        return [...new Set(selected)];
+    }
+
+    private finish(result: TagReviewResult): void {
+        this.resolved = true;
+        this.onResult(result);
+        this.close();
+    }
+
+    onClose(): void {
+        this.contentEl.empty();
+        // Dismissing the modal counts as skipping this note
+        if (!this.resolved) {
+            this.resolved = true;
+            this.onResult({ action: 'skip', tags: [] });
+        }
+    }
+}
@@ -5,14 +5,24 @@ import { TaggingSettingsSection } from './TaggingSettingsSection';
 import { SupportSection } from './SupportSection';
 import { InterfaceSettingsSection } from './InterfaceSettingsSection';
 import { TagTemplatesSection } from './TagTemplatesSection';
+import { FallbackProvidersSection } from './FallbackProvidersSection';
+import { CustomProvidersSection } from './CustomProvidersSection';
+import { ContextWindowsSection } from './ContextWindowsSection';
+import { FolderRulesSection } from './FolderRulesSection';
+import { UsageSettingsSection } from './UsageSettingsSection';
 
 export class AITaggerSettingTab extends PluginSettingTab {
     private plugin: AITaggerPlugin;
     private llmSection?: LLMSettingsSection;
+    private fallbackProvidersSection?: FallbackProvidersSection;
+    private customProvidersSection?: CustomProvidersSection;
+    private contextWindowsSection?: ContextWindowsSection;
     private taggingSection?: TaggingSettingsSection;
+    private folderRulesSection?: FolderRulesSection;
     private supportSection?: SupportSection;
     private interfaceSection?: InterfaceSettingsSection;
     private tagTemplatesSection?: TagTemplatesSection;
+    private usageSection?: UsageSettingsSection;
 
     constructor(app: App, plugin: AITaggerPlugin) {
         super(app, plugin);
@@ -25,15 +35,25 @@ export class AITaggerSettingTab extends PluginSettingTab {
 
         // Initialize all sections
         this.llmSection = new LLMSettingsSection(this.plugin, containerEl, this);
+        this.fallbackProvidersSection = new FallbackProvidersSection(this.plugin, containerEl, this);
+        this.customProvidersSection = new CustomProvidersSection(this.plugin, containerEl, this);
+        this.contextWindowsSection = new ContextWindowsSection(this.plugin, containerEl, this);
         this.taggingSection = new TaggingSettingsSection(this.plugin, containerEl, this);
+        this.folderRulesSection = new FolderRulesSection(this.plugin, containerEl, this);
         this.tagTemplatesSection = new TagTemplatesSection(this.plugin, containerEl, this);
+        this.usageSection = new UsageSettingsSection(this.plugin, containerEl, this);
         this.supportSection = new SupportSection(this.plugin, containerEl, this);
         this.interfaceSection = new InterfaceSettingsSection(this.plugin, containerEl, this);
 
         // Display all sections
         this.llmSection.display();
+        this.fallbackProvidersSection.display();
+        this.customProvidersSection.display();
+        this.contextWindowsSection.display();
         this.taggingSection.display();
+        this.folderRulesSection.display();
         this.tagTemplatesSection.display();
+        this.usageSection.display();
         this.interfaceSection.display();
         this.supportSection.display();
     }
@@ -0,0 +1,75 @@
+import { Setting, Notice } from 'obsidian';
+import { BaseSettingSection } from './BaseSettingSection';
+import { ModelContextWindow } from '../../core/settings';
+
+export class ContextWindowsSection extends BaseSettingSection {
+    display(): void {
+        this.containerEl.createEl('h1', { text: this.plugin.t.contextWindows.title });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.contextWindows.description,
+            cls: 'setting-item-description'
+        });
+
+        const listEl = this.containerEl.createDiv({ cls: 'context-windows-list' });
+        this.renderEntries(listEl);
+    }
+
+    private renderEntries(listEl: HTMLElement): void {
+        listEl.empty();
+
+        for (const entry of this.plugin.settings.modelContextWindows) {
+            new Setting(listEl)
+                .setName(entry.model)
+                .addText(text => this.addTokensInput(text.inputEl, entry))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(this.plugin.t.contextWindows.remove)
+                    .onClick(async () => {
+                        this.plugin.settings.modelContextWindows = this.plugin.settings.modelContextWindows.filter(e => e !== entry);
+                        await this.plugin.saveSettings();
+                        this.renderEntries(listEl);
+                    }));
+        }
+
+        // New models are added by name and sized in their own row
+        let newModel = '';
+        new Setting(listEl)
+            .addText(text => text
+                .setPlaceholder(this.plugin.t.contextWindows.modelPlaceholder)
+                .onChange(value => newModel = value.trim()))
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.contextWindows.add)
+                .onClick(async () => {
+                    if (!newModel) return;
+                    const exists = this.plugin.settings.modelContextWindows
+                        .some(e => e.model.toLowerCase() === newModel.toLowerCase());
+                    if (exists) {
+                        new Notice(this.plugin.t.contextWindows.duplicateModel);
+                        return;
+                    }
+                    this.plugin.settings.modelContextWindows.push({ model: newModel, contextWindow: 8192 });
+                    await this.plugin.saveSettings();
+                    this.renderEntries(listEl);
+                }));
+    }
+
+    private addTokensInput(inputEl: HTMLInputElement, entry: ModelContextWindow): void {
+        inputEl.type = 'number';
+        inputEl.min = '1';
+        inputEl.step = '1';
+        inputEl.value = String(entry.contextWindow);
+        inputEl.title = this.plugin.t.contextWindows.tokens;
+        inputEl.placeholder = this.plugin.t.contextWindows.tokens;
+        inputEl.style.width = '110px';
+        inputEl.addEventListener('change', async () => {
+            const value = Number(inputEl.value);
+            if (!Number.isInteger(value) || value <= 0) {
+                new Notice(this.plugin.t.contextWindows.invalidTokens);
+                inputEl.value = String(entry.contextWindow);
+                return;
+            }
+            entry.contextWindow = value;
+            await this.plugin.saveSettings();
+        });
+    }
+}
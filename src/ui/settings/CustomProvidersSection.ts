@@ -0,0 +1,133 @@
+import { Setting, Notice } from 'obsidian';
+import { BaseSettingSection } from './BaseSettingSection';
+import { CustomProviderEditModal } from '../modals/CustomProviderEditModal';
+import { CustomProviderImportModal } from '../modals/CustomProviderImportModal';
+import { CustomProviderDefinition } from '../../services/adapters';
+
+export class CustomProvidersSection extends BaseSettingSection {
+    display(): void {
+        this.containerEl.createEl('h1', { text: this.plugin.t.customProviders.title });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.customProviders.description,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(this.containerEl)
+            .addButton(btn => {
+                btn.setButtonText(this.plugin.t.customProviders.addProvider)
+                    .setCta()
+                    .onClick(() => this.openEditModal(null));
+            })
+            .addButton(btn => {
+                btn.setButtonText(this.plugin.t.customProviders.import)
+                    .onClick(() => new CustomProviderImportModal(
+                        this.plugin.app,
+                        this.plugin.t,
+                        providers => this.saveProviders(providers)
+                    ).open());
+            });
+
+        const listEl = this.containerEl.createDiv({ cls: 'custom-providers-list' });
+        this.renderProvidersList(listEl);
+    }
+
+    private renderProvidersList(listEl: HTMLElement): void {
+        listEl.empty();
+
+        const providers = this.plugin.settings.customProviders;
+
+        if (providers.length === 0) {
+            listEl.createEl('p', {
+                text: this.plugin.t.customProviders.noProviders,
+                cls: 'custom-providers-empty'
+            });
+            return;
+        }
+
+        for (const provider of providers) {
+            const itemEl = listEl.createDiv({ cls: 'custom-provider-item' });
+
+            const infoEl = itemEl.createDiv({ cls: 'custom-provider-info' });
+            infoEl.createDiv({ cls: 'custom-provider-name', text: provider.name });
+            infoEl.createDiv({ cls: 'custom-provider-endpoint', text: provider.endpoint });
+
+            const actionsEl = itemEl.createDiv({ cls: 'custom-provider-actions' });
+
+            const copyBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.customProviders.copyJson,
+                cls: 'custom-provider-btn'
+            });
+            copyBtn.addEventListener('click', async () => {
+                await navigator.clipboard.writeText(JSON.stringify(provider, null, 2));
+                new Notice(this.plugin.t.customProviders.copied);
+            });
+
+            const editBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.customProviders.editProvider,
+                cls: 'custom-provider-btn'
+            });
+            editBtn.addEventListener('click', () => this.openEditModal(provider));
+
+            const deleteBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.customProviders.deleteProvider,
+                cls: 'custom-provider-btn mod-warning'
+            });
+            deleteBtn.addEventListener('click', () => this.deleteProvider(provider));
+        }
+    }
+
+    private openEditModal(provider: CustomProviderDefinition | null): void {
+        new CustomProviderEditModal(
+            this.plugin.app,
+            this.plugin.t,
+            provider,
+            savedProvider => this.saveProviders([{ ...savedProvider, id: provider?.id ?? '' }])
+        ).open();
+    }
+
+    /**
+     * Adds new providers and replaces edited ones, giving new providers an id derived from their name
+     */
+    private async saveProviders(savedProviders: CustomProviderDefinition[]): Promise<void> {
+        const providers = this.plugin.settings.customProviders;
+        for (const provider of savedProviders) {
+            const existingIndex = providers.findIndex(p => p.id === provider.id);
+            if (provider.id && existingIndex >= 0) {
+                providers[existingIndex] = provider;
+            } else {
+                providers.push({ ...provider, id: this.createProviderId(provider.id || provider.name) });
+            }
+        }
+
+        await this.plugin.saveSettings();
+        // Custom providers are listed in the provider dropdowns above
+        this.settingTab.display();
+    }
+
+    /**
+     * Derives an unused id from a name; ids stay fixed when a provider is renamed,
+     * since settings refer to providers as `custom:<id>`
+     */
+    private createProviderId(name: string): string {
+        const base = name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'provider';
+        const ids = new Set(this.plugin.settings.customProviders.map(provider => provider.id));
+        let id = base;
+        for (let i = 2; ids.has(id); i++) {
+            id = `${base}-${i}`;
+        }
+        return id;
+    }
+
+    private async deleteProvider(provider: CustomProviderDefinition): Promise<void> {
+        const confirmMsg = this.plugin.t.customProviders.deleteConfirm.replace('{name}', provider.name);
+        const confirmed = await this.plugin.showConfirmationDialog(confirmMsg);
+
+        if (!confirmed) return;
+
+        this.plugin.settings.customProviders = this.plugin.settings.customProviders.filter(
+            p => p.id !== provider.id
+        );
+        await this.plugin.saveSettings();
+        this.settingTab.display();
+    }
+}
@@ -0,0 +1,136 @@
+import { Setting } from 'obsidian';
+import { BaseSettingSection } from './BaseSettingSection';
+import { FallbackProviderEditModal, getCloudProviderOptions } from '../modals/FallbackProviderEditModal';
+import { FallbackProvider } from '../../core/settings';
+
+export class FallbackProvidersSection extends BaseSettingSection {
+    display(): void {
+        this.containerEl.createEl('h1', { text: this.plugin.t.fallbackProviders.title });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.fallbackProviders.description,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(this.containerEl)
+            .addButton(btn => {
+                btn.setButtonText(this.plugin.t.fallbackProviders.addProvider)
+                    .setCta()
+                    .onClick(() => this.openEditModal(null));
+            });
+
+        const listEl = this.containerEl.createDiv({ cls: 'fallback-providers-list' });
+        this.renderProvidersList(listEl);
+    }
+
+    private renderProvidersList(listEl: HTMLElement): void {
+        listEl.empty();
+
+        const providers = this.plugin.settings.fallbackProviders;
+
+        if (providers.length === 0) {
+            listEl.createEl('p', {
+                text: this.plugin.t.fallbackProviders.noProviders,
+                cls: 'fallback-providers-empty'
+            });
+            return;
+        }
+
+        providers.forEach((provider, index) => {
+            const itemEl = listEl.createDiv({ cls: 'fallback-provider-item' });
+
+            const infoEl = itemEl.createDiv({ cls: 'fallback-provider-info' });
+            infoEl.createDiv({
+                cls: 'fallback-provider-name',
+                text: `${index + 1}. ${this.getProviderName(provider)} (${provider.model})`
+            });
+            infoEl.createDiv({
+                cls: 'fallback-provider-endpoint',
+                text: provider.endpoint || this.plugin.t.fallbackProviders.defaultEndpoint
+            });
+
+            const actionsEl = itemEl.createDiv({ cls: 'fallback-provider-actions' });
+
+            const upBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.fallbackProviders.moveUp,
+                cls: 'fallback-provider-btn'
+            });
+            upBtn.disabled = index === 0;
+            upBtn.addEventListener('click', () => this.moveProvider(index, -1, listEl));
+
+            const downBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.fallbackProviders.moveDown,
+                cls: 'fallback-provider-btn'
+            });
+            downBtn.disabled = index === providers.length - 1;
+            downBtn.addEventListener('click', () => this.moveProvider(index, 1, listEl));
+
+            const editBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.fallbackProviders.editProvider,
+                cls: 'fallback-provider-btn'
+            });
+            editBtn.addEventListener('click', () => this.openEditModal(provider));
+
+            const deleteBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.fallbackProviders.deleteProvider,
+                cls: 'fallback-provider-btn mod-warning'
+            });
+            deleteBtn.addEventListener('click', () => this.deleteProvider(provider, listEl));
+        });
+    }
+
+    private getProviderName(provider: FallbackProvider): string {
+        return provider.serviceType === 'local'
+            ? this.plugin.t.dropdowns.localLLM
+            : getCloudProviderOptions(this.plugin.t, this.plugin.settings.customProviders)[provider.cloudServiceType] ?? provider.cloudServiceType;
+    }
+
+    private openEditModal(provider: FallbackProvider | null): void {
+        new FallbackProviderEditModal(
+            this.plugin.app,
+            this.plugin.t,
+            this.plugin.settings.customProviders,
+            provider,
+            async (savedProvider) => {
+                const providers = this.plugin.settings.fallbackProviders;
+                const existingIndex = providers.findIndex(p => p.id === savedProvider.id);
+
+                if (existingIndex >= 0) {
+                    providers[existingIndex] = savedProvider;
+                } else {
+                    providers.push(savedProvider);
+                }
+
+                await this.plugin.saveSettings();
+
+                const listEl = this.containerEl.querySelector('.fallback-providers-list');
+                if (listEl) {
+                    this.renderProvidersList(listEl as HTMLElement);
+                }
+            }
+        ).open();
+    }
+
+    private async moveProvider(index: number, offset: number, listEl: HTMLElement): Promise<void> {
+        const providers = this.plugin.settings.fallbackProviders;
+        const target = index + offset;
+        if (target < 0 || target >= providers.length) return;
+
+        [providers[index], providers[target]] = [providers[target], providers[index]];
+        await this.plugin.saveSettings();
+        this.renderProvidersList(listEl);
+    }
+
+    private async deleteProvider(provider: FallbackProvider, listEl: HTMLElement): Promise<void> {
+        const confirmMsg = this.plugin.t.fallbackProviders.deleteConfirm
+            .replace('{name}', `${this.getProviderName(provider)} (${provider.model})`);
+        const confirmed = await this.plugin.showConfirmationDialog(confirmMsg);
+
+        if (!confirmed) return;
+
+        this.plugin.settings.fallbackProviders = this.plugin.settings.fallbackProviders.filter(
+            p => p.id !== provider.id
+        );
+        await this.plugin.saveSettings();
+        this.renderProvidersList(listEl);
+    }
+}
@@ -0,0 +1,116 @@
+import { Setting } from 'obsidian';
+import { BaseSettingSection } from './BaseSettingSection';
+import { FolderRuleEditModal } from '../modals/FolderRuleEditModal';
+import { FolderRule } from '../../core/settings';
+
+export class FolderRulesSection extends BaseSettingSection {
+    display(): void {
+        this.containerEl.createEl('h1', { text: this.plugin.t.folderRules.title });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.folderRules.description,
+            cls: 'setting-item-description'
+        });
+
+        new Setting(this.containerEl)
+            .addButton(btn => {
+                btn.setButtonText(this.plugin.t.folderRules.addRule)
+                    .setCta()
+                    .onClick(() => this.openEditModal(null));
+            });
+
+        const listEl = this.containerEl.createDiv({ cls: 'folder-rules-list' });
+        this.renderRulesList(listEl);
+    }
+
+    private renderRulesList(listEl: HTMLElement): void {
+        listEl.empty();
+
+        const rules = this.plugin.settings.folderRules;
+
+        if (rules.length === 0) {
+            listEl.createEl('p', {
+                text: this.plugin.t.folderRules.noRules,
+                cls: 'folder-rules-empty'
+            });
+            return;
+        }
+
+        for (const rule of rules) {
+            const itemEl = listEl.createDiv({ cls: 'folder-rule-item' });
+
+            const infoEl = itemEl.createDiv({ cls: 'folder-rule-info' });
+            infoEl.createDiv({ cls: 'folder-rule-folder', text: `${rule.folder}/` });
+            infoEl.createDiv({ cls: 'folder-rule-summary', text: this.describeRule(rule) });
+
+            const actionsEl = itemEl.createDiv({ cls: 'folder-rule-actions' });
+
+            const editBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.folderRules.editRule,
+                cls: 'folder-rule-btn'
+            });
+            editBtn.addEventListener('click', () => this.openEditModal(rule));
+
+            const deleteBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.folderRules.deleteRule,
+                cls: 'folder-rule-btn mod-warning'
+            });
+            deleteBtn.addEventListener('click', () => this.deleteRule(rule, listEl));
+        }
+    }
+
+    /**
+     * Lists the settings a rule overrides, e.g. "Mode: hybrid · Profile: Work"
+     */
+    private describeRule(rule: FolderRule): string {
+        const t = this.plugin.t;
+        const parts: string[] = [];
+        if (rule.taggingMode) parts.push(`${t.settings.tagging.mode}: ${rule.taggingMode}`);
+        if (rule.predefinedTagsPath) parts.push(`${t.settings.tagging.predefinedTagsFile}: ${rule.predefinedTagsPath}`);
+        if (rule.customPrompt) parts.push(t.settings.tagging.customPrompt);
+        if (rule.profileId) {
+            const profile = this.plugin.settings.profiles.find(p => p.id === rule.profileId);
+            parts.push(`${t.folderRules.profile}: ${profile?.name ?? rule.profileId}`);
+        }
+        if (rule.language) parts.push(`${t.settings.tagging.outputLanguage}: ${rule.language}`);
+        if (rule.tagFormat) parts.push(`${t.settings.tagging.tagFormat}: ${rule.tagFormat}`);
+        if (rule.tagRangeGenerateMax !== undefined) parts.push(`${t.settings.tagging.maxGeneratedTags}: ${rule.tagRangeGenerateMax}`);
+        if (rule.tagRangePredefinedMax !== undefined) parts.push(`${t.settings.tagging.maxPredefinedTags}: ${rule.tagRangePredefinedMax}`);
+        return parts.length > 0 ? parts.join(' · ') : t.folderRules.noOverrides;
+    }
+
+    private openEditModal(rule: FolderRule | null): void {
+        new FolderRuleEditModal(
+            this.plugin.app,
+            this.plugin.t,
+            this.plugin.settings.profiles,
+            rule,
+            async savedRule => {
+                const rules = this.plugin.settings.folderRules;
+                const existingIndex = rules.findIndex(r => r.id === savedRule.id);
+                if (existingIndex >= 0) {
+                    rules[existingIndex] = savedRule;
+                } else {
+                    rules.push(savedRule);
+                }
+
+                await this.plugin.saveSettings();
+
+                const listEl = this.containerEl.querySelector('.folder-rules-list');
+                if (listEl) {
+                    this.renderRulesList(listEl as HTMLElement);
+                }
+            }
+        ).open();
+    }
+
+    private async deleteRule(rule: FolderRule, listEl: HTMLElement): Promise<void> {
+        const confirmMsg = this.plugin.t.folderRules.deleteConfirm.replace('{folder}', rule.folder);
+        const confirmed = await this.plugin.showConfirmationDialog(confirmMsg);
+
+        if (!confirmed) return;
+
+        this.plugin.settings.folderRules = this.plugin.settings.folderRules.filter(r => r.id !== rule.id);
+        await this.plugin.saveSettings();
+        this.renderRulesList(listEl);
+    }
+}
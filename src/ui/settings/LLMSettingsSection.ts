@@ -2,6 +2,14 @@ import { Setting, ButtonComponent, Notice } from 'obsidian';
 import type AITaggerPlugin from '../../main';
 import { ConnectionTestResult } from '../../services';
 import { BaseSettingSection } from './BaseSettingSection';
+import { ProviderProfile } from '../../core/settings';
+import { ProviderProfileEditModal } from '../modals/ProviderProfileEditModal';
+import { ConnectionDiagnosticsModal } from '../modals/ConnectionDiagnosticsModal';
+import { getCloudProviderOptions, getLocalApiOptions } from '../modals/FallbackProviderEditModal';
+import { syncProfileCommands } from '../../commands/profileCommands';
+import { AdapterType, ModelInfo } from '../../services/adapters';
+import { fetchCloudModels } from '../../services/cloudModelFetcher';
+import { formatContextWindow } from '../../utils/modelCatalog';
 
 export class LLMSettingsSection extends BaseSettingSection {
     private statusContainer: HTMLElement = null!;
@@ -31,6 +39,126 @@ export class LLMSettingsSection extends BaseSettingSection {
                         new Notice(value ? this.plugin.t.settings.llm.debugEnabled : this.plugin.t.settings.llm.debugDisabled);
                     })
             );
+
+        this.displayProfiles();
+    }
+
+    private displayProfiles(): void {
+        this.containerEl.createEl('h3', { text: this.plugin.t.profiles.title });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.profiles.description,
+            cls: 'setting-item-description'
+        });
+
+        // New profiles start from the current provider settings
+        new Setting(this.containerEl)
+            .addButton(btn => {
+                btn.setButtonText(this.plugin.t.profiles.addProfile)
+                    .onClick(() => this.openProfileModal({
+                        ...this.plugin.getPrimaryProvider(),
+                        id: crypto.randomUUID(),
+                        name: '',
+                        llmTemperatureOverride: this.plugin.settings.llmTemperatureOverride,
+                        requestTimeout: this.plugin.settings.requestTimeout
+                    }, true));
+            });
+
+        const listEl = this.containerEl.createDiv({ cls: 'provider-profiles-list' });
+        this.renderProfilesList(listEl);
+    }
+
+    private renderProfilesList(listEl: HTMLElement): void {
+        listEl.empty();
+
+        const profiles = this.plugin.settings.profiles;
+
+        if (profiles.length === 0) {
+            listEl.createEl('p', {
+                text: this.plugin.t.profiles.noProfiles,
+                cls: 'provider-profiles-empty'
+            });
+            return;
+        }
+
+        for (const profile of profiles) {
+            const itemEl = listEl.createDiv({ cls: 'provider-profile-item' });
+
+            const infoEl = itemEl.createDiv({ cls: 'provider-profile-info' });
+            infoEl.createDiv({ cls: 'provider-profile-name', text: profile.name });
+            const providerName = profile.serviceType === 'local'
+                ? this.plugin.t.dropdowns.localLLM
+                : getCloudProviderOptions(this.plugin.t, this.plugin.settings.customProviders)[profile.cloudServiceType] ?? profile.cloudServiceType;
+            infoEl.createDiv({
+                cls: 'provider-profile-details',
+                text: `${providerName} (${profile.model})`
+            });
+
+            const actionsEl = itemEl.createDiv({ cls: 'provider-profile-actions' });
+
+            const switchBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.profiles.switchProfile,
+                cls: 'provider-profile-btn'
+            });
+            switchBtn.addEventListener('click', async () => {
+                await this.plugin.switchProfile(profile);
+                this.settingTab.display();
+            });
+
+            const editBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.profiles.editProfile,
+                cls: 'provider-profile-btn'
+            });
+            editBtn.addEventListener('click', () => this.openProfileModal(profile, false));
+
+            const deleteBtn = actionsEl.createEl('button', {
+                text: this.plugin.t.profiles.deleteProfile,
+                cls: 'provider-profile-btn mod-warning'
+            });
+            deleteBtn.addEventListener('click', () => this.deleteProfile(profile, listEl));
+        }
+    }
+
+    private openProfileModal(profile: ProviderProfile, isNew: boolean): void {
+        const existingNames = this.plugin.settings.profiles.map(p => p.name);
+
+        new ProviderProfileEditModal(
+            this.plugin.app,
+            this.plugin.t,
+            this.plugin.settings.customProviders,
+            existingNames,
+            profile,
+            isNew,
+            async (savedProfile) => {
+                const profiles = this.plugin.settings.profiles;
+                const existingIndex = profiles.findIndex(p => p.id === savedProfile.id);
+
+                if (existingIndex >= 0) {
+                    profiles[existingIndex] = savedProfile;
+                } else {
+                    profiles.push(savedProfile);
+                }
+
+                await this.plugin.saveSettings();
+                syncProfileCommands(this.plugin);
+
+                const listEl = this.containerEl.querySelector('.provider-profiles-list');
+                if (listEl) {
+                    this.renderProfilesList(listEl as HTMLElement);
+                }
+            }
+        ).open();
+    }
+
+    private async deleteProfile(profile: ProviderProfile, listEl: HTMLElement): Promise<void> {
+        const confirmMsg = this.plugin.t.profiles.deleteConfirm.replace('{name}', profile.name);
+        const confirmed = await this.plugin.showConfirmationDialog(confirmMsg);
+
+        if (!confirmed) return;
+
+        this.plugin.settings.profiles = this.plugin.settings.profiles.filter(p => p.id !== profile.id);
+        await this.plugin.saveSettings();
+        syncProfileCommands(this.plugin);
+        this.renderProfilesList(listEl);
     }
 
     private createServiceTypeDropdown(): void {
@@ -60,30 +188,20 @@ export class LLMSettingsSection extends BaseSettingSection {
                 .setDesc(this.plugin.t.settings.llm.cloudProviderDesc)
                 .addDropdown(dropdown =>
                     dropdown
-                        .addOptions({
-                            'openai': this.plugin.t.dropdowns.openai,
-                            'gemini': this.plugin.t.dropdowns.gemini,
-                            'deepseek': this.plugin.t.dropdowns.deepseek,
-                            'aliyun': this.plugin.t.dropdowns.aliyun,
-                            'claude': this.plugin.t.dropdowns.claude,
-                            'groq': this.plugin.t.dropdowns.groq,
-                            'vertex': this.plugin.t.dropdowns.vertex,
-                            'openrouter': this.plugin.t.dropdowns.openrouter,
-                            'bedrock': this.plugin.t.dropdowns.bedrock,
-                            'requesty': this.plugin.t.dropdowns.requesty,
-                            'cohere': this.plugin.t.dropdowns.cohere,
-                            'grok': this.plugin.t.dropdowns.grok,
-                            'mistral': this.plugin.t.dropdowns.mistral,
-                            'glm': this.plugin.t.dropdowns.glm,
-                            'mimo': this.plugin.t.dropdowns.mimo,
-                            'minimax': this.plugin.t.dropdowns.minimax,
-                            'openai-compatible': this.plugin.t.dropdowns.openaiCompatible
-                        })
+                        .addOptions(getCloudProviderOptions(this.plugin.t, this.plugin.settings.customProviders))
                         .setValue(this.plugin.settings.cloudServiceType)
                         .onChange(async (value) => {
-                            const type = value as 'openai' | 'gemini' | 'deepseek' | 'aliyun' | 'claude' | 'groq' | 'vertex' | 'openrouter' | 'bedrock' | 'requesty' | 'cohere' | 'grok' | 'mistral' | 'glm' | 'mimo' | 'minimax' | 'openai-compatible';
+                            const type = value as AdapterType;
                             this.plugin.settings.cloudServiceType = type;
 
+                            const customProvider = this.plugin.settings.customProviders.find(provider => `custom:${provider.id}` === type);
+                            if (customProvider) {
+                                this.plugin.settings.cloudEndpoint = customProvider.endpoint;
+                                await this.plugin.saveSettings();
+                                this.settingTab.display();
+                                return;
+                            }
+
                             try {
                                 const endpoints = await import('../../services/adapters/cloudEndpoints.json');
                                 switch (type) {
@@ -196,6 +314,22 @@ export class LLMSettingsSection extends BaseSettingSection {
                 });
             });
 
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.llm.localApi)
+            .setDesc(this.plugin.t.settings.llm.localApiDesc)
+            .addDropdown(dropdown => dropdown
+                .addOptions(getLocalApiOptions(this.plugin.t))
+                .setValue(this.plugin.settings.localServiceType === 'ollama' ? 'ollama' : 'openai_compatible')
+                .onChange(async (value) => {
+                    this.plugin.settings.localServiceType = value === 'ollama' ? 'ollama' : undefined;
+                    await this.plugin.saveSettings();
+                    this.settingTab.display();
+                }));
+
+        if (this.plugin.settings.localServiceType === 'ollama') {
+            this.displayOllamaOptions();
+        }
+
         new Setting(this.containerEl)
             .setName(this.plugin.t.settings.llm.modelName)
             .setDesc(this.plugin.t.settings.llm.modelNameDesc)
@@ -233,6 +367,41 @@ export class LLMSettingsSection extends BaseSettingSection {
         this.createTestButton();
     }
 
+    private displayOllamaOptions(): void {
+        const addNumberOption = (name: string, desc: string, field: 'ollamaNumCtx' | 'ollamaNumPredict') => {
+            new Setting(this.containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => {
+                    text.inputEl.type = 'number';
+                    text.inputEl.min = '0';
+                    text.setValue(String(this.plugin.settings[field]))
+                        .onChange(async (value) => {
+                            const number = Number(value || 0);
+                            if (!Number.isInteger(number) || number < 0) {
+                                return;
+                            }
+                            this.plugin.settings[field] = number;
+                            await this.plugin.saveSettings();
+                        });
+                });
+        };
+
+        addNumberOption(this.plugin.t.settings.llm.ollamaNumCtx, this.plugin.t.settings.llm.ollamaNumCtxDesc, 'ollamaNumCtx');
+        addNumberOption(this.plugin.t.settings.llm.ollamaNumPredict, this.plugin.t.settings.llm.ollamaNumPredictDesc, 'ollamaNumPredict');
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.llm.ollamaKeepAlive)
+            .setDesc(this.plugin.t.settings.llm.ollamaKeepAliveDesc)
+            .addText(text => text
+                .setPlaceholder('5m')
+                .setValue(this.plugin.settings.ollamaKeepAlive)
+                .onChange(async (value) => {
+                    this.plugin.settings.ollamaKeepAlive = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+    }
+
     private displayTemperatureOverrideSetting(): void {
         new Setting(this.containerEl)
             .setName(this.plugin.t.settings.llm.temperature)
@@ -314,6 +483,15 @@ export class LLMSettingsSection extends BaseSettingSection {
                 }
             });
 
+        new ButtonComponent(buttonContainer)
+            .setButtonText(this.plugin.t.diagnostics.run)
+            .setTooltip(this.plugin.t.diagnostics.description)
+            .onClick(() => new ConnectionDiagnosticsModal(
+                this.plugin.app,
+                this.plugin.t,
+                onStep => this.plugin.runConnectionDiagnostics(onStep)
+            ).open());
+
         this.statusContainer = testContainer.createDiv('connection-test-status');
         this.statusEl = this.statusContainer.createSpan();
 
@@ -387,9 +565,14 @@ export class LLMSettingsSection extends BaseSettingSection {
                     }
                 }));
 
-        new Setting(this.containerEl)
+        const catalog = this.plugin.modelCatalog.get(this.plugin.settings.cloudServiceType, this.plugin.settings.cloudEndpoint);
+        const modelSetting = new Setting(this.containerEl)
             .setName(this.plugin.t.settings.llm.modelName)
-            .setDesc(this.plugin.t.settings.llm.modelNameDesc)
+            .setDesc(catalog
+                ? `${this.plugin.t.settings.llm.modelNameDesc} (${this.plugin.t.settings.llm.modelListUpdated
+                    .replace('{count}', String(catalog.models.length))
+                    .replace('{date}', new Date(catalog.fetchedAt).toLocaleString())})`
+                : this.plugin.t.settings.llm.modelNameDesc)
             .addText(text => text
                 .setPlaceholder(
                     this.plugin.settings.cloudServiceType === 'openai' ? 'gpt-4o' :
@@ -413,11 +596,63 @@ export class LLMSettingsSection extends BaseSettingSection {
                     await this.plugin.saveSettings();
                 }));
 
+        // Models from the provider's model list; the text field above still takes any model id
+        if (catalog && catalog.models.length > 0) {
+            modelSetting.addDropdown(dropdown => {
+                dropdown.addOption('', this.plugin.t.settings.llm.pickModel);
+                for (const model of catalog.models) {
+                    dropdown.addOption(model.id, this.getModelLabel(model));
+                }
+                dropdown
+                    .setValue(catalog.models.some(model => model.id === this.plugin.settings.cloudModel)
+                        ? this.plugin.settings.cloudModel
+                        : '')
+                    .onChange(async (value) => {
+                        if (!value) return;
+                        this.plugin.settings.cloudModel = value;
+                        await this.plugin.saveSettings();
+                        this.settingTab.display();
+                    });
+            });
+        }
+
+        modelSetting.addExtraButton(button => button
+            .setIcon('refresh-cw')
+            .setTooltip(this.plugin.t.settings.llm.refreshModels)
+            .onClick(() => this.refreshCloudModels()));
+
         this.displayTemperatureOverrideSetting();
 
         this.createTestButton();
     }
 
+    private getModelLabel(model: ModelInfo): string {
+        const label = model.name && model.name !== model.id ? `${model.name} (${model.id})` : model.id;
+        return model.contextWindow
+            ? `${label} · ${this.plugin.t.settings.llm.contextWindow.replace('{size}', formatContextWindow(model.contextWindow))}`
+            : label;
+    }
+
+    /**
+     * Fetches the current provider's model list and caches it for the model picker
+     */
+    private async refreshCloudModels(): Promise<void> {
+        const { cloudServiceType, cloudEndpoint, cloudApiKey, customProviders } = this.plugin.settings;
+        try {
+            const models = await fetchCloudModels(
+                cloudServiceType,
+                cloudEndpoint,
+                cloudApiKey,
+                customProviders.find(provider => `custom:${provider.id}` === cloudServiceType)
+            );
+            this.plugin.modelCatalog.set(cloudServiceType, cloudEndpoint, models);
+            new Notice(this.plugin.t.messages.modelsFetched.replace('{count}', String(models.length)));
+            this.settingTab.display();
+        } catch (error) {
+            new Notice(`${this.plugin.t.messages.modelsFetchFailed}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     private setStatusMessage(message: string, status: 'success' | 'error'): void {
         if (!this.statusContainer || !this.statusEl) return;
 
@@ -1,13 +1,18 @@
-import { Setting, Notice } from 'obsidian';
+import { Setting, Notice, TextComponent } from 'obsidian';
 import type AITaggerPlugin from '../../main';
 import { TaggingMode } from '../../services/prompts/types';
 import { BaseSettingSection } from './BaseSettingSection';
 import { LanguageUtils } from '../../utils/languageUtils';
 import { ExcludedFilesModal } from '../modals/ExcludedFilesModal';
+import { DEFAULT_SETTINGS, LowConfidenceAction } from '../../core/settings';
+import { CONCURRENCY_RANGE } from '../../utils/constants';
+import { LongNoteStrategy } from '../../services/types';
+import { RateLimits } from '../../services/rateLimiter';
 
 export class TaggingSettingsSection extends BaseSettingSection {
     private tagSourceSetting: Setting | null = null;
     private predefinedTagsFileSetting: Setting | null = null;
+    private embeddingSettingsEl: HTMLElement | null = null;
 
     // Update settings visibility
     private updateVisibility(): void {
@@ -23,6 +28,11 @@ export class TaggingSettingsSection extends BaseSettingSection {
                                       this.plugin.settings.tagSourceType === 'file';
             this.predefinedTagsFileSetting.settingEl.style.display = shouldShowTagsFile ? 'flex' : 'none';
         }
+
+        if (this.embeddingSettingsEl) {
+            const shouldShowEmbedding = this.plugin.settings.taggingMode === TaggingMode.Embedding;
+            this.embeddingSettingsEl.style.display = shouldShowEmbedding ? 'block' : 'none';
+        }
     }
 
     display(): void {
@@ -36,7 +46,8 @@ export class TaggingSettingsSection extends BaseSettingSection {
                     [TaggingMode.PredefinedTags]: this.plugin.t.settings.tagging.modePredefined,
                     [TaggingMode.GenerateNew]: this.plugin.t.settings.tagging.modeGenerate,
                     [TaggingMode.Hybrid]: this.plugin.t.settings.tagging.modeHybrid,
-                    [TaggingMode.Custom]: this.plugin.t.settings.tagging.modeCustom
+                    [TaggingMode.Custom]: this.plugin.t.settings.tagging.modeCustom,
+                    [TaggingMode.Embedding]: this.plugin.t.settings.tagging.modeEmbedding
                 })
                 .setValue(this.plugin.settings.taggingMode)
                 .onChange(async (value) => {
@@ -292,6 +303,8 @@ export class TaggingSettingsSection extends BaseSettingSection {
             document.removeEventListener('click', documentClickListener);
         });
         
+        this.displayEmbeddingSettings();
+
         // Apply initial visibility
         this.updateVisibility();
 
@@ -435,6 +448,84 @@ export class TaggingSettingsSection extends BaseSettingSection {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.reviewBeforeApply)
+            .setDesc(this.plugin.t.settings.tagging.reviewBeforeApplyDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.reviewBeforeApply)
+                .onChange(async (value) => {
+                    this.plugin.settings.reviewBeforeApply = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.skipUnchangedNotes)
+            .setDesc(this.plugin.t.settings.tagging.skipUnchangedNotesDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.skipUnchangedNotes)
+                .onChange(async (value) => {
+                    this.plugin.settings.skipUnchangedNotes = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Confidence threshold slider (0 turns scoring off)
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.confidenceThreshold)
+            .setDesc(this.plugin.t.settings.tagging.confidenceThresholdDesc)
+            .addSlider(slider => {
+                const container = slider.sliderEl.parentElement;
+                if (container) {
+                    const numberDisplay = container.createSpan({ cls: 'value-display' });
+                    numberDisplay.style.marginLeft = '10px';
+                    numberDisplay.setText(this.plugin.settings.confidenceThreshold.toFixed(2));
+
+                    slider.setLimits(0, 1, 0.05)
+                        .setValue(this.plugin.settings.confidenceThreshold)
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            numberDisplay.setText(value.toFixed(2));
+                            this.plugin.settings.confidenceThreshold = value;
+                            await this.plugin.saveSettings();
+                        });
+                }
+                return slider;
+            });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.lowConfidenceAction)
+            .setDesc(this.plugin.t.settings.tagging.lowConfidenceActionDesc)
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    'drop': this.plugin.t.settings.tagging.lowConfidenceDrop,
+                    'review': this.plugin.t.settings.tagging.lowConfidenceReview
+                })
+                .setValue(this.plugin.settings.lowConfidenceAction)
+                .onChange(async (value) => {
+                    this.plugin.settings.lowConfidenceAction = value as LowConfidenceAction;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.captureRationale)
+            .setDesc(this.plugin.t.settings.tagging.captureRationaleDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.captureRationale)
+                .onChange(async (value) => {
+                    this.plugin.settings.captureRationale = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.dryRunReportFolder)
+            .setDesc(this.plugin.t.settings.tagging.dryRunReportFolderDesc)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.dryRunReportFolder)
+                .setValue(this.plugin.settings.dryRunReportFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.dryRunReportFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         // Request Timeout slider
         new Setting(this.containerEl)
             .setName(this.plugin.t.settings.tagging.requestTimeout)
@@ -458,6 +549,172 @@ export class TaggingSettingsSection extends BaseSettingSection {
                 return slider;
             });
 
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.streamResponses)
+            .setDesc(this.plugin.t.settings.tagging.streamResponsesDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.streamResponses)
+                .onChange(async (value) => {
+                    this.plugin.settings.streamResponses = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.structuredOutput)
+            .setDesc(this.plugin.t.settings.tagging.structuredOutputDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.structuredOutput)
+                .onChange(async (value) => {
+                    this.plugin.settings.structuredOutput = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.longNoteStrategy)
+            .setDesc(this.plugin.t.settings.tagging.longNoteStrategyDesc)
+            .addDropdown(dropdown => dropdown
+                .addOptions({
+                    'truncate': this.plugin.t.settings.tagging.longNoteTruncate,
+                    'chunk': this.plugin.t.settings.tagging.longNoteChunk
+                })
+                .setValue(this.plugin.settings.longNoteStrategy)
+                .onChange(async (value) => {
+                    this.plugin.settings.longNoteStrategy = value as LongNoteStrategy;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.maxChunks)
+            .setDesc(this.plugin.t.settings.tagging.maxChunksDesc)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '1';
+                text.setValue(String(this.plugin.settings.maxChunks))
+                    .onChange(async (value) => {
+                        const chunks = Number(value);
+                        if (!Number.isInteger(chunks) || chunks < 1) return;
+                        this.plugin.settings.maxChunks = chunks;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.maxContentTokens)
+            .setDesc(this.plugin.t.settings.tagging.maxContentTokensDesc)
+            .addText(text => {
+                text.inputEl.type = 'number';
+                text.inputEl.min = '0';
+                text.inputEl.step = '500';
+                text.setValue(String(this.plugin.settings.maxContentTokens))
+                    .onChange(async (value) => {
+                        const tokens = Number(value);
+                        if (!value.trim() || !Number.isInteger(tokens) || tokens < 0) return;
+                        this.plugin.settings.maxContentTokens = tokens;
+                        await this.plugin.saveSettings();
+                    });
+            });
+
+        // Concurrency slider, stored for the active provider
+        const { provider } = this.plugin.getProviderInfo();
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.concurrency.replace('{provider}', provider))
+            .setDesc(this.plugin.t.settings.tagging.concurrencyDesc)
+            .addSlider(slider => {
+                const container = slider.sliderEl.parentElement;
+                if (container) {
+                    const numberDisplay = container.createSpan({ cls: 'value-display' });
+                    numberDisplay.style.marginLeft = '10px';
+                    numberDisplay.setText(`${this.plugin.getRequestConcurrency()}`);
+
+                    slider.setLimits(CONCURRENCY_RANGE.MIN, CONCURRENCY_RANGE.MAX, 1)
+                        .setValue(this.plugin.getRequestConcurrency())
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            numberDisplay.setText(`${value}`);
+                            this.plugin.settings.providerConcurrency[provider] = value;
+                            await this.plugin.saveSettings();
+                        });
+                }
+                return slider;
+            });
+
+        // Rate limits, stored for the active provider
+        const rateLimits = this.plugin.getRateLimits();
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.rateLimits.replace('{provider}', provider))
+            .setDesc(this.plugin.t.settings.tagging.rateLimitsDesc)
+            .addText(text => this.addRateLimitInput(text, provider, 'requestsPerMinute', rateLimits.requestsPerMinute,
+                this.plugin.t.settings.tagging.requestsPerMinute))
+            .addText(text => this.addRateLimitInput(text, provider, 'tokensPerMinute', rateLimits.tokensPerMinute,
+                this.plugin.t.settings.tagging.tokensPerMinute));
+
+        // Auto Tagging Settings
+        this.containerEl.createEl('h3', { text: this.plugin.t.settings.tagging.autoTagSettings });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.autoTagEnabled)
+            .setDesc(this.plugin.t.settings.tagging.autoTagEnabledDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoTagEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoTagEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.autoTagOnEdit)
+            .setDesc(this.plugin.t.settings.tagging.autoTagOnEditDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.autoTagOnEdit)
+                .onChange(async (value) => {
+                    this.plugin.settings.autoTagOnEdit = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.autoTagQuietPeriod)
+            .setDesc(this.plugin.t.settings.tagging.autoTagQuietPeriodDesc)
+            .addSlider(slider => {
+                const container = slider.sliderEl.parentElement;
+                if (container) {
+                    const numberDisplay = container.createSpan({ cls: 'value-display' });
+                    numberDisplay.style.marginLeft = '10px';
+                    numberDisplay.setText(`${this.plugin.settings.autoTagQuietPeriod}s`);
+
+                    slider.setLimits(5, 300, 5)
+                        .setValue(this.plugin.settings.autoTagQuietPeriod)
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            numberDisplay.setText(`${value}s`);
+                            this.plugin.settings.autoTagQuietPeriod = value;
+                            await this.plugin.saveSettings();
+                        });
+                }
+                return slider;
+            });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.settings.tagging.autoTagMinLength)
+            .setDesc(this.plugin.t.settings.tagging.autoTagMinLengthDesc)
+            .addSlider(slider => {
+                const container = slider.sliderEl.parentElement;
+                if (container) {
+                    const numberDisplay = container.createSpan({ cls: 'value-display' });
+                    numberDisplay.style.marginLeft = '10px';
+                    numberDisplay.setText(`${this.plugin.settings.autoTagMinLength}`);
+
+                    slider.setLimits(0, 2000, 50)
+                        .setValue(this.plugin.settings.autoTagMinLength)
+                        .setDynamicTooltip()
+                        .onChange(async (value) => {
+                            numberDisplay.setText(`${value}`);
+                            this.plugin.settings.autoTagMinLength = value;
+                            await this.plugin.saveSettings();
+                        });
+                }
+                return slider;
+            });
+
         // Nested Tags Settings
         this.containerEl.createEl('h3', { text: this.plugin.t.settings.tagging.nestedTagsSettings });
 
@@ -503,4 +760,93 @@ export class TaggingSettingsSection extends BaseSettingSection {
                     await this.plugin.saveSettings();
                 }));
     }
+
+    /**
+     * Sets up a requests or tokens per minute input for a provider; empty or 0 leaves the limit off
+     */
+    private addRateLimitInput(text: TextComponent, provider: string, field: keyof RateLimits, value: number, placeholder: string): void {
+        text.inputEl.type = 'number';
+        text.inputEl.min = '0';
+        text.setPlaceholder(placeholder)
+            .setValue(value ? String(value) : '')
+            .onChange(async (input) => {
+                const limit = Number(input || 0);
+                if (!Number.isFinite(limit) || limit < 0) {
+                    return;
+                }
+                this.plugin.settings.providerRateLimits[provider] = {
+                    ...this.plugin.getRateLimits(),
+                    [field]: Math.floor(limit)
+                };
+                await this.plugin.saveSettings();
+            });
+    }
+
+    // Embedding mode settings, shown only in that mode
+    private displayEmbeddingSettings(): void {
+        const t = this.plugin.t.settings.tagging;
+        this.embeddingSettingsEl = this.containerEl.createDiv('embedding-settings');
+
+        new Setting(this.embeddingSettingsEl)
+            .setName(t.embeddingEndpoint)
+            .setDesc(t.embeddingEndpointDesc)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.embeddingEndpoint)
+                .setValue(this.plugin.settings.embeddingEndpoint)
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingEndpoint = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.embeddingSettingsEl)
+            .setName(t.embeddingApiKey)
+            .setDesc(t.embeddingApiKeyDesc)
+            .addText(text => {
+                text.setValue(this.plugin.settings.embeddingApiKey)
+                    .onChange(async (value) => {
+                        this.plugin.settings.embeddingApiKey = value;
+                        await this.plugin.saveSettings();
+                    });
+                text.inputEl.type = 'password';
+                text.inputEl.autocomplete = 'off';
+            });
+
+        new Setting(this.embeddingSettingsEl)
+            .setName(t.embeddingModel)
+            .setDesc(t.embeddingModelDesc)
+            .addText(text => text
+                .setPlaceholder(DEFAULT_SETTINGS.embeddingModel)
+                .setValue(this.plugin.settings.embeddingModel)
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingModel = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.embeddingSettingsEl)
+            .setName(t.embeddingThreshold)
+            .setDesc(t.embeddingThresholdDesc)
+            .addSlider(slider => slider
+                .setLimits(0, 1, 0.05)
+                .setValue(this.plugin.settings.embeddingThreshold)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.embeddingThreshold = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        const clearSetting = new Setting(this.embeddingSettingsEl)
+            .setName(t.embeddingClearVectors);
+        // The vectors are read from disk the first time they are needed
+        this.plugin.tagEmbeddings.getSize().then(count => {
+            clearSetting.setDesc(t.embeddingClearVectorsDesc.replace('{count}', String(count)));
+        });
+        clearSetting.addButton(button => button
+            .setButtonText(t.embeddingClearVectors)
+            .onClick(async () => {
+                await this.plugin.tagEmbeddings.clear();
+                clearSetting.setDesc(t.embeddingClearVectorsDesc.replace('{count}', '0'));
+                new Notice(this.plugin.t.messages.embeddingVectorsCleared);
+            }));
+    }
+
 }
@@ -0,0 +1,184 @@
+import { Setting, Notice } from 'obsidian';
+import { BaseSettingSection } from './BaseSettingSection';
+import { ModelPrice } from '../../core/settings';
+
+export class UsageSettingsSection extends BaseSettingSection {
+    display(): void {
+        this.containerEl.createEl('h1', { text: this.plugin.t.usage.settingsTitle });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.usage.openView)
+            .setDesc(this.plugin.t.usage.openViewDesc)
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.usage.openView)
+                .onClick(() => this.plugin.showUsageLedger()))
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.usage.clearData)
+                .setWarning()
+                .onClick(async () => {
+                    const confirmed = await this.plugin.showConfirmationDialog(this.plugin.t.usage.clearConfirm);
+                    if (!confirmed) return;
+                    this.plugin.usageLedger.clear();
+                    new Notice(this.plugin.t.usage.cleared);
+                }));
+
+        this.displayResponseCache();
+        this.displayAuditLog();
+
+        this.containerEl.createEl('h3', { text: this.plugin.t.usage.pricesTitle });
+        this.containerEl.createEl('p', {
+            text: this.plugin.t.usage.pricesDesc,
+            cls: 'setting-item-description'
+        });
+
+        const listEl = this.containerEl.createDiv({ cls: 'model-prices-list' });
+        this.renderPrices(listEl);
+    }
+
+    private displayResponseCache(): void {
+        this.containerEl.createEl('h3', { text: this.plugin.t.usage.cacheTitle });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.usage.cacheEnabled)
+            .setDesc(this.plugin.t.usage.cacheEnabledDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.responseCacheEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.responseCacheEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.usage.cacheMaxSize)
+            .setDesc(this.plugin.t.usage.cacheMaxSizeDesc)
+            .addSlider(slider => slider
+                .setLimits(1, 200, 1)
+                .setValue(this.plugin.settings.responseCacheMaxSize)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.responseCacheMaxSize = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.usage.cacheTtl)
+            .setDesc(this.plugin.t.usage.cacheTtlDesc)
+            .addSlider(slider => slider
+                .setLimits(1, 365, 1)
+                .setValue(this.plugin.settings.responseCacheTtl)
+                .setDynamicTooltip()
+                .onChange(async (value) => {
+                    this.plugin.settings.responseCacheTtl = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.usage.clearCache)
+            .setDesc(this.plugin.t.usage.clearCacheDesc)
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.usage.clearCache)
+                .setWarning()
+                .onClick(() => this.plugin.clearResponseCache()));
+    }
+
+    private displayAuditLog(): void {
+        this.containerEl.createEl('h3', { text: this.plugin.t.auditLog.title });
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.auditLog.enabled)
+            .setDesc(this.plugin.t.auditLog.enabledDesc)
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.auditLogEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.auditLogEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.auditLog.path)
+            .setDesc(this.plugin.t.auditLog.pathDesc)
+            .addText(text => text
+                .setPlaceholder('AI Tagger Reports/audit-log.jsonl')
+                .setValue(this.plugin.settings.auditLogPath)
+                .onChange(async (value) => {
+                    this.plugin.settings.auditLogPath = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(this.containerEl)
+            .setName(this.plugin.t.auditLog.view)
+            .setDesc(this.plugin.t.auditLog.viewDesc)
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.auditLog.open)
+                .onClick(() => this.plugin.showAuditLog()))
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.auditLog.clear)
+                .setWarning()
+                .onClick(() => this.plugin.clearAuditLog()));
+    }
+
+    private renderPrices(listEl: HTMLElement): void {
+        listEl.empty();
+
+        for (const price of this.plugin.settings.modelPrices) {
+            new Setting(listEl)
+                .setName(price.model)
+                .addText(text => this.addPriceInput(text.inputEl, price, 'inputPrice', this.plugin.t.usage.inputPrice))
+                .addText(text => this.addPriceInput(text.inputEl, price, 'outputPrice', this.plugin.t.usage.outputPrice))
+                .addExtraButton(button => button
+                    .setIcon('trash')
+                    .setTooltip(this.plugin.t.usage.removePrice)
+                    .onClick(async () => {
+                        this.plugin.settings.modelPrices = this.plugin.settings.modelPrices.filter(p => p !== price);
+                        await this.plugin.saveSettings();
+                        this.renderPrices(listEl);
+                    }));
+        }
+
+        // New models are added by name and priced in their own row
+        let newModel = '';
+        new Setting(listEl)
+            .addText(text => text
+                .setPlaceholder(this.plugin.t.usage.modelPlaceholder)
+                .onChange(value => newModel = value.trim()))
+            .addButton(btn => btn
+                .setButtonText(this.plugin.t.usage.addPrice)
+                .onClick(async () => {
+                    if (!newModel) return;
+                    const exists = this.plugin.settings.modelPrices
+                        .some(p => p.model.toLowerCase() === newModel.toLowerCase());
+                    if (exists) {
+                        new Notice(this.plugin.t.usage.duplicateModel);
+                        return;
+                    }
+                    this.plugin.settings.modelPrices.push({ model: newModel, inputPrice: 0, outputPrice: 0 });
+                    await this.plugin.saveSettings();
+                    this.renderPrices(listEl);
+                }));
+    }
+
+    private addPriceInput(
+        inputEl: HTMLInputElement,
+        price: ModelPrice,
+        field: 'inputPrice' | 'outputPrice',
+        label: string
+    ): void {
+        inputEl.type = 'number';
+        inputEl.min = '0';
+        inputEl.step = 'any';
+        inputEl.value = String(price[field]);
+        inputEl.title = label;
+        inputEl.placeholder = label;
+        inputEl.style.width = '90px';
+        inputEl.addEventListener('change', async () => {
+            const value = Number(inputEl.value);
+            if (!Number.isFinite(value) || value < 0) {
+                new Notice(this.plugin.t.usage.invalidPrice);
+                inputEl.value = String(price[field]);
+                return;
+            }
+            price[field] = value;
+            await this.plugin.saveSettings();
+        });
+    }
+}
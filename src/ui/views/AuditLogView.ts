@@ -0,0 +1,207 @@
+import { ItemView, Notice, WorkspaceLeaf } from 'obsidian';
+import { AuditEntry, AuditLog } from '../../utils/auditLog';
+import { Translations } from '../../i18n/types';
+
+export const AUDIT_LOG_VIEW_TYPE = 'audit-log-view';
+
+/** Most rows shown at once; the export includes every matching entry */
+const MAX_ROWS = 500;
+
+/**
+ * Shows the requests sent to providers, newest first, with filters and a CSV export
+ */
+export class AuditLogView extends ItemView {
+    private t: Translations;
+    private auditLog: AuditLog;
+    private entries: AuditEntry[] = [];
+    private search = '';
+    private provider = '';
+    private status = '';
+    private tableContainer: HTMLElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, t: Translations, auditLog: AuditLog) {
+        super(leaf);
+        this.t = t;
+        this.auditLog = auditLog;
+    }
+
+    getViewType(): string {
+        return AUDIT_LOG_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return this.t.auditLog.title;
+    }
+
+    getIcon(): string {
+        return 'scroll-text';
+    }
+
+    async onOpen(): Promise<void> {
+        await this.render();
+    }
+
+    async onClose(): Promise<void> {
+        this.contentEl.empty();
+    }
+
+    private async render(): Promise<void> {
+        this.entries = (await this.auditLog.read()).reverse();
+
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('audit-log-view');
+
+        const header = contentEl.createDiv({ cls: 'tag-analytics-header' });
+        header.createEl('h2', { text: this.t.auditLog.title });
+
+        const btnContainer = header.createDiv({ cls: 'tag-analytics-buttons' });
+        const refreshBtn = btnContainer.createEl('button', { text: this.t.auditLog.refresh, cls: 'tag-analytics-btn' });
+        refreshBtn.addEventListener('click', () => this.render());
+        const exportBtn = btnContainer.createEl('button', { text: this.t.auditLog.exportCsv, cls: 'tag-analytics-btn' });
+        exportBtn.addEventListener('click', () => this.handleExport());
+
+        contentEl.createEl('p', { text: this.t.auditLog.description, cls: 'tag-analytics-desc' });
+
+        this.renderFilters(contentEl);
+        this.tableContainer = contentEl.createDiv({ cls: 'tag-analytics-table-section' });
+        this.renderTable();
+    }
+
+    private renderFilters(container: HTMLElement): void {
+        const controls = container.createDiv({ cls: 'usage-ledger-controls' });
+
+        const searchInput = controls.createEl('input', {
+            type: 'text',
+            placeholder: this.t.auditLog.searchPlaceholder,
+            cls: 'audit-log-search'
+        });
+        searchInput.value = this.search;
+        searchInput.addEventListener('input', () => {
+            this.search = searchInput.value;
+            this.renderTable();
+        });
+
+        const providerSelect = controls.createEl('select', { cls: 'dropdown' });
+        providerSelect.createEl('option', { text: this.t.auditLog.allProviders, value: '' });
+        for (const provider of new Set(this.entries.map(entry => entry.provider))) {
+            providerSelect.createEl('option', { text: provider, value: provider });
+        }
+        providerSelect.value = this.provider;
+        providerSelect.addEventListener('change', () => {
+            this.provider = providerSelect.value;
+            this.renderTable();
+        });
+
+        const statusLabels = this.getStatusLabels();
+        const statusSelect = controls.createEl('select', { cls: 'dropdown' });
+        statusSelect.createEl('option', { text: this.t.auditLog.allStatuses, value: '' });
+        (Object.keys(statusLabels) as AuditEntry['status'][]).forEach(status => {
+            statusSelect.createEl('option', { text: statusLabels[status], value: status });
+        });
+        statusSelect.value = this.status;
+        statusSelect.addEventListener('change', () => {
+            this.status = statusSelect.value;
+            this.renderTable();
+        });
+    }
+
+    /**
+     * Gets the entries matching the filters; the search matches paths, models and tags
+     */
+    private getFilteredEntries(): AuditEntry[] {
+        const search = this.search.trim().toLowerCase();
+        return this.entries.filter(entry =>
+            (!this.provider || entry.provider === this.provider) &&
+            (!this.status || entry.status === this.status) &&
+            (!search ||
+                entry.path.toLowerCase().includes(search) ||
+                entry.model.toLowerCase().includes(search) ||
+                entry.tags.some(tag => tag.toLowerCase().includes(search)))
+        );
+    }
+
+    private renderTable(): void {
+        const section = this.tableContainer;
+        if (!section) return;
+        section.empty();
+
+        const entries = this.getFilteredEntries();
+        if (entries.length === 0) {
+            section.createEl('p', {
+                text: this.entries.length === 0 ? this.t.auditLog.noEntries : this.t.auditLog.noMatches,
+                cls: 'tag-analytics-empty'
+            });
+            return;
+        }
+
+        const table = section.createEl('table', { cls: 'tag-analytics-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [
+            this.t.auditLog.time,
+            this.t.auditLog.note,
+            this.t.auditLog.provider,
+            this.t.auditLog.promptLength,
+            this.t.auditLog.status,
+            this.t.auditLog.tags
+        ].forEach(label => headerRow.createEl('th', { text: label }));
+
+        const statusLabels = this.getStatusLabels();
+        const tbody = table.createEl('tbody');
+        for (const entry of entries.slice(0, MAX_ROWS)) {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: new Date(entry.timestamp).toLocaleString() });
+            row.createEl('td', { text: entry.path });
+            // The endpoint and hash are in the tooltip to keep rows short
+            row.createEl('td', {
+                text: `${entry.provider} / ${entry.model}`,
+                attr: { title: entry.endpoint }
+            });
+            row.createEl('td', {
+                text: entry.promptLength.toLocaleString(),
+                attr: { title: `SHA-256 ${entry.promptHash}` }
+            });
+            const statusCell = row.createEl('td', {
+                text: statusLabels[entry.status] + (entry.httpStatus === undefined ? '' : ` (${entry.httpStatus})`)
+            });
+            if (entry.error) {
+                statusCell.setAttr('title', entry.error);
+            }
+            row.createEl('td', { text: entry.tags.join(', ') });
+        }
+
+        if (entries.length > MAX_ROWS) {
+            section.createEl('p', {
+                text: this.t.auditLog.truncated.replace('{count}', String(MAX_ROWS)).replace('{total}', String(entries.length)),
+                cls: 'tag-analytics-desc'
+            });
+        }
+    }
+
+    private getStatusLabels(): Record<AuditEntry['status'], string> {
+        return {
+            success: this.t.auditLog.statusSuccess,
+            error: this.t.auditLog.statusError,
+            cancelled: this.t.auditLog.statusCancelled
+        };
+    }
+
+    private handleExport(): void {
+        const entries = this.getFilteredEntries();
+        if (entries.length === 0) {
+            new Notice(this.t.auditLog.noEntries);
+            return;
+        }
+
+        // Oldest first, the order of the log file
+        const csv = AuditLog.toCSV([...entries].reverse());
+        const blob = new Blob([csv], { type: 'text/csv' });
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `audit-log-${new Date().toISOString().split('T')[0]}.csv`;
+        a.click();
+        URL.revokeObjectURL(url);
+        new Notice(this.t.auditLog.exported.replace('{count}', String(entries.length)));
+    }
+}
@@ -0,0 +1,155 @@
+import { ItemView, WorkspaceLeaf, setIcon } from 'obsidian';
+import { UsageLedger, UsageGrouping, UsageTotal } from '../../utils/usageLedger';
+import { ModelPrice } from '../../core/settings';
+import { Translations } from '../../i18n/types';
+
+export const USAGE_LEDGER_VIEW_TYPE = 'usage-ledger-view';
+
+/**
+ * Shows recorded token usage and its cost per day, batch run or folder
+ */
+export class UsageLedgerView extends ItemView {
+    private t: Translations;
+    private ledger: UsageLedger;
+    private getPrices: () => ModelPrice[];
+    private grouping: UsageGrouping = 'day';
+
+    constructor(leaf: WorkspaceLeaf, t: Translations, ledger: UsageLedger, getPrices: () => ModelPrice[]) {
+        super(leaf);
+        this.t = t;
+        this.ledger = ledger;
+        this.getPrices = getPrices;
+    }
+
+    getViewType(): string {
+        return USAGE_LEDGER_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return this.t.usage.title;
+    }
+
+    getIcon(): string {
+        return 'coins';
+    }
+
+    async onOpen(): Promise<void> {
+        this.render();
+    }
+
+    async onClose(): Promise<void> {
+        this.contentEl.empty();
+    }
+
+    private render(): void {
+        const { contentEl } = this;
+        contentEl.empty();
+        contentEl.addClass('usage-ledger-view');
+
+        const header = contentEl.createDiv({ cls: 'tag-analytics-header' });
+        header.createEl('h2', { text: this.t.usage.title });
+
+        const btnContainer = header.createDiv({ cls: 'tag-analytics-buttons' });
+        const refreshBtn = btnContainer.createEl('button', { text: this.t.usage.refresh, cls: 'tag-analytics-btn' });
+        refreshBtn.addEventListener('click', () => this.render());
+
+        contentEl.createEl('p', { text: this.t.usage.description, cls: 'tag-analytics-desc' });
+
+        const totals = this.ledger.summarize(this.grouping, this.getPrices());
+        this.renderSummary(contentEl, totals);
+        this.renderTable(contentEl, totals);
+    }
+
+    private renderSummary(container: HTMLElement, totals: UsageTotal[]): void {
+        const sum = (field: 'requests' | 'promptTokens' | 'completionTokens' | 'cost') =>
+            totals.reduce((total, row) => total + row[field], 0);
+
+        const summary = container.createDiv({ cls: 'tag-analytics-summary' });
+        const cards = summary.createDiv({ cls: 'tag-analytics-cards' });
+
+        this.createStatCard(cards, String(sum('requests')), this.t.usage.requests, 'send');
+        this.createStatCard(cards, sum('promptTokens').toLocaleString(), this.t.usage.promptTokens, 'arrow-up');
+        this.createStatCard(cards, sum('completionTokens').toLocaleString(), this.t.usage.completionTokens, 'arrow-down');
+        this.createStatCard(cards, this.formatCost(sum('cost')), this.t.usage.totalCost, 'coins');
+    }
+
+    private createStatCard(container: HTMLElement, value: string, label: string, icon: string): void {
+        const card = container.createDiv({ cls: 'tag-analytics-stat-card' });
+        setIcon(card.createDiv({ cls: 'tag-analytics-stat-icon' }), icon);
+        card.createDiv({ cls: 'tag-analytics-stat-value', text: value });
+        card.createDiv({ cls: 'tag-analytics-stat-label', text: label });
+    }
+
+    private renderTable(container: HTMLElement, totals: UsageTotal[]): void {
+        const section = container.createDiv({ cls: 'tag-analytics-table-section' });
+
+        const groupLabels: Record<UsageGrouping, string> = {
+            day: this.t.usage.groupDay,
+            run: this.t.usage.groupRun,
+            folder: this.t.usage.groupFolder
+        };
+
+        const controls = section.createDiv({ cls: 'usage-ledger-controls' });
+        controls.createSpan({ text: this.t.usage.groupBy });
+        const select = controls.createEl('select', { cls: 'dropdown' });
+        (Object.keys(groupLabels) as UsageGrouping[]).forEach(grouping => {
+            select.createEl('option', { text: groupLabels[grouping], value: grouping });
+        });
+        select.value = this.grouping;
+        select.addEventListener('change', () => {
+            this.grouping = select.value as UsageGrouping;
+            this.render();
+        });
+
+        if (totals.length === 0) {
+            section.createEl('p', { text: this.t.usage.noUsage, cls: 'tag-analytics-empty' });
+            return;
+        }
+
+        const table = section.createEl('table', { cls: 'tag-analytics-table' });
+        const headerRow = table.createEl('thead').createEl('tr');
+        [groupLabels[this.grouping], this.t.usage.requests, this.t.usage.promptTokens, this.t.usage.completionTokens, this.t.usage.cost]
+            .forEach(label => headerRow.createEl('th', { text: label }));
+
+        const tbody = table.createEl('tbody');
+        for (const total of totals) {
+            const row = tbody.createEl('tr');
+            row.createEl('td', { text: this.getGroupLabel(total) });
+            row.createEl('td', { text: String(total.requests) });
+            row.createEl('td', { text: total.promptTokens.toLocaleString() });
+            row.createEl('td', { text: total.completionTokens.toLocaleString() });
+            // Mark costs that leave out requests for models without a price
+            row.createEl('td', { text: this.formatCost(total.cost) + (total.unpriced > 0 ? ' *' : '') });
+        }
+
+        const requests = totals.reduce((sum, total) => sum + total.requests, 0);
+        const estimated = totals.reduce((sum, total) => sum + total.estimated, 0);
+        const unpriced = totals.reduce((sum, total) => sum + total.unpriced, 0);
+        if (estimated > 0) {
+            section.createEl('p', {
+                text: this.t.usage.estimatedNote.replace('{count}', String(estimated)).replace('{total}', String(requests)),
+                cls: 'tag-analytics-desc'
+            });
+        }
+        if (unpriced > 0) {
+            section.createEl('p', {
+                text: this.t.usage.unpricedNote.replace('{count}', String(unpriced)),
+                cls: 'tag-analytics-desc'
+            });
+        }
+    }
+
+    private getGroupLabel(total: UsageTotal): string {
+        if (this.grouping !== 'run') {
+            return total.key;
+        }
+        if (!total.key) {
+            return this.t.usage.singleNotes;
+        }
+        return `${total.label ?? total.key} (${new Date(total.lastTimestamp).toLocaleDateString()})`;
+    }
+
+    private formatCost(cost: number): string {
+        return `$${cost.toFixed(cost > 0 && cost < 1 ? 4 : 2)}`;
+    }
+}
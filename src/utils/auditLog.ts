@@ -0,0 +1,177 @@
+import { DataAdapter } from 'obsidian';
+import type { RequestRecord } from '../services/types';
+
+export interface AuditEntry {
+    timestamp: number;
+    /** Note the request was made for */
+    path: string;
+    provider: string;
+    /** Request URL, with credentials removed */
+    endpoint: string;
+    model: string;
+    /** Length of the prompt in characters; the prompt itself is not logged */
+    promptLength: number;
+    /** SHA-256 of the prompt, hex encoded, to check which text was sent without storing it */
+    promptHash: string;
+    status: RequestRecord['status'];
+    httpStatus?: number;
+    /** Error message, with credentials removed */
+    error?: string;
+    tags: string[];
+}
+
+/** Query parameters that carry credentials in endpoint URLs */
+const SECRET_PARAMS = /([?&](?:key|api[-_]?key|token|access[-_]?token|auth)=)[^&#\s]+/gi;
+
+/** Auth headers quoted in error messages, such as `Authorization: Bearer ...` */
+const SECRET_HEADERS = /((?:authorization|proxy-authorization|[\w-]*api[-_]?key|[\w-]*token)["']?\s*[:=]\s*["']?(?:(?:bearer|basic|token)\s+)?)[^\s"',;&]+/gi;
+
+/**
+ * Gets the SHA-256 of a text, hex encoded
+ */
+export async function hashPrompt(text: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Removes credentials from a text: URL user info, key and token query parameters, auth headers,
+ * and the given secrets
+ * @param text - Text such as a URL or an error message
+ * @param secrets - Configured API keys and custom header values
+ * @returns Text with every credential replaced by `****`
+ */
+export function redactSecrets(text: string, secrets: string[]): string {
+    let result = text
+        .replace(/(\w+:\/\/)[^/@\s]+@/g, '$1****@')
+        .replace(SECRET_PARAMS, '$1****')
+        .replace(SECRET_HEADERS, '$1****');
+    for (const secret of secrets) {
+        if (secret.length >= 8) {
+            result = result.split(secret).join('****');
+        }
+    }
+    return result;
+}
+
+/**
+ * Opt-in log of every request sent to a provider, one JSON entry per line in a file of the vault
+ * or the plugin folder. Prompts are logged by length and hash only, and credentials are removed.
+ */
+export class AuditLog {
+    // Appends are chained so concurrent requests never interleave their lines
+    private writing: Promise<void> = Promise.resolve();
+
+    constructor(
+        private adapter: DataAdapter,
+        private getPath: () => string,
+        private getSecrets: () => string[]
+    ) {}
+
+    /**
+     * Appends a request to the log
+     * @param request - Request sent to the provider
+     * @param path - Note the request was made for
+     * @param provider - Provider that handled the request
+     */
+    async record(request: RequestRecord, path: string, provider: string): Promise<void> {
+        const secrets = this.getSecrets();
+        const entry: AuditEntry = {
+            timestamp: Date.now(),
+            path,
+            provider,
+            endpoint: redactSecrets(request.endpoint, secrets),
+            model: request.model,
+            promptLength: request.prompt.length,
+            promptHash: await hashPrompt(request.prompt),
+            status: request.status,
+            tags: request.tags
+        };
+        if (request.httpStatus !== undefined) {
+            entry.httpStatus = request.httpStatus;
+        }
+        if (request.error) {
+            entry.error = redactSecrets(request.error, secrets);
+        }
+
+        const line = JSON.stringify(entry) + '\n';
+        this.writing = this.writing
+            .then(() => this.append(line))
+            .catch(error => console.error('Failed to write the request audit log:', error));
+        return this.writing;
+    }
+
+    /**
+     * Reads the logged requests, oldest first; lines that do not parse are skipped
+     */
+    async read(): Promise<AuditEntry[]> {
+        await this.writing;
+        const path = this.getPath();
+        if (!(await this.adapter.exists(path))) {
+            return [];
+        }
+
+        const entries: AuditEntry[] = [];
+        for (const line of (await this.adapter.read(path)).split('\n')) {
+            if (!line.trim()) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                // Skip lines cut short by an interrupted write
+            }
+        }
+        return entries;
+    }
+
+    /**
+     * Deletes the log file
+     * @returns Number of entries removed
+     */
+    async clear(): Promise<number> {
+        const count = (await this.read()).length;
+        const path = this.getPath();
+        if (await this.adapter.exists(path)) {
+            await this.adapter.remove(path);
+        }
+        return count;
+    }
+
+    /**
+     * Formats entries as CSV
+     */
+    static toCSV(entries: AuditEntry[]): string {
+        const headers = ['Time', 'Path', 'Provider', 'Endpoint', 'Model', 'Prompt Length', 'Prompt SHA-256', 'Status', 'HTTP Status', 'Error', 'Tags'];
+        const rows = entries.map(entry => [
+            new Date(entry.timestamp).toISOString(),
+            entry.path,
+            entry.provider,
+            entry.endpoint,
+            entry.model,
+            String(entry.promptLength),
+            entry.promptHash,
+            entry.status,
+            entry.httpStatus === undefined ? '' : String(entry.httpStatus),
+            entry.error ?? '',
+            entry.tags.join('; ')
+        ]);
+
+        return [
+            headers.join(','),
+            ...rows.map(row => row.map(cell => `"${cell.replace(/"/g, '""')}"`).join(','))
+        ].join('\n');
+    }
+
+    private async append(line: string): Promise<void> {
+        const path = this.getPath();
+        if (await this.adapter.exists(path)) {
+            await this.adapter.append(path, line);
+            return;
+        }
+
+        const folder = path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+        if (folder && !(await this.adapter.exists(folder))) {
+            await this.adapter.mkdir(folder);
+        }
+        await this.adapter.write(path, line);
+    }
+}
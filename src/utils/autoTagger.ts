@@ -0,0 +1,132 @@
+import { TFile } from 'obsidian';
+import type AITaggerPlugin from '../main';
+import { TagUtils } from './tagUtils';
+import { DryRunReport } from './dryRunReport';
+
+/** A write by the plugin within this window of the last modify event counts as the cause of it */
+const OWN_WRITE_WINDOW_MS = 1500;
+
+/**
+ * Tags new notes, and optionally edited notes, once they have been left alone for the quiet period
+ */
+export class AutoTagger {
+    private plugin: AITaggerPlugin;
+    private timers = new Map<string, ReturnType<typeof setTimeout>>();
+    private lastModified = new Map<string, number>();
+    // Notes created this session that have not been tagged yet
+    private pendingNew = new Set<string>();
+    // Notes currently being analyzed or written
+    private inFlight = new Set<string>();
+    // Body (content without frontmatter) of each note at the time its tags were written
+    private taggedBodies = new Map<string, string>();
+
+    constructor(plugin: AITaggerPlugin) {
+        this.plugin = plugin;
+    }
+
+    handleCreate(file: TFile): void {
+        if (!this.plugin.settings.autoTagEnabled || !this.isCandidate(file)) return;
+
+        this.pendingNew.add(file.path);
+        this.schedule(file);
+    }
+
+    handleModify(file: TFile): void {
+        if (!this.plugin.settings.autoTagEnabled || !this.isCandidate(file)) return;
+        if (this.inFlight.has(file.path)) return;
+        if (!this.plugin.settings.autoTagOnEdit && !this.pendingNew.has(file.path)) return;
+
+        this.lastModified.set(file.path, Date.now());
+        this.schedule(file);
+    }
+
+    handleDelete(path: string): void {
+        this.clearTimer(path);
+        this.pendingNew.delete(path);
+        this.lastModified.delete(path);
+        this.taggedBodies.delete(path);
+    }
+
+    handleRename(file: TFile, oldPath: string): void {
+        const wasPending = this.pendingNew.has(oldPath);
+        const taggedBody = this.taggedBodies.get(oldPath);
+        this.handleDelete(oldPath);
+
+        if (taggedBody !== undefined) {
+            this.taggedBodies.set(file.path, taggedBody);
+        }
+        if (wasPending) {
+            this.pendingNew.add(file.path);
+            this.schedule(file);
+        }
+    }
+
+    cleanup(): void {
+        for (const timer of this.timers.values()) {
+            clearTimeout(timer);
+        }
+        this.timers.clear();
+        this.pendingNew.clear();
+        this.lastModified.clear();
+    }
+
+    private isCandidate(file: TFile): boolean {
+        return file.extension === 'md' &&
+            !TagUtils.isFileExcluded(file, this.plugin.settings.excludedFolders);
+    }
+
+    private schedule(file: TFile): void {
+        this.clearTimer(file.path);
+        const delay = Math.max(1, this.plugin.settings.autoTagQuietPeriod) * 1000;
+        this.timers.set(file.path, setTimeout(() => {
+            this.timers.delete(file.path);
+            this.run(file.path);
+        }, delay));
+    }
+
+    private clearTimer(path: string): void {
+        const timer = this.timers.get(path);
+        if (timer) {
+            clearTimeout(timer);
+            this.timers.delete(path);
+        }
+    }
+
+    private async run(path: string): Promise<void> {
+        const file = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (!(file instanceof TFile) || !this.plugin.settings.autoTagEnabled) return;
+        if (this.inFlight.has(path) || DryRunReport.isReport(this.plugin.app, file)) return;
+
+        // Skip changes caused by the plugin's own frontmatter writes
+        const lastModified = this.lastModified.get(path);
+        const lastWrite = this.plugin.tagJournal.getLastChangeTime(path);
+        if (lastModified && lastWrite && lastWrite >= lastModified - OWN_WRITE_WINDOW_MS) return;
+
+        const content = await this.plugin.app.vault.read(file);
+        const body = TagUtils.getNoteBody(content).trim();
+
+        // Wait for more content; new notes stay pending until they are long enough
+        if (body.length < this.plugin.settings.autoTagMinLength) return;
+        if (this.taggedBodies.get(path) === body) return;
+
+        this.inFlight.add(path);
+        try {
+            const result = await this.plugin.analyzeAndTagNote(file, content);
+            if (this.plugin.settings.debugMode) {
+                console.log(`[AI Tagger Debug] Auto-tagged ${path}:`, result);
+            }
+            // Failed runs are retried on the next edit; notes skipped in the review wait for new content
+            if (result.success || result.reviewAction) {
+                this.taggedBodies.set(path, body);
+                this.pendingNew.delete(path);
+            }
+            this.plugin.handleTagUpdateResult(result, true);
+        } catch (error) {
+            if (this.plugin.settings.debugMode) {
+                console.log(`[AI Tagger Debug] Auto-tagging failed for ${path}:`, error);
+            }
+        } finally {
+            this.inFlight.delete(path);
+        }
+    }
+}
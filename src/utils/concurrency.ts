@@ -0,0 +1,106 @@
+/**
+ * Runs the worker over all items with at most `limit` calls in flight.
+ * Results are returned in the order of the input items, regardless of completion order.
+ * @param items - Items to process
+ * @param limit - Maximum number of concurrent workers
+ * @param worker - Async function called for each item
+ * @param shouldStop - Checked before each item is started; remaining items are left unprocessed
+ * @returns Results by input index (undefined for items that were not started)
+ */
+export async function runWithConcurrency<T, R>(
+    items: T[],
+    limit: number,
+    worker: (item: T, index: number) => Promise<R>,
+    shouldStop: () => boolean = () => false
+): Promise<(R | undefined)[]> {
+    const results: (R | undefined)[] = new Array(items.length);
+    let nextIndex = 0;
+
+    const runWorker = async (): Promise<void> => {
+        while (nextIndex < items.length && !shouldStop()) {
+            const index = nextIndex++;
+            results[index] = await worker(items[index], index);
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(limit, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+    return results;
+}
+
+/**
+ * Serializes async operations that share a key, e.g. writes to the same file
+ */
+export class KeyedLock {
+    private tails = new Map<string, Promise<unknown>>();
+
+    async run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+        const previous = this.tails.get(key) ?? Promise.resolve();
+        const current = previous.catch(() => undefined).then(operation);
+        this.tails.set(key, current);
+
+        try {
+            return await current;
+        } finally {
+            // Drop the entry once nothing else is queued behind this operation
+            if (this.tails.get(key) === current) {
+                this.tails.delete(key);
+            }
+        }
+    }
+}
+
+/**
+ * Limits how many operations sharing a key run at once, e.g. requests to the same provider
+ */
+export class KeyedSemaphore {
+    private active = new Map<string, number>();
+    private waiting = new Map<string, (() => void)[]>();
+
+    /**
+     * @param getLimit - Number of operations allowed at once for a key
+     */
+    constructor(private getLimit: (key: string) => number) {}
+
+    async run<T>(key: string, operation: () => Promise<T>): Promise<T> {
+        await this.acquire(key);
+        try {
+            return await operation();
+        } finally {
+            this.release(key);
+        }
+    }
+
+    private acquire(key: string): Promise<void> {
+        const active = this.active.get(key) ?? 0;
+        if (active < Math.max(1, this.getLimit(key))) {
+            this.active.set(key, active + 1);
+            return Promise.resolve();
+        }
+        return new Promise(resolve => {
+            const queue = this.waiting.get(key) ?? [];
+            queue.push(resolve);
+            this.waiting.set(key, queue);
+        });
+    }
+
+    private release(key: string): void {
+        const queue = this.waiting.get(key);
+        const next = queue?.shift();
+        if (queue?.length === 0) {
+            this.waiting.delete(key);
+        }
+        // Hand the slot straight to the next waiting operation
+        if (next) {
+            next();
+            return;
+        }
+
+        const active = (this.active.get(key) ?? 1) - 1;
+        if (active > 0) {
+            this.active.set(key, active);
+        } else {
+            this.active.delete(key);
+        }
+    }
+}
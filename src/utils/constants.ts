@@ -9,9 +9,18 @@ export const SYSTEM_PROMPT =
 
 /**
  * Maximum number of concurrent requests to external APIs
+ * (default for providers without their own concurrency setting)
  */
 export const MAX_CONCURRENT_REQUESTS = 3;
 
+/**
+ * Allowed range for the per-provider concurrency setting
+ */
+export const CONCURRENCY_RANGE = {
+    MIN: 1,
+    MAX: 10
+};
+
 /**
  * Tag range constants for different tagging modes
  */
@@ -42,8 +51,14 @@ export const TAG_GENERATE_RANGE = {
  * LLM Service configuration constants
  */
 export const LLM_SERVICE_CONFIG = {
-    MAX_CONTENT_LENGTH: 4000,  // Maximum content length for API requests
+    DEFAULT_CONTEXT_WINDOW: 8192, // Context window in tokens of models the registry does not know
+    RESPONSE_RESERVE_TOKENS: 1000, // Tokens kept free in the context window for the response
+    MIN_CONTENT_TOKENS: 200,   // Smallest content budget worth a request
+    DEFAULT_MAX_CHUNKS: 8,     // Chunks analyzed for a long note when the config sets no limit
     MAX_RETRIES: 3,            // Maximum retry attempts for failed requests
     RETRY_DELAY: 1000,         // Base delay between retries in ms
+    MAX_RETRY_DELAY: 30000,    // Longest backoff between retries in ms
+    MAX_RATE_LIMIT_RETRIES: 8, // Rate-limited attempts retried after pausing the provider
+    MAX_RATE_LIMIT_PAUSE: 300000, // Longer waits requested by a provider fail the request instead
     DEFAULT_TIMEOUT: 60000     // Default request timeout in ms
 }; 
\ No newline at end of file
@@ -0,0 +1,87 @@
+import { estimateTokens, truncateToTokens } from '../services/usage';
+
+/**
+ * Splits long note content into chunks for map-reduce analysis.
+ * Sections start at Markdown headings; sections that are still too long are split on
+ * paragraphs, and paragraphs that are still too long are cut at the limit.
+ */
+export class ContentChunker {
+    /**
+     * Splits content into chunks of at most `maxTokens` estimated tokens
+     * @param content - Content to split
+     * @param maxTokens - Maximum chunk size in tokens
+     * @returns Non-empty chunks in document order
+     */
+    static split(content: string, maxTokens: number): string[] {
+        const chunks: string[] = [];
+        let current = '';
+        // Sum of the estimates of the pieces, which is never below the estimate of the whole chunk
+        let currentTokens = 0;
+
+        const flush = () => {
+            if (current.trim()) {
+                chunks.push(current.trim());
+            }
+            current = '';
+            currentTokens = 0;
+        };
+
+        // Adds a piece to the current chunk, starting a new chunk when it would overflow
+        const append = (piece: string, separator: string) => {
+            const tokens = estimateTokens(separator + piece);
+            if (current && currentTokens + tokens > maxTokens) {
+                flush();
+            }
+            currentTokens += current ? tokens : estimateTokens(piece);
+            current = current ? current + separator + piece : piece;
+        };
+
+        for (const section of this.splitSections(content)) {
+            if (estimateTokens(section) <= maxTokens) {
+                append(section, '\n\n');
+                continue;
+            }
+
+            for (const paragraph of section.split(/\n\s*\n/)) {
+                if (!paragraph.trim()) continue;
+                if (estimateTokens(paragraph) <= maxTokens) {
+                    append(paragraph, '\n\n');
+                    continue;
+                }
+                for (let rest = paragraph; rest;) {
+                    // Always take at least one character, so a budget below one token still ends
+                    const piece = truncateToTokens(rest, maxTokens) || rest.slice(0, 1);
+                    append(piece, '\n\n');
+                    rest = rest.slice(piece.length);
+                }
+            }
+        }
+        flush();
+
+        return chunks;
+    }
+
+    /**
+     * Picks at most `limit` chunks spread evenly over the note, always keeping the first one
+     * @param chunks - Chunks in document order
+     * @param limit - Maximum number of chunks to keep
+     * @returns Selected chunks in document order
+     */
+    static sample(chunks: string[], limit: number): string[] {
+        if (chunks.length <= limit) {
+            return chunks;
+        }
+        const step = chunks.length / limit;
+        return Array.from({ length: limit }, (_, i) => chunks[Math.floor(i * step)]);
+    }
+
+    /**
+     * Splits content into sections that each start at a heading
+     */
+    private static splitSections(content: string): string[] {
+        return content
+            .split(/\n(?=#{1,6}\s)/)
+            .map(section => section.trim())
+            .filter(section => section.length > 0);
+    }
+}
@@ -0,0 +1,27 @@
+import type { ModelContextWindow } from '../core/settings';
+
+/**
+ * Finds a model's context window in the registry: the entry named exactly like the model, or else
+ * the longest entry the model name starts with. Names are compared ignoring case, and with and without
+ * a vendor prefix such as `openai/`, so routers like OpenRouter match the same entries.
+ * @param entries - Registered context windows
+ * @param model - Model name
+ * @returns Context window in tokens, or null if no entry matches
+ */
+export function findContextWindow(entries: ModelContextWindow[], model: string): number | null {
+    const full = model.trim().toLowerCase();
+    const names = [full, full.slice(full.lastIndexOf('/') + 1)];
+
+    let best: ModelContextWindow | null = null;
+    for (const entry of entries) {
+        const prefix = entry.model.trim().toLowerCase();
+        if (!prefix || !(entry.contextWindow > 0)) continue;
+        if (names.includes(prefix)) {
+            return entry.contextWindow;
+        }
+        if (names.some(name => name.startsWith(prefix)) && prefix.length > (best?.model.trim().length ?? 0)) {
+            best = entry;
+        }
+    }
+    return best?.contextWindow ?? null;
+}
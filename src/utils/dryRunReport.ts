@@ -0,0 +1,164 @@
+import { App, TFile, normalizePath } from 'obsidian';
+
+/** Frontmatter key that marks a note as a dry-run report */
+export const DRY_RUN_REPORT_KEY = 'ai-tagger-report';
+
+export interface DryRunEntry {
+    /** Path of the analyzed file */
+    path: string;
+    currentTags: string[];
+    /** Full tag list the note would end up with */
+    proposedTags: string[];
+    /** Tags below the confidence threshold that a real run would hold back for review */
+    heldTags?: string[];
+    /** Set when the LLM call failed for this file */
+    error?: string;
+}
+
+export interface DryRunReportInfo {
+    scope: string;
+    createdAt: Date;
+    provider: string;
+    model: string;
+    taggingMode: string;
+    replaceTags: boolean;
+}
+
+const EMPTY_MARKER = '—';
+
+/**
+ * Builds and reads the Markdown reports written by dry runs
+ */
+export class DryRunReport {
+    /**
+     * Renders the report note
+     * @param entries - One entry per analyzed file
+     * @param info - Run details stored in the frontmatter
+     * @returns Markdown content
+     */
+    static build(entries: DryRunEntry[], info: DryRunReportInfo): string {
+        const changed = entries.filter(entry => !entry.error && this.hasChanges(entry));
+        const failed = entries.filter(entry => entry.error);
+        const held = entries.filter(entry => !entry.error && entry.heldTags?.length);
+
+        const lines: string[] = [
+            '---',
+            `${DRY_RUN_REPORT_KEY}: dry-run`,
+            `scope: ${JSON.stringify(info.scope)}`,
+            `created: ${info.createdAt.toISOString()}`,
+            `provider: ${JSON.stringify(info.provider)}`,
+            `model: ${JSON.stringify(info.model)}`,
+            `tagging-mode: ${info.taggingMode}`,
+            `replace-tags: ${info.replaceTags}`,
+            '---',
+            '',
+            `# AI Tagger dry run: ${info.scope}`,
+            '',
+            `- Files analyzed: ${entries.length}`,
+            `- Files with changes: ${changed.length}`,
+            `- Files with tags held for review: ${held.length}`,
+            `- Errors: ${failed.length}`,
+            '',
+            'Run "Apply dry-run report" with this note open to write the proposed tags. ' +
+            'Edit or delete a section to change what gets applied. ' +
+            'Tags held for review are not applied unless you add them to the Proposed line.',
+            ''
+        ];
+
+        for (const entry of entries) {
+            lines.push(`## ${entry.path}`);
+            if (entry.error) {
+                lines.push(`- Error: ${entry.error.replace(/\s+/g, ' ')}`);
+            } else {
+                const added = entry.proposedTags.filter(tag => !entry.currentTags.includes(tag));
+                const removed = entry.currentTags.filter(tag => !entry.proposedTags.includes(tag));
+                lines.push(`- Current: ${this.formatTagList(entry.currentTags)}`);
+                lines.push(`- Proposed: ${this.formatTagList(entry.proposedTags)}`);
+                lines.push(`- Add: ${this.formatTagList(added)}`);
+                lines.push(`- Remove: ${this.formatTagList(removed)}`);
+                if (entry.heldTags?.length) {
+                    lines.push(`- Held for review: ${this.formatTagList(entry.heldTags)}`);
+                }
+            }
+            lines.push('');
+        }
+
+        return lines.join('\n');
+    }
+
+    /**
+     * Reads the entries back from a report note.
+     * Sections with errors or without a Proposed line are ignored.
+     * @param content - Report note content
+     * @returns Entries to apply
+     */
+    static parse(content: string): DryRunEntry[] {
+        const entries: DryRunEntry[] = [];
+        const sections = content.split(/^## /m).slice(1);
+
+        for (const section of sections) {
+            const [heading, ...body] = section.split(/\r?\n/);
+            const path = heading.trim();
+            const current = body.find(line => line.startsWith('- Current:'));
+            const proposed = body.find(line => line.startsWith('- Proposed:'));
+            if (!path || !proposed) continue;
+
+            entries.push({
+                path,
+                currentTags: current ? this.parseTagList(current.substring('- Current:'.length)) : [],
+                proposedTags: this.parseTagList(proposed.substring('- Proposed:'.length))
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Checks whether a note is a dry-run report
+     */
+    static isReport(app: App, file: TFile): boolean {
+        return !!app.metadataCache.getFileCache(file)?.frontmatter?.[DRY_RUN_REPORT_KEY];
+    }
+
+    /**
+     * Gets all dry-run reports in the vault, newest first
+     */
+    static getReports(app: App): TFile[] {
+        return app.vault.getMarkdownFiles()
+            .filter(file => this.isReport(app, file))
+            .sort((a, b) => b.stat.mtime - a.stat.mtime);
+    }
+
+    /**
+     * Writes the report into the given folder, creating the folder if needed
+     * @returns The created report note
+     */
+    static async save(app: App, folderPath: string, content: string, createdAt: Date): Promise<TFile> {
+        const folder = normalizePath(folderPath || '/');
+        if (folder !== '/' && !app.vault.getAbstractFileByPath(folder)) {
+            await app.vault.createFolder(folder);
+        }
+
+        const stamp = createdAt.toISOString().replace(/[:T]/g, '-').substring(0, 19);
+        const filePath = normalizePath(`${folder === '/' ? '' : folder + '/'}Dry run ${stamp}.md`);
+        return await app.vault.create(filePath, content);
+    }
+
+    static hasChanges(entry: DryRunEntry): boolean {
+        return entry.currentTags.length !== entry.proposedTags.length ||
+            entry.currentTags.some(tag => !entry.proposedTags.includes(tag));
+    }
+
+    // Tags are wrapped in code spans so the report itself does not add tags to the vault
+    private static formatTagList(tags: string[]): string {
+        return tags.length > 0 ? tags.map(tag => `\`${tag}\``).join(', ') : EMPTY_MARKER;
+    }
+
+    private static parseTagList(text: string): string[] {
+        const trimmed = text.trim();
+        if (!trimmed || trimmed === EMPTY_MARKER) return [];
+        return trimmed.split(',')
+            .map(tag => tag.trim().replace(/^`|`$/g, '').replace(/^#/, ''))
+            .filter(tag => tag.length > 0);
+    }
+}
@@ -1,4 +1,5 @@
 import { App, TFile, MarkdownView, EventRef } from 'obsidian';
+import { AutoTagger } from './autoTagger';
 
 interface TrackedEventRef {
     ref: EventRef;
@@ -56,6 +57,38 @@ export class EventHandlers {
         this.trackedRefs.push({ ref: layoutRef, source: 'workspace' });
     }
 
+    /**
+     * Routes vault events to the auto-tagger.
+     * Call once the layout is ready so files loaded at startup are not seen as created.
+     */
+    registerAutoTagHandlers(autoTagger: AutoTagger) {
+        const createRef = this.app.vault.on('create', (file) => {
+            if (file instanceof TFile) {
+                autoTagger.handleCreate(file);
+            }
+        });
+        this.trackedRefs.push({ ref: createRef, source: 'vault' });
+
+        const modifyRef = this.app.vault.on('modify', (file) => {
+            if (file instanceof TFile) {
+                autoTagger.handleModify(file);
+            }
+        });
+        this.trackedRefs.push({ ref: modifyRef, source: 'vault' });
+
+        const deleteRef = this.app.vault.on('delete', (file) => {
+            autoTagger.handleDelete(file.path);
+        });
+        this.trackedRefs.push({ ref: deleteRef, source: 'vault' });
+
+        const renameRef = this.app.vault.on('rename', (file, oldPath) => {
+            if (file instanceof TFile) {
+                autoTagger.handleRename(file, oldPath);
+            }
+        });
+        this.trackedRefs.push({ ref: renameRef, source: 'vault' });
+    }
+
     cleanup() {
         if (this.fileChangeTimeoutId) {
             clearTimeout(this.fileChangeTimeoutId);
@@ -0,0 +1,59 @@
+import type { AITaggerSettings, FolderRule } from '../core/settings';
+
+/** Settings a note is tagged with, and the folder rule they came from */
+export interface FolderTaggingSettings {
+    settings: AITaggerSettings;
+    rule: FolderRule | null;
+}
+
+/**
+ * Normalizes a folder path as typed in settings: no leading or trailing slashes
+ * @param folder Folder path
+ * @returns Normalized path
+ */
+export function normalizeRuleFolder(folder: string): string {
+    return folder.trim().replace(/^\/+|\/+$/g, '');
+}
+
+/**
+ * Finds the rule for a note: the one whose folder contains it most specifically
+ * @param rules Configured folder rules
+ * @param path Vault path of the note
+ * @returns Matching rule, or null if no rule's folder contains the note
+ */
+export function findFolderRule(rules: FolderRule[], path: string): FolderRule | null {
+    let best: FolderRule | null = null;
+    let bestLength = -1;
+    for (const rule of rules) {
+        const folder = normalizeRuleFolder(rule.folder);
+        if (!folder || !path.startsWith(`${folder}/`)) continue;
+        if (folder.length > bestLength) {
+            best = rule;
+            bestLength = folder.length;
+        }
+    }
+    return best;
+}
+
+/**
+ * Applies a rule's overrides to the settings
+ * @param settings Global settings
+ * @param rule Rule to apply, or null
+ * @returns Settings for notes under the rule; the global settings themselves if there is no rule
+ */
+export function applyFolderRule(settings: AITaggerSettings, rule: FolderRule | null): AITaggerSettings {
+    if (!rule) return settings;
+
+    const result = { ...settings };
+    if (rule.taggingMode !== undefined) result.taggingMode = rule.taggingMode;
+    if (rule.predefinedTagsPath) {
+        result.predefinedTagsPath = rule.predefinedTagsPath;
+        result.tagSourceType = 'file';
+    }
+    if (rule.customPrompt?.trim()) result.customPrompt = rule.customPrompt;
+    if (rule.language !== undefined) result.language = rule.language;
+    if (rule.tagFormat !== undefined) result.tagFormat = rule.tagFormat;
+    if (rule.tagRangeGenerateMax !== undefined) result.tagRangeGenerateMax = rule.tagRangeGenerateMax;
+    if (rule.tagRangePredefinedMax !== undefined) result.tagRangePredefinedMax = rule.tagRangePredefinedMax;
+    return result;
+}
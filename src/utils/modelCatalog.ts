@@ -0,0 +1,51 @@
+import type { PluginState } from '../core/state';
+import type { ModelInfo } from '../services/adapters';
+
+export interface ModelCatalogEntry {
+    /** Time the list was fetched */
+    fetchedAt: number;
+    models: ModelInfo[];
+}
+
+/**
+ * Formats a context window for display, such as 128k or 1M
+ * @param tokens - Context window in tokens
+ */
+export function formatContextWindow(tokens: number): string {
+    if (tokens >= 1_000_000) {
+        return `${Number((tokens / 1_000_000).toFixed(1))}M`;
+    }
+    return `${Math.round(tokens / 1000)}k`;
+}
+
+/**
+ * Keeps the model lists fetched from cloud providers, keyed by provider and endpoint.
+ * Lists are only replaced when they are fetched again.
+ * They live in the plugin state; `onChange` is called whenever they need saving.
+ */
+export class ModelCatalog {
+    private state: PluginState;
+    private onChange: () => void;
+
+    constructor(state: PluginState, onChange: () => void) {
+        this.state = state;
+        this.onChange = onChange;
+    }
+
+    private getKey(provider: string, endpoint: string): string {
+        return `${provider}|${endpoint.trim()}`;
+    }
+
+    /**
+     * Gets the cached model list of a provider
+     * @returns List, or null if it was never fetched
+     */
+    get(provider: string, endpoint: string): ModelCatalogEntry | null {
+        return this.state.modelCatalog[this.getKey(provider, endpoint)] ?? null;
+    }
+
+    set(provider: string, endpoint: string, models: ModelInfo[]): void {
+        this.state.modelCatalog[this.getKey(provider, endpoint)] = { fetchedAt: Date.now(), models };
+        this.onChange();
+    }
+}
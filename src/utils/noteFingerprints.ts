@@ -0,0 +1,85 @@
+import { TFile } from 'obsidian';
+import type { PluginState } from '../core/state';
+import { TagUtils } from './tagUtils';
+
+export interface NoteFingerprint {
+    /** Hash of the note body, without frontmatter */
+    contentHash: string;
+    /** Hash of the tagging settings and prompt the note was tagged with */
+    settingsHash: string;
+    taggedAt: number;
+}
+
+/**
+ * Fast non-cryptographic string hash (cyrb53)
+ * @param text Text to hash
+ * @returns Hash as a hex string
+ */
+export function hashString(text: string): string {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (let i = 0; i < text.length; i++) {
+        const ch = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16);
+}
+
+/**
+ * Remembers what each note looked like when it was last tagged, so unchanged notes can be skipped.
+ * Fingerprints live in the plugin state; `onChange` is called whenever they need saving.
+ */
+export class NoteFingerprints {
+    private state: PluginState;
+    private onChange: () => void;
+
+    constructor(state: PluginState, onChange: () => void) {
+        this.state = state;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Hashes the note body; tag writes only touch the frontmatter and do not change it
+     */
+    static hashContent(content: string): string {
+        return hashString(TagUtils.getNoteBody(content).trim());
+    }
+
+    /**
+     * Checks whether the note was tagged with the same content and settings before
+     */
+    isUnchanged(path: string, content: string, settingsHash: string): boolean {
+        const fingerprint = this.state.noteFingerprints[path];
+        return !!fingerprint &&
+            fingerprint.settingsHash === settingsHash &&
+            fingerprint.contentHash === NoteFingerprints.hashContent(content);
+    }
+
+    record(path: string, content: string, settingsHash: string): void {
+        this.state.noteFingerprints[path] = {
+            contentHash: NoteFingerprints.hashContent(content),
+            settingsHash,
+            taggedAt: Date.now()
+        };
+        this.onChange();
+    }
+
+    handleDelete(path: string): void {
+        if (this.state.noteFingerprints[path]) {
+            delete this.state.noteFingerprints[path];
+            this.onChange();
+        }
+    }
+
+    handleRename(file: TFile, oldPath: string): void {
+        const fingerprint = this.state.noteFingerprints[oldPath];
+        if (fingerprint) {
+            delete this.state.noteFingerprints[oldPath];
+            this.state.noteFingerprints[file.path] = fingerprint;
+            this.onChange();
+        }
+    }
+}
@@ -0,0 +1,168 @@
+import { DataAdapter, debounce } from 'obsidian';
+import { hashString } from './noteFingerprints';
+
+export interface ResponseCacheLimits {
+    /** Largest total size of the cached responses, in bytes */
+    maxBytes: number;
+    /** How long a response stays cached, in milliseconds */
+    ttlMs: number;
+}
+
+interface CachedResponse {
+    text: string;
+    createdAt: number;
+}
+
+/**
+ * Cache of LLM responses, stored as a JSON file in the plugin folder rather than in the plugin data,
+ * so it can grow without slowing down settings saves.
+ * Entries are kept oldest first; the oldest are dropped when the cache outgrows its size cap.
+ */
+export class ResponseCache {
+    private entries: Map<string, CachedResponse> | null = null;
+    private loading: Promise<Map<string, CachedResponse>> | null = null;
+    private size = 0;
+    private dirty = false;
+
+    constructor(
+        private adapter: DataAdapter,
+        private path: string,
+        private getLimits: () => ResponseCacheLimits
+    ) {}
+
+    /**
+     * Builds the cache key of a request
+     * @param parts - Everything the response depends on, such as the provider, model and full prompt
+     * @returns Cache key
+     */
+    static getKey(...parts: string[]): string {
+        const text = parts.join('\u0000');
+        return `${hashString(text)}-${text.length}`;
+    }
+
+    /**
+     * Gets a cached response
+     * @param key - Cache key
+     * @returns Response text, or null if it isn't cached or has expired
+     */
+    async get(key: string): Promise<string | null> {
+        const entries = await this.load();
+        const entry = entries.get(key);
+        if (!entry) {
+            return null;
+        }
+        if (Date.now() - entry.createdAt > this.getLimits().ttlMs) {
+            this.delete(entries, key);
+            this.requestSave();
+            return null;
+        }
+        return entry.text;
+    }
+
+    /**
+     * Caches a response, dropping expired and then the oldest responses to stay within the size cap
+     * @param key - Cache key
+     * @param text - Response text
+     */
+    async set(key: string, text: string): Promise<void> {
+        const entries = await this.load();
+        this.delete(entries, key);
+        entries.set(key, { text, createdAt: Date.now() });
+        this.size += getEntrySize(key, text);
+        this.prune(entries);
+        this.requestSave();
+    }
+
+    /**
+     * Removes every cached response
+     * @returns Number of responses removed
+     */
+    async clear(): Promise<number> {
+        const entries = await this.load();
+        const count = entries.size;
+        entries.clear();
+        this.size = 0;
+        this.requestSave.cancel();
+        this.dirty = true;
+        await this.flush();
+        return count;
+    }
+
+    /**
+     * Writes pending changes to disk
+     */
+    async flush(): Promise<void> {
+        this.requestSave.cancel();
+        if (!this.dirty || !this.entries) {
+            return;
+        }
+        this.dirty = false;
+        try {
+            await this.adapter.write(this.path, JSON.stringify(Object.fromEntries(this.entries)));
+        } catch (error) {
+            console.error('Failed to save the AI response cache:', error);
+        }
+    }
+
+    private requestSave = debounce(() => {
+        this.flush();
+    }, 2000, false);
+
+    private load(): Promise<Map<string, CachedResponse>> {
+        if (this.entries) {
+            return Promise.resolve(this.entries);
+        }
+        this.loading ??= this.read().then(entries => {
+            this.entries = entries;
+            this.size = 0;
+            entries.forEach((entry, key) => this.size += getEntrySize(key, entry.text));
+            this.prune(entries);
+            return entries;
+        });
+        return this.loading;
+    }
+
+    private async read(): Promise<Map<string, CachedResponse>> {
+        try {
+            if (!(await this.adapter.exists(this.path))) {
+                return new Map();
+            }
+            const data = JSON.parse(await this.adapter.read(this.path));
+            const entries = Object.entries(data ?? {}).filter(([, entry]: [string, any]) =>
+                typeof entry?.text === 'string' && typeof entry?.createdAt === 'number'
+            ) as [string, CachedResponse][];
+            return new Map(entries.sort(([, a], [, b]) => a.createdAt - b.createdAt));
+        } catch (error) {
+            // A damaged cache file is only a cache; start over
+            console.error('Failed to read the AI response cache:', error);
+            return new Map();
+        }
+    }
+
+    private prune(entries: Map<string, CachedResponse>): void {
+        const { maxBytes, ttlMs } = this.getLimits();
+        const now = Date.now();
+        for (const [key, entry] of entries) {
+            if (now - entry.createdAt <= ttlMs && this.size <= maxBytes) {
+                break;
+            }
+            this.delete(entries, key);
+        }
+    }
+
+    private delete(entries: Map<string, CachedResponse>, key: string): void {
+        const entry = entries.get(key);
+        if (entry) {
+            entries.delete(key);
+            this.size -= getEntrySize(key, entry.text);
+            this.dirty = true;
+        }
+    }
+}
+
+/**
+ * Approximate size of an entry in the cache file, in bytes
+ */
+function getEntrySize(key: string, text: string): number {
+    return key.length + text.length * 2 + 40;
+}
@@ -0,0 +1,176 @@
+import { DataAdapter, debounce } from 'obsidian';
+import { hashString } from './noteFingerprints';
+import { cosineSimilarity } from '../services/embeddingService';
+
+/** A predefined tag and its optional description, which is embedded with it */
+export interface TagDescription {
+    tag: string;
+    description?: string;
+}
+
+export interface TagEmbeddingCache {
+    /** Model the vectors were made with; changing it discards them */
+    model: string;
+    /** Vector per tag, with the hash of the text it was made from */
+    vectors: Record<string, { hash: string; vector: number[] }>;
+}
+
+export interface TagMatch {
+    tag: string;
+    /** Cosine similarity between the note and the tag */
+    score: number;
+}
+
+/**
+ * Gets the text embedded for a tag: its words, then the description if it has one
+ */
+function getEmbeddingText({ tag, description }: TagDescription): string {
+    const words = tag.replace(/^#/, '').replace(/[-_/]+/g, ' ');
+    return description ? `${words}: ${description}` : words;
+}
+
+/**
+ * Keeps an embedding vector for each predefined tag, so a tag is only embedded again
+ * when its description or the embedding model changes.
+ * Vectors are stored as a JSON file in the plugin folder, read the first time they are needed.
+ */
+export class TagEmbeddingStore {
+    private cache: TagEmbeddingCache | null = null;
+    private loading: Promise<TagEmbeddingCache> | null = null;
+    private dirty = false;
+    private queue: Promise<unknown> = Promise.resolve();
+
+    constructor(private adapter: DataAdapter, private path: string) {}
+
+    /**
+     * Gets the vectors of the given tags, embedding the ones that are missing or out of date.
+     * Vectors of tags no longer in the list are dropped.
+     * @param model - Embedding model
+     * @param tags - Predefined tags
+     * @param embed - Embeds texts, one vector per text
+     * @returns Vector per tag
+     */
+    getVectors(
+        model: string,
+        tags: TagDescription[],
+        embed: (texts: string[]) => Promise<number[][]>
+    ): Promise<Map<string, number[]>> {
+        // Parallel notes of a batch run wait for the first one instead of embedding the same tags again
+        const result = this.queue.then(() => this.loadVectors(model, tags, embed));
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+
+    private async loadVectors(
+        model: string,
+        tags: TagDescription[],
+        embed: (texts: string[]) => Promise<number[][]>
+    ): Promise<Map<string, number[]>> {
+        const cache = await this.load();
+        if (cache.model !== model) {
+            cache.model = model;
+            cache.vectors = {};
+        }
+
+        const texts = new Map(tags.map(tag => [tag.tag, getEmbeddingText(tag)]));
+        const missing = [...texts].filter(([tag, text]) => cache.vectors[tag]?.hash !== hashString(text));
+        if (missing.length > 0) {
+            const vectors = await embed(missing.map(([, text]) => text));
+            missing.forEach(([tag, text], i) => {
+                // Rounded to keep the file small; similarity is unaffected at this precision
+                cache.vectors[tag] = { hash: hashString(text), vector: vectors[i].map(value => Math.round(value * 1e5) / 1e5) };
+            });
+        }
+
+        const stale = Object.keys(cache.vectors).filter(tag => !texts.has(tag));
+        stale.forEach(tag => delete cache.vectors[tag]);
+        if (missing.length > 0 || stale.length > 0) {
+            this.dirty = true;
+            this.requestSave();
+        }
+
+        return new Map([...texts.keys()].map(tag => [tag, cache.vectors[tag].vector]));
+    }
+
+    /**
+     * Counts the tags that have a vector
+     */
+    async getSize(): Promise<number> {
+        return Object.keys((await this.load()).vectors).length;
+    }
+
+    /**
+     * Removes every stored vector, so all tags are embedded again on next use
+     */
+    async clear(): Promise<void> {
+        const cache = await this.load();
+        cache.model = '';
+        cache.vectors = {};
+        this.dirty = true;
+        await this.flush();
+    }
+
+    /**
+     * Writes pending changes to disk
+     */
+    async flush(): Promise<void> {
+        this.requestSave.cancel();
+        if (!this.dirty || !this.cache) {
+            return;
+        }
+        this.dirty = false;
+        try {
+            await this.adapter.write(this.path, JSON.stringify(this.cache));
+        } catch (error) {
+            console.error('Failed to save the tag embeddings:', error);
+        }
+    }
+
+    private requestSave = debounce(() => {
+        this.flush();
+    }, 2000, false);
+
+    private load(): Promise<TagEmbeddingCache> {
+        if (this.cache) {
+            return Promise.resolve(this.cache);
+        }
+        this.loading ??= this.read().then(cache => this.cache = cache);
+        return this.loading;
+    }
+
+    private async read(): Promise<TagEmbeddingCache> {
+        try {
+            if (await this.adapter.exists(this.path)) {
+                const data = JSON.parse(await this.adapter.read(this.path));
+                if (typeof data?.model === 'string' && data.vectors && typeof data.vectors === 'object') {
+                    return data;
+                }
+            }
+        } catch (error) {
+            // The vectors can always be made again; start over
+            console.error('Failed to read the tag embeddings:', error);
+        }
+        return { model: '', vectors: {} };
+    }
+}
+
+/**
+ * Ranks tags by their similarity to a note
+ * @param noteVector - Vector of the note
+ * @param tagVectors - Vector per tag
+ * @param threshold - Lowest similarity a tag needs
+ * @param limit - Most tags to return
+ * @returns Best matching tags, most similar first
+ */
+export function rankTagsBySimilarity(
+    noteVector: number[],
+    tagVectors: Map<string, number[]>,
+    threshold: number,
+    limit: number
+): TagMatch[] {
+    return [...tagVectors]
+        .map(([tag, vector]) => ({ tag, score: cosineSimilarity(noteVector, vector) }))
+        .filter(match => match.score >= threshold)
+        .sort((a, b) => b.score - a.score)
+        .slice(0, limit);
+}
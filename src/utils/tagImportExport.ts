@@ -1,5 +1,5 @@
 import { App, TFile, Notice } from 'obsidian';
-import { TagUtils } from './tagUtils';
+import { TagUtils, TagChangeContext, recordTagChange, createTagBatch } from './tagUtils';
 import { TagFormat } from '../core/settings';
 import * as yaml from 'js-yaml';
 
@@ -157,6 +157,15 @@ export class TagImportExport {
         entries: TagExportEntry[],
         mode: 'merge' | 'replace',
         tagFormat: TagFormat
+    ): Promise<{ success: number; failed: number; skipped: number }> {
+        return this.applyTagEntries(entries, mode, tagFormat, createTagBatch(`Import tags (${entries.length} entries)`));
+    }
+
+    private async applyTagEntries(
+        entries: TagExportEntry[],
+        mode: 'merge' | 'replace',
+        tagFormat: TagFormat,
+        batch: TagChangeContext
     ): Promise<{ success: number; failed: number; skipped: number }> {
         let success = 0;
         let failed = 0;
@@ -173,11 +182,12 @@ export class TagImportExport {
                 const content = await this.app.vault.read(file);
                 const cache = this.app.metadataCache.getFileCache(file);
 
+                const existingTags = cache?.frontmatter
+                    ? TagUtils.getExistingTags(cache.frontmatter)
+                    : [];
+
                 let newTags: string[];
                 if (mode === 'merge') {
-                    const existingTags = cache?.frontmatter
-                        ? TagUtils.getExistingTags(cache.frontmatter)
-                        : [];
                     const combined = [...existingTags, ...entry.tags];
                     newTags = [...new Set(combined.map(t =>
                         TagUtils.formatTags([t], false, tagFormat)[0]
@@ -217,6 +227,7 @@ export class TagImportExport {
 
                 if (newContent !== content) {
                     await this.app.vault.modify(file, newContent);
+                    recordTagChange(file, existingTags, newTags, 'import', batch);
                     success++;
                 } else {
                     skipped++;
@@ -0,0 +1,195 @@
+import { App, TFile } from 'obsidian';
+import { TagUtils, TagChange, TagChangeListener, TagChangeOperation, createTagBatch } from './tagUtils';
+
+/** Oldest entries are dropped once the journal grows past this size */
+export const MAX_JOURNAL_ENTRIES = 5000;
+
+export interface TagJournalEntry {
+    id: string;
+    /** Path of the changed file */
+    file: string;
+    before: string[];
+    after: string[];
+    operation: TagChangeOperation;
+    timestamp: number;
+    /** LLM provider and model, for AI writes */
+    provider?: string;
+    model?: string;
+    /** Entries written by the same command share a batch id */
+    batchId: string;
+    batchLabel?: string;
+    reverted?: boolean;
+}
+
+export interface TagJournalBatch {
+    id: string;
+    label?: string;
+    timestamp: number;
+    entries: TagJournalEntry[];
+}
+
+export interface TagRevertResult {
+    reverted: number;
+    /** Files whose tags changed after the entry was written */
+    conflicts: string[];
+    failed: number;
+}
+
+/**
+ * Records every tag write so it can be listed and rolled back later.
+ * Entries live in the plugin state; `onChange` is called whenever they need saving.
+ */
+export class TagJournal implements TagChangeListener {
+    private app: App;
+    private entries: TagJournalEntry[];
+    private onChange: () => void;
+
+    constructor(app: App, entries: TagJournalEntry[], onChange: () => void) {
+        this.app = app;
+        this.entries = entries;
+        this.onChange = onChange;
+    }
+
+    onTagChange(change: TagChange): void {
+        const id = this.createId();
+        const { context } = change;
+        this.entries.push({
+            id,
+            file: change.file,
+            before: change.before,
+            after: change.after,
+            operation: context.operation ?? change.operation,
+            timestamp: Date.now(),
+            provider: context.provider,
+            model: context.model,
+            // Writes made outside a batch form a batch of their own
+            batchId: context.batchId ?? id,
+            batchLabel: context.batchLabel
+        });
+
+        if (this.entries.length > MAX_JOURNAL_ENTRIES) {
+            this.entries.splice(0, this.entries.length - MAX_JOURNAL_ENTRIES);
+        }
+        this.onChange();
+    }
+
+    /**
+     * Gets the journal entries for a file, newest first
+     */
+    getHistory(filePath: string): TagJournalEntry[] {
+        return this.entries
+            .filter(entry => entry.file === filePath)
+            .sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Gets the time of the most recent recorded change to a file
+     */
+    getLastChangeTime(filePath: string): number | undefined {
+        for (let i = this.entries.length - 1; i >= 0; i--) {
+            if (this.entries[i].file === filePath) {
+                return this.entries[i].timestamp;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Groups entries into batches, newest first
+     */
+    getBatches(): TagJournalBatch[] {
+        const batches = new Map<string, TagJournalBatch>();
+        for (const entry of this.entries) {
+            let batch = batches.get(entry.batchId);
+            if (!batch) {
+                batch = { id: entry.batchId, label: entry.batchLabel, timestamp: entry.timestamp, entries: [] };
+                batches.set(entry.batchId, batch);
+            }
+            batch.entries.push(entry);
+            batch.timestamp = Math.max(batch.timestamp, entry.timestamp);
+        }
+        return [...batches.values()].sort((a, b) => b.timestamp - a.timestamp);
+    }
+
+    /**
+     * Gets labelled batch runs that still have entries to revert
+     */
+    getRevertableBatches(): TagJournalBatch[] {
+        return this.getBatches().filter(batch => batch.label && this.isRevertable(batch));
+    }
+
+    /**
+     * Gets the most recent operation that has not been reverted yet
+     */
+    getLastOperation(): TagJournalBatch | undefined {
+        return this.getBatches().find(batch => this.isRevertable(batch));
+    }
+
+    private isRevertable(batch: TagJournalBatch): boolean {
+        return batch.entries.some(entry => !entry.reverted && entry.operation !== 'revert');
+    }
+
+    /**
+     * Restores the tags recorded before each entry, newest first.
+     * Files whose tags were changed again afterwards are left alone.
+     */
+    async revertEntries(entries: TagJournalEntry[], label: string): Promise<TagRevertResult> {
+        const result: TagRevertResult = { reverted: 0, conflicts: [], failed: 0 };
+        const pending = entries
+            .filter(entry => !entry.reverted && entry.operation !== 'revert')
+            .sort((a, b) => b.timestamp - a.timestamp);
+
+        const batch = { ...createTagBatch(label), operation: 'revert' as const };
+        for (const entry of pending) {
+            const file = this.app.vault.getAbstractFileByPath(entry.file);
+            if (!(file instanceof TFile)) {
+                result.failed++;
+                continue;
+            }
+
+            const cache = this.app.metadataCache.getFileCache(file);
+            const currentTags = cache?.frontmatter ? TagUtils.getExistingTags(cache.frontmatter) : [];
+            if (!this.sameTags(currentTags, entry.after)) {
+                result.conflicts.push(entry.file);
+                continue;
+            }
+
+            const writeResult = await TagUtils.setNoteTags(this.app, file, entry.before, batch);
+            if (writeResult.success) {
+                entry.reverted = true;
+                result.reverted++;
+            } else {
+                result.failed++;
+            }
+        }
+
+        this.onChange();
+        return result;
+    }
+
+    /**
+     * Keeps entries pointing at a file after it is renamed or moved
+     */
+    handleRename(file: TFile, oldPath: string): void {
+        let changed = false;
+        for (const entry of this.entries) {
+            if (entry.file === oldPath) {
+                entry.file = file.path;
+                changed = true;
+            }
+        }
+        if (changed) {
+            this.onChange();
+        }
+    }
+
+    private sameTags(a: string[], b: string[]): boolean {
+        const setA = new Set(a.map(tag => tag.trim()));
+        const setB = new Set(b.map(tag => tag.trim()));
+        return setA.size === setB.size && [...setA].every(tag => setB.has(tag));
+    }
+
+    private createId(): string {
+        return `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`;
+    }
+}
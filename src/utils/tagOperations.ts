@@ -1,6 +1,6 @@
 import { App, TFile, Notice } from 'obsidian';
 import { BatchProcessor, BatchProcessResult } from './batchProcessor';
-import { TagUtils, TagOperationResult } from './tagUtils';
+import { TagUtils, TagOperationResult, TagChangeContext, createTagBatch } from './tagUtils';
 
 export class TagOperations {
     private app: App;
@@ -13,10 +13,11 @@ export class TagOperations {
 
     /**
      * Clear tags from a single note
+     * @param batch Journal batch the write belongs to
      */
-    public async clearNoteTags(file: TFile): Promise<TagOperationResult> {
+    public async clearNoteTags(file: TFile, batch?: TagChangeContext): Promise<TagOperationResult> {
         try {
-            const result = await TagUtils.clearTags(this.app, file);
+            const result = await TagUtils.clearTags(this.app, file, batch);
             if (result.success && result.message !== "Skipped: Note has no frontmatter") {
                 this.app.vault.trigger('modify', file);
             }
@@ -42,10 +43,11 @@ export class TagOperations {
             };
         }
 
+        const batch = createTagBatch(`Clear tags (${directory.length} notes)`);
         const result = await this.batchProcessor.processBatch(
             directory,
             async (file: TFile) => {
-                const result = await this.clearNoteTags(file);
+                const result = await this.clearNoteTags(file, batch);
                 if (!result.success && result.message !== "Skipped: Note has no frontmatter") {
                     return { success: false, message: result.message };
                 }
@@ -0,0 +1,66 @@
+import { TFile } from 'obsidian';
+import type { PluginState } from '../core/state';
+
+export interface TagRationaleEntry {
+    /** One-line explanation from the model */
+    rationale: string;
+    provider?: string;
+    model?: string;
+    timestamp: number;
+}
+
+/**
+ * Keeps the model's explanation for each AI-written tag, outside the note itself.
+ * Entries live in the plugin state; `onChange` is called whenever they need saving.
+ */
+export class TagRationaleStore {
+    private state: PluginState;
+    private onChange: () => void;
+
+    constructor(state: PluginState, onChange: () => void) {
+        this.state = state;
+        this.onChange = onChange;
+    }
+
+    /**
+     * Gets the stored rationale of a note, keyed by tag
+     */
+    getForFile(path: string): Record<string, TagRationaleEntry> {
+        return this.state.tagRationale[path] ?? {};
+    }
+
+    /**
+     * Stores rationale for tags written to a note, replacing older entries for the same tags
+     * @param path - Path of the note
+     * @param rationale - Explanation per tag
+     * @param source - Provider and model that produced the tags
+     */
+    record(path: string, rationale: Record<string, string>, source: { provider?: string; model?: string }): void {
+        const tags = Object.keys(rationale);
+        if (tags.length === 0) return;
+
+        const timestamp = Date.now();
+        const entries = this.state.tagRationale[path] ?? {};
+        for (const tag of tags) {
+            entries[tag] = { rationale: rationale[tag], provider: source.provider, model: source.model, timestamp };
+        }
+        this.state.tagRationale[path] = entries;
+        this.onChange();
+    }
+
+    handleDelete(path: string): void {
+        if (this.state.tagRationale[path]) {
+            delete this.state.tagRationale[path];
+            this.onChange();
+        }
+    }
+
+    handleRename(file: TFile, oldPath: string): void {
+        const entries = this.state.tagRationale[oldPath];
+        if (entries) {
+            delete this.state.tagRationale[oldPath];
+            this.state.tagRationale[file.path] = entries;
+            this.onChange();
+        }
+    }
+}
@@ -4,6 +4,7 @@ import * as yaml from 'js-yaml';
 import { ConfirmationModal } from '../ui/modals/ConfirmationModal';
 import { TAG_RANGE, TAG_PREDEFINED_RANGE, TAG_GENERATE_RANGE } from './constants';
 import { TagFormat } from '../core/settings';
+import type { TagDescription } from './tagEmbeddings';
 
 // Re-export constants for backward compatibility
 export { TAG_RANGE, TAG_PREDEFINED_RANGE, TAG_GENERATE_RANGE };
@@ -25,6 +26,78 @@ function debugLog(message: string, data?: any): void {
     }
 }
 
+/**
+ * Kinds of operations that change a note's tags
+ */
+export type TagChangeOperation = 'ai-tag' | 'update' | 'write' | 'clear' | 'rename' | 'flatten' | 'import' | 'revert';
+
+/**
+ * A single change to a note's frontmatter tags
+ */
+export interface TagChange {
+    /** Path of the changed file */
+    file: string;
+    /** Tags before the write */
+    before: string[];
+    /** Tags after the write */
+    after: string[];
+    operation: TagChangeOperation;
+    context: TagChangeContext;
+}
+
+/**
+ * Journal details passed along with a tag write
+ */
+export interface TagChangeContext {
+    /** Writes sharing a batch id are listed and reverted together */
+    batchId?: string;
+    batchLabel?: string;
+    /** Recorded instead of the write method's own operation, e.g. 'ai-tag' */
+    operation?: TagChangeOperation;
+    /** LLM provider and model, for AI writes */
+    provider?: string;
+    model?: string;
+}
+
+/**
+ * Receives tag changes from every write path (set by plugin)
+ */
+export interface TagChangeListener {
+    onTagChange(change: TagChange): void;
+}
+
+let tagChangeListener: TagChangeListener | null = null;
+
+export function setTagChangeListener(listener: TagChangeListener | null): void {
+    tagChangeListener = listener;
+}
+
+/**
+ * Reports a tag write to the registered listener. No-op when tags did not change.
+ */
+export function recordTagChange(
+    file: TFile,
+    before: string[],
+    after: string[],
+    operation: TagChangeOperation,
+    context: TagChangeContext = {}
+): void {
+    if (!tagChangeListener) return;
+    if (before.length === after.length && before.every((tag, i) => tag === after[i])) return;
+    tagChangeListener.onTagChange({ file: file.path, before: [...before], after: [...after], operation, context: { ...context } });
+}
+
+/**
+ * Starts a batch; writes passed the returned context are grouped under it
+ * @param label - Human readable description of the batch
+ */
+export function createTagBatch(label: string): TagChangeContext {
+    return {
+        batchId: `${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`,
+        batchLabel: label
+    };
+}
+
 /**
  * Custom error type for tag-related operations
  */
@@ -72,6 +145,17 @@ export class TagUtils {
         }
     }
 
+    /**
+     * Gets the note content after the frontmatter block.
+     * Parsed from the text itself, so it also works on content the metadata cache has not caught up with.
+     * @param content - Full note content
+     * @returns Content without frontmatter
+     */
+    static getNoteBody(content: string): string {
+        const match = content.match(/^---\r?\n(?:[\s\S]*?\r?\n)?---[ \t]*(?:\r?\n|$)/);
+        return match ? content.substring(match[0].length) : content;
+    }
+
     /**
      * Merges two arrays of tags, removing duplicates and sorting
      * @param existingTags - Array of existing tags
@@ -181,9 +265,10 @@ export class TagUtils {
      * Clears all tags from a file's frontmatter using Obsidian API.
      * @param app - Obsidian App instance
      * @param file - File to clear tags from
+     * @param context - Journal details for the write
      * @returns Promise resolving to operation result
      */
-    static async clearTags(app: App, file: TFile): Promise<TagOperationResult> {
+    static async clearTags(app: App, file: TFile, context?: TagChangeContext): Promise<TagOperationResult> {
         try {
             const content = await app.vault.read(file);
             const cache = app.metadataCache.getFileCache(file);
@@ -246,6 +331,7 @@ export class TagUtils {
             if (newContent !== content) {
                 try {
                     await app.vault.modify(file, newContent);
+                    recordTagChange(file, tagsToRemove, [], 'clear', context);
                     
                     // Allow a short delay for the metadata cache to update
                     await new Promise(resolve => setTimeout(resolve, 300));
@@ -282,6 +368,7 @@ export class TagUtils {
      * @param silent - Whether to suppress notifications
      * @param replaceTags - Whether to replace existing tags (true) or merge with them (false)
      * @param tagFormat - Tag format style (default: 'kebab-case')
+     * @param context - Journal details for the write, such as the batch and the provider of AI tags
      * @returns Promise resolving to operation result
      */
     static async updateNoteTags(
@@ -291,7 +378,8 @@ export class TagUtils {
         matchedTags: string[],
         silent: boolean = false,
         replaceTags: boolean = true,
-        tagFormat: TagFormat = 'kebab-case'
+        tagFormat: TagFormat = 'kebab-case',
+        context?: TagChangeContext
     ): Promise<TagOperationResult> {
         try {
             debugLog(`updateNoteTags called with newTags:`, newTags);
@@ -356,6 +444,7 @@ export class TagUtils {
                 const processor = app.metadataCache.getFileCache(file);
                 const frontmatterPosition = processor?.frontmatterPosition;
                 let newContent: string;
+                let previousTags: string[] = [];
                 
                 if (frontmatterPosition) {
                     const frontmatterText = content.substring(
@@ -371,6 +460,7 @@ export class TagUtils {
                         frontmatter = {};
                     }
                     
+                    previousTags = this.getExistingTags(frontmatter);
                     frontmatter.tags = yamlReadyTags;
                     
                     const newFrontmatter = yaml.dump(frontmatter).trim();
@@ -389,6 +479,7 @@ export class TagUtils {
                 
                 if (newContent !== content) {
                     await app.vault.modify(file, newContent);
+                    recordTagChange(file, previousTags, yamlReadyTags, 'update', context);
                     
                     await new Promise(resolve => setTimeout(resolve, 300));
                 }
@@ -550,6 +641,18 @@ export class TagUtils {
      * @returns Promise resolving to an array of tags, or null if file not found
      */
     static async getTagsFromFile(app: App, filePath: string): Promise<string[] | null> {
+        const tags = await this.getTagDescriptionsFromFile(app, filePath);
+        return tags ? tags.map(({ tag }) => tag) : null;
+    }
+
+    /**
+     * Reads the tags of a predefined tags file with their descriptions.
+     * Each line holds one tag, optionally followed by a colon and a description: `tag: description`
+     * @param app - Obsidian app instance
+     * @param filePath - Path of the tags file
+     * @returns Tags with their descriptions, or null if the file cannot be read
+     */
+    static async getTagDescriptionsFromFile(app: App, filePath: string): Promise<TagDescription[] | null> {
         try {
             if (!filePath) {
                 return null;
@@ -565,7 +668,15 @@ export class TagUtils {
                 .split('\n')
                 .map(line => line.trim())
                 .filter(Boolean)
-                .map(tag => this.formatTag(tag));
+                .map(line => {
+                    // Tags cannot contain colons, so the first one starts the description
+                    const separator = line.indexOf(':');
+                    const description = separator >= 0 ? line.substring(separator + 1).trim() : '';
+                    return {
+                        tag: this.formatTag(separator >= 0 ? line.substring(0, separator).trim() : line),
+                        ...(description ? { description } : {})
+                    };
+                });
         } catch (error) {
             //console.error('Error reading tags file:', error);
             return null;
@@ -612,6 +723,7 @@ export class TagUtils {
      * @param tags - Array of tags to add
      * @param replace - Whether to replace existing tags (default: false)
      * @param tagFormat - Tag format style (default: 'kebab-case')
+     * @param context - Journal details for the write
      * @returns Promise resolving to operation result
      */
     static async writeTagsToFrontmatter(
@@ -619,7 +731,8 @@ export class TagUtils {
         file: TFile,
         tags: string[],
         replace: boolean = false,
-        tagFormat: TagFormat = 'kebab-case'
+        tagFormat: TagFormat = 'kebab-case',
+        context?: TagChangeContext
     ): Promise<TagOperationResult> {
         try {
             if (!Array.isArray(tags)) {
@@ -640,6 +753,8 @@ export class TagUtils {
             const content = await app.vault.read(file);
             const cache = app.metadataCache.getFileCache(file);
             
+            const previousTags = cache?.frontmatter ? this.getExistingTags(cache.frontmatter) : [];
+
             // Get existing tags if we're not replacing them
             let finalTags: string[];
             if (replace) {
@@ -698,6 +813,7 @@ export class TagUtils {
             
             // Write changes to file
             await app.vault.modify(file, newContent);
+            recordTagChange(file, previousTags, finalTags, 'write', context);
             
             // Instead of waiting for metadata cache update which could fail,
             // just add a simple delay to allow file system operations to complete
@@ -718,6 +834,76 @@ export class TagUtils {
         }
     }
 
+    /**
+     * Sets a note's tags to exactly the given list, without formatting or merging.
+     * An empty list removes the tags property.
+     * @param app - Obsidian App instance
+     * @param file - File to update
+     * @param tags - Tags to write as-is
+     * @param context - Journal details for the write
+     * @returns Promise resolving to operation result
+     */
+    static async setNoteTags(app: App, file: TFile, tags: string[], context?: TagChangeContext): Promise<TagOperationResult> {
+        try {
+            const content = await app.vault.read(file);
+            const cache = app.metadataCache.getFileCache(file);
+            const frontmatterPosition = cache?.frontmatterPosition;
+            const previousTags = cache?.frontmatter ? this.getExistingTags(cache.frontmatter) : [];
+
+            let frontmatter: any = {};
+            let body = content;
+            if (frontmatterPosition) {
+                const frontmatterText = content.substring(
+                    frontmatterPosition.start.offset + 4,
+                    frontmatterPosition.end.offset - 4
+                );
+                try {
+                    frontmatter = yaml.load(frontmatterText) || {};
+                } catch (yamlError) {
+                    throw new Error(`YAML parse error: ${yamlError instanceof Error ? yamlError.message : String(yamlError)}`);
+                }
+                body = content.substring(frontmatterPosition.end.offset);
+            } else if (tags.length === 0) {
+                return { success: true, message: 'No tags to remove', tags: [] };
+            }
+
+            if (tags.length > 0) {
+                frontmatter.tags = tags;
+            } else {
+                delete frontmatter.tags;
+            }
+
+            let newContent: string;
+            if (Object.keys(frontmatter).length === 0) {
+                // Nothing left in the frontmatter, drop the block entirely
+                newContent = body.replace(/^(\r?\n)+/, '');
+            } else {
+                const newFrontmatter = yaml.dump(frontmatter).trim();
+                newContent = frontmatterPosition
+                    ? '---\n' + newFrontmatter + '\n---' + body
+                    : '---\n' + newFrontmatter + '\n---\n\n' + body;
+            }
+
+            if (newContent !== content) {
+                await app.vault.modify(file, newContent);
+                recordTagChange(file, previousTags, tags, 'write', context);
+                await new Promise(resolve => setTimeout(resolve, 300));
+            }
+
+            return {
+                success: true,
+                message: `Set ${tags.length} tag${tags.length === 1 ? '' : 's'}`,
+                tags: tags.map(tag => `#${tag}`)
+            };
+        } catch (error) {
+            const message = error instanceof Error ? error.message : 'Unknown error';
+            return {
+                success: false,
+                message: `Failed to set tags: ${message}`
+            };
+        }
+    }
+
     /**
      * Checks if a file should be excluded based on patterns
      * @param file - The file to check
@@ -820,12 +1006,14 @@ export class TagUtils {
      * @param app - Obsidian App instance
      * @param file - File to flatten tags in
      * @param tagFormat - Tag format style (default: 'kebab-case')
+     * @param context - Journal details for the write
      * @returns Promise resolving to operation result with count of flattened tags
      */
     static async flattenHierarchicalTags(
         app: App,
         file: TFile,
-        tagFormat: TagFormat = 'kebab-case'
+        tagFormat: TagFormat = 'kebab-case',
+        context?: TagChangeContext
     ): Promise<TagOperationResult> {
         try {
             const cache = app.metadataCache.getFileCache(file);
@@ -891,6 +1079,7 @@ export class TagUtils {
 
             if (newContent !== content) {
                 await app.vault.modify(file, newContent);
+                recordTagChange(file, existingTags, newTags, 'flatten', context);
                 await new Promise(resolve => setTimeout(resolve, 300));
             }
 
@@ -974,6 +1163,7 @@ export class TagUtils {
         let affectedFiles = 0;
         let errorCount = 0;
 
+        const batch = createTagBatch(`Rename #${normalizedOldTag} to #${formattedNewTag}`);
         for (const file of markdownFiles) {
             try {
                 const cache = app.metadataCache.getFileCache(file);
@@ -1028,6 +1218,7 @@ export class TagUtils {
 
                 if (newContent !== content) {
                     await app.vault.modify(file, newContent);
+                    recordTagChange(file, existingTags, uniqueTags, 'rename', batch);
                     affectedFiles++;
                 }
             } catch {
@@ -0,0 +1,111 @@
+import { TFile } from 'obsidian';
+import type { PluginState } from '../core/state';
+
+export type TaggingJobFileStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface TaggingJobFile {
+    path: string;
+    status: TaggingJobFileStatus;
+    /** Error message for failed files */
+    error?: string;
+}
+
+export interface TaggingJob {
+    id: string;
+    /** Description of the run, e.g. the folder being tagged */
+    label: string;
+    createdAt: number;
+    updatedAt: number;
+    /** Re-tag notes even if they are unchanged since they were last tagged */
+    force?: boolean;
+    files: TaggingJobFile[];
+}
+
+/**
+ * Keeps the current folder/vault tagging job in the plugin state so it survives restarts.
+ * `onChange` is called whenever the job needs saving.
+ */
+export class TaggingQueue {
+    private state: PluginState;
+    private onChange: () => void;
+
+    constructor(state: PluginState, onChange: () => void) {
+        this.state = state;
+        this.onChange = onChange;
+    }
+
+    getJob(): TaggingJob | null {
+        return this.state.taggingJob;
+    }
+
+    /**
+     * Checks whether the stored job still has files waiting to be processed
+     */
+    hasUnfinishedJob(): boolean {
+        return this.getCount('pending') > 0;
+    }
+
+    getCount(status: TaggingJobFileStatus): number {
+        return this.state.taggingJob?.files.filter(file => file.status === status).length ?? 0;
+    }
+
+    /**
+     * Replaces the stored job with a new one covering the given files
+     */
+    start(files: TFile[], label: string, force = false): TaggingJob {
+        const now = Date.now();
+        this.state.taggingJob = {
+            id: now.toString(36),
+            label,
+            createdAt: now,
+            updatedAt: now,
+            force,
+            files: files.map(file => ({ path: file.path, status: 'pending' }))
+        };
+        this.onChange();
+        return this.state.taggingJob;
+    }
+
+    setStatus(entry: TaggingJobFile, status: TaggingJobFileStatus, error?: string): void {
+        entry.status = status;
+        if (error) {
+            entry.error = error;
+        } else {
+            delete entry.error;
+        }
+        if (this.state.taggingJob) {
+            this.state.taggingJob.updatedAt = Date.now();
+        }
+        this.onChange();
+    }
+
+    /**
+     * Moves failed files back to pending
+     * @returns Number of re-queued files
+     */
+    retryFailed(): number {
+        let count = 0;
+        for (const entry of this.state.taggingJob?.files ?? []) {
+            if (entry.status === 'failed') {
+                entry.status = 'pending';
+                delete entry.error;
+                count++;
+            }
+        }
+        if (count > 0) {
+            this.onChange();
+        }
+        return count;
+    }
+
+    /**
+     * Keeps queued paths valid after a file is renamed or moved
+     */
+    handleRename(file: TFile, oldPath: string): void {
+        const entry = this.state.taggingJob?.files.find(item => item.path === oldPath);
+        if (entry) {
+            entry.path = file.path;
+            this.onChange();
+        }
+    }
+}
@@ -0,0 +1,144 @@
+import type { PluginState } from '../core/state';
+import type { ModelPrice } from '../core/settings';
+
+export const MAX_USAGE_ENTRIES = 20000;
+
+/** Provider names recorded for local servers, which cost nothing unless priced */
+const LOCAL_PROVIDERS = new Set(['local', 'ollama', 'lm_studio', 'localai', 'openai_compatible']);
+
+export interface UsageEntry {
+    timestamp: number;
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    /** Set when a count was estimated because the provider did not report it */
+    estimated?: boolean;
+    /** Note the request was made for */
+    path?: string;
+    /** Folder/vault run the request was part of */
+    runId?: string;
+    runLabel?: string;
+}
+
+/** How usage totals are grouped */
+export type UsageGrouping = 'day' | 'run' | 'folder';
+
+export interface UsageTotal {
+    /** Day (YYYY-MM-DD), run id or folder path; empty for requests outside a run */
+    key: string;
+    /** Run label, for run totals */
+    label?: string;
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** Cost of the requests whose model has a price, in USD */
+    cost: number;
+    /** Requests whose model has no price */
+    unpriced: number;
+    /** Requests with estimated token counts */
+    estimated: number;
+    /** Time of the latest request */
+    lastTimestamp: number;
+}
+
+/**
+ * Gets the cost of a request in USD
+ * @param entry - Recorded request
+ * @param prices - Price table, per million tokens
+ * @returns Cost, or null if the model has no price. Local models cost nothing unless they are priced.
+ */
+export function getUsageCost(entry: UsageEntry, prices: ModelPrice[]): number | null {
+    const model = entry.model.toLowerCase();
+    const price = prices.find(p => p.model.trim().toLowerCase() === model);
+    if (!price) {
+        return LOCAL_PROVIDERS.has(entry.provider) ? 0 : null;
+    }
+    return (entry.promptTokens * price.inputPrice + entry.completionTokens * price.outputPrice) / 1_000_000;
+}
+
+/**
+ * Formats a timestamp as a local date, YYYY-MM-DD
+ */
+function toDay(timestamp: number): string {
+    const date = new Date(timestamp);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Records the token counts of every LLM request, to report usage and cost per day, run and folder.
+ * Entries live in the plugin state; `onChange` is called whenever they need saving.
+ */
+export class UsageLedger {
+    private state: PluginState;
+    private onChange: () => void;
+
+    constructor(state: PluginState, onChange: () => void) {
+        this.state = state;
+        this.onChange = onChange;
+    }
+
+    record(entry: Omit<UsageEntry, 'timestamp'>): void {
+        const entries = this.state.usageLedger;
+        entries.push({ ...entry, timestamp: Date.now() });
+        if (entries.length > MAX_USAGE_ENTRIES) {
+            entries.splice(0, entries.length - MAX_USAGE_ENTRIES);
+        }
+        this.onChange();
+    }
+
+    getEntries(): UsageEntry[] {
+        return this.state.usageLedger;
+    }
+
+    clear(): void {
+        this.state.usageLedger = [];
+        this.onChange();
+    }
+
+    /**
+     * Adds up the recorded requests
+     * @param grouping - Per day, per run or per folder
+     * @param prices - Price table, per million tokens
+     * @returns Totals, latest first for days and runs, most expensive first for folders
+     */
+    summarize(grouping: UsageGrouping, prices: ModelPrice[]): UsageTotal[] {
+        const totals = new Map<string, UsageTotal>();
+
+        for (const entry of this.state.usageLedger) {
+            const key = grouping === 'day' ? toDay(entry.timestamp)
+                : grouping === 'run' ? entry.runId ?? ''
+                : entry.path?.includes('/') ? entry.path.substring(0, entry.path.lastIndexOf('/')) : '/';
+
+            let total = totals.get(key);
+            if (!total) {
+                total = {
+                    key,
+                    label: grouping === 'run' ? entry.runLabel : undefined,
+                    requests: 0,
+                    promptTokens: 0,
+                    completionTokens: 0,
+                    cost: 0,
+                    unpriced: 0,
+                    estimated: 0,
+                    lastTimestamp: 0
+                };
+                totals.set(key, total);
+            }
+
+            const cost = getUsageCost(entry, prices);
+            total.requests++;
+            total.promptTokens += entry.promptTokens;
+            total.completionTokens += entry.completionTokens;
+            total.cost += cost ?? 0;
+            total.unpriced += cost === null ? 1 : 0;
+            total.estimated += entry.estimated ? 1 : 0;
+            total.lastTimestamp = Math.max(total.lastTimestamp, entry.timestamp);
+        }
+
+        return [...totals.values()].sort((a, b) => grouping === 'folder'
+            ? b.cost - a.cost || b.promptTokens + b.completionTokens - a.promptTokens - a.completionTokens
+            : b.lastTimestamp - a.lastTimestamp);
+    }
+}